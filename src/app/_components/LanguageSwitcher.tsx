@@ -0,0 +1,34 @@
+'use client';
+import { LOCALES, Locale } from '@/lib/i18n';
+import { moderationRequest } from '@/lib/moderation-api';
+import { useI18n } from '@/lib/use-i18n';
+
+type LanguageSwitcherProps = {
+  saveForAdmin?: boolean; // Also store the choice on the admin record so it follows them to other browsers
+};
+
+export default function LanguageSwitcher({ saveForAdmin = false }: LanguageSwitcherProps) {
+  const { locale, setLocale, t } = useI18n();
+
+  function change(next: Locale) {
+    setLocale(next);
+    if (saveForAdmin) {
+      moderationRequest('me', { locale: next }).then(({ error }) => {
+        if (error) console.error('Error saving language:', error);
+      });
+    }
+  }
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => change(e.target.value as Locale)}
+      aria-label={t('common.language')}
+      className="px-4 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-amber-500"
+    >
+      {LOCALES.map(l => (
+        <option key={l.locale} value={l.locale}>{l.label}</option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit-log';
+import { isAdminRole } from '@/lib/roles';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+// Changes an admin's role and/or deactivates or reactivates them ({ role?, active? }).
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { admin, response } = await requireAdmin('manageAdmins');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { role, active } = body;
+  if (role !== undefined && !isAdminRole(role)) return badRequest('Unknown role');
+  if (active !== undefined && typeof active !== 'boolean') return badRequest('active must be true or false');
+  if (role === undefined && active === undefined) return badRequest('Nothing to update');
+
+  const { id } = await params;
+  // Keeps at least one owner: the only person who could undo a self-demotion is yourself
+  if (id === admin.id) return badRequest('You cannot change your own role or deactivate yourself');
+
+  const { data: previous } = await supabaseAdmin
+    .from('admins')
+    .select('role, deactivated_at')
+    .eq('id', id)
+    .maybeSingle();
+  if (!previous) return NextResponse.json({ error: 'Admin not found' }, { status: 404 });
+
+  const update: { role?: string; deactivated_at?: string | null } = {};
+  if (role !== undefined && role !== previous.role) update.role = role;
+  if (active !== undefined && active !== !previous.deactivated_at) {
+    update.deactivated_at = active ? null : new Date().toISOString();
+  }
+  if (Object.keys(update).length === 0) return NextResponse.json({ ok: true });
+
+  const { error } = await supabaseAdmin.from('admins').update(update).eq('id', id);
+  if (error) {
+    console.error('Error updating admin:', error);
+    return NextResponse.json({ error: 'Failed to update admin' }, { status: 500 });
+  }
+
+  // Deactivated admins should not keep users locked in their claims
+  if (update.deactivated_at) {
+    const { error: claimError } = await supabaseAdmin.from('verification_claims').delete().eq('admin_id', id);
+    if (claimError) console.error('Error releasing claims:', claimError);
+  }
+
+  await recordAudit([
+    ...(update.role ? [{ admin, targetUserId: id, action: 'admin_role_change' as const, oldValue: previous.role, newValue: update.role }] : []),
+    ...('deactivated_at' in update
+      ? [{
+          admin,
+          targetUserId: id,
+          action: update.deactivated_at ? ('admin_deactivate' as const) : ('admin_reactivate' as const),
+          oldValue: null,
+          newValue: null,
+        }]
+      : []),
+  ]);
+
+  return NextResponse.json({ ok: true });
+}
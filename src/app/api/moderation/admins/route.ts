@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit-log';
+import { isAdminRole } from '@/lib/roles';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const AUTH_USERS_PAGE_SIZE = 1000;
+
+// The auth API has no lookup by email, so page through users until it turns up.
+async function findAuthUserId(email: string) {
+  for (let page = 1; ; page++) {
+    const { data, error } = await supabaseAdmin.auth.admin.listUsers({ page, perPage: AUTH_USERS_PAGE_SIZE });
+    if (error) throw error;
+    const match = data.users.find(u => u.email?.toLowerCase() === email);
+    if (match) return match.id;
+    if (data.users.length < AUTH_USERS_PAGE_SIZE) return null;
+  }
+}
+
+export async function GET() {
+  const { admin, response } = await requireAdmin('manageAdmins');
+  if (!admin) return response;
+
+  const { data, error } = await supabaseAdmin
+    .from('admins')
+    .select('id, email, role, invited_by, created_at, deactivated_at')
+    .order('created_at', { ascending: true });
+  if (error) {
+    console.error('Error loading admins:', error);
+    return NextResponse.json({ error: 'Failed to load admins' }, { status: 500 });
+  }
+
+  return NextResponse.json({ admins: data || [] });
+}
+
+// Invites someone by email (or adds an existing account) with the given role.
+export async function POST(request: Request) {
+  const { admin, response } = await requireAdmin('manageAdmins');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { role } = body;
+  const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+  if (!EMAIL_PATTERN.test(email)) return badRequest('A valid email is required');
+  if (!isAdminRole(role)) return badRequest('Unknown role');
+
+  const { data: invited, error: inviteError } = await supabaseAdmin.auth.admin.inviteUserByEmail(email, {
+    redirectTo: `${new URL(request.url).origin}/login`,
+  });
+
+  let userId = invited?.user?.id ?? null;
+  if (inviteError) {
+    if (inviteError.code !== 'email_exists') {
+      console.error('Error inviting admin:', inviteError);
+      return NextResponse.json({ error: 'Failed to send the invitation' }, { status: 500 });
+    }
+    userId = await findAuthUserId(email).catch(err => {
+      console.error('Error looking up existing account:', err);
+      return null;
+    });
+    if (!userId) return NextResponse.json({ error: 'Failed to find the existing account' }, { status: 500 });
+  }
+
+  const { data: existing } = await supabaseAdmin.from('admins').select('id').eq('id', userId).maybeSingle();
+  if (existing) return NextResponse.json({ error: 'Already an admin — change their role or reactivate them instead' }, { status: 409 });
+
+  const { error } = await supabaseAdmin.from('admins').insert({ id: userId, email, role, invited_by: admin.id });
+  if (error) {
+    console.error('Error adding admin:', error);
+    return NextResponse.json({ error: 'Failed to add admin' }, { status: 500 });
+  }
+
+  await recordAudit({
+    admin,
+    targetUserId: userId!,
+    action: 'admin_invite',
+    oldValue: null,
+    newValue: role,
+    reason: email,
+  });
+
+  return NextResponse.json({ ok: true });
+}
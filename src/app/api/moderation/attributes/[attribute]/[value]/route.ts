@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { isAttributeName, isOptionColor } from '@/lib/attribute-options';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+// Renames, recolours, reorders or archives/restores an option ({ label?, color?, sortOrder?, archived? }).
+// The stored value never changes, so users keep their option whatever it is called.
+export async function POST(request: Request, { params }: { params: Promise<{ attribute: string; value: string }> }) {
+  const { admin, response } = await requireAdmin('manageAttributes');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { color, sortOrder, archived } = body;
+  const label = typeof body.label === 'string' ? body.label.trim() : body.label;
+  if (label !== undefined && (typeof label !== 'string' || !label)) return badRequest('label cannot be empty');
+  if (color !== undefined && !isOptionColor(color)) return badRequest('Unknown color');
+  if (sortOrder !== undefined && !Number.isInteger(sortOrder)) return badRequest('sortOrder must be a whole number');
+  if (archived !== undefined && typeof archived !== 'boolean') return badRequest('archived must be true or false');
+
+  // Route params arrive decoded already
+  const { attribute, value } = await params;
+  if (!isAttributeName(attribute)) return badRequest('Unknown attribute');
+
+  const { data: previous } = await supabaseAdmin
+    .from('attribute_options')
+    .select('archived_at')
+    .eq('attribute', attribute)
+    .eq('value', value)
+    .maybeSingle();
+  if (!previous) return NextResponse.json({ error: 'Option not found' }, { status: 404 });
+
+  const update: { label?: string; color?: string; sort_order?: number; archived_at?: string | null } = {};
+  if (label !== undefined) update.label = label;
+  if (color !== undefined) update.color = color;
+  if (sortOrder !== undefined) update.sort_order = sortOrder as number;
+  if (archived !== undefined && archived !== !!previous.archived_at) {
+    update.archived_at = archived ? new Date().toISOString() : null;
+  }
+  if (Object.keys(update).length === 0) return NextResponse.json({ ok: true });
+
+  const { error } = await supabaseAdmin
+    .from('attribute_options')
+    .update(update)
+    .eq('attribute', attribute)
+    .eq('value', value);
+  if (error) {
+    console.error('Error updating attribute option:', error);
+    return NextResponse.json({ error: 'Failed to update option' }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
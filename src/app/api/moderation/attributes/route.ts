@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { RESERVED_OPTION_VALUES, isAttributeName, isOptionColor } from '@/lib/attribute-options';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+const MAX_VALUE_LENGTH = 50;
+
+// Adds an option ({ attribute, value, label, color }) at the end of the attribute's list.
+export async function POST(request: Request) {
+  const { admin, response } = await requireAdmin('manageAttributes');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { attribute, color } = body;
+  const value = typeof body.value === 'string' ? body.value.trim() : '';
+  const label = typeof body.label === 'string' ? body.label.trim() : '';
+  if (!isAttributeName(attribute)) return badRequest('Unknown attribute');
+  if (!value || value.length > MAX_VALUE_LENGTH) return badRequest(`value must be 1–${MAX_VALUE_LENGTH} characters`);
+  if (RESERVED_OPTION_VALUES.includes(value.toLowerCase())) return badRequest(`"${value}" is reserved`);
+  if (!label) return badRequest('label is required');
+  if (!isOptionColor(color)) return badRequest('Unknown color');
+
+  // Stored values are matched exactly, so the same value in another case would look like a separate option
+  const { data: clash } = await supabaseAdmin
+    .from('attribute_options')
+    .select('value')
+    .eq('attribute', attribute)
+    .ilike('value', value.replace(/[\\%_]/g, c => `\\${c}`))
+    .maybeSingle();
+  if (clash) return NextResponse.json({ error: `"${clash.value}" already exists — restore or rename it instead` }, { status: 409 });
+
+  const { data: last } = await supabaseAdmin
+    .from('attribute_options')
+    .select('sort_order')
+    .eq('attribute', attribute)
+    .order('sort_order', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { error } = await supabaseAdmin.from('attribute_options').insert({
+    attribute,
+    value,
+    label,
+    color,
+    sort_order: (last?.sort_order ?? 0) + 1,
+  });
+  if (error) {
+    console.error('Error adding attribute option:', error);
+    return NextResponse.json({ error: 'Failed to add option' }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,68 @@
+import { NextResponse, after } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { CLAIM_LEASE_MINUTES, fetchQueueStats } from '@/lib/claims';
+import { ensurePhotoHashes } from '@/lib/photo-hashes';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+const MAX_BATCH_SIZE = 100;
+
+// Queue counts without claiming anything, for the dashboard overview.
+export async function GET() {
+  const { admin, response } = await requireAdmin();
+  if (!admin) return response;
+
+  return NextResponse.json(await fetchQueueStats(admin.id));
+}
+
+// Renews the caller's claims and tops them up to `limit` pending users.
+export async function POST(request: Request) {
+  const { admin, response } = await requireAdmin('verify');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { limit } = body;
+  if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > MAX_BATCH_SIZE) {
+    return badRequest(`limit must be an integer between 1 and ${MAX_BATCH_SIZE}`);
+  }
+
+  // Claims the caller already holds are only renewed below; their photos were hashed when they were first claimed
+  const { data: held } = await supabaseAdmin
+    .from('verification_claims')
+    .select('user_id')
+    .eq('admin_id', admin.id)
+    .gt('expires_at', new Date().toISOString());
+  const alreadyHeld = new Set((held || []).map(c => c.user_id));
+
+  const { data: users, error } = await supabaseAdmin.rpc('claim_verification_batch', {
+    p_admin_id: admin.id,
+    p_batch_size: limit,
+    p_lease_minutes: CLAIM_LEASE_MINUTES,
+  });
+  if (error) {
+    console.error('Error claiming users:', error);
+    return NextResponse.json({ error: 'Failed to claim users' }, { status: 500 });
+  }
+
+  // Hash the newly claimed users' photos after responding so duplicate lookups are ready by the time each is reviewed.
+  // Renewals (every minute while verifying) skip this, so storage folders are not listed over and over.
+  const newlyClaimed = ((users || []) as { id: string; image_urls: string[] | null }[]).filter(u => !alreadyHeld.has(u.id));
+  if (newlyClaimed.length > 0) after(() => ensurePhotoHashes(newlyClaimed));
+
+  return NextResponse.json({ users: users || [], ...(await fetchQueueStats(admin.id)) });
+}
+
+// Hands every claim the caller holds back to the pool.
+export async function DELETE() {
+  const { admin, response } = await requireAdmin('verify');
+  if (!admin) return response;
+
+  const { error } = await supabaseAdmin.from('verification_claims').delete().eq('admin_id', admin.id);
+  if (error) {
+    console.error('Error releasing claims:', error);
+    return NextResponse.json({ error: 'Failed to release claims' }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
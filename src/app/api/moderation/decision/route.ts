@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit-log';
+import { findForeignClaim, releaseClaim } from '@/lib/claims';
+import { Rejection, isCompleteRejection } from '@/lib/rejection-reasons';
+import { can } from '@/lib/roles';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+const VERIFICATION_STATUSES = ['verified', 'unverified', 'pending', null];
+
+// Records an approve or reject. `expected` is the is_verified value the moderator saw (defaults to whatever is
+// stored now); the write only lands if it still holds, otherwise the response is a 409 saying what changed.
+export async function POST(request: Request) {
+  const { admin, response } = await requireAdmin('verify');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { userId, decision, rejection, expected } = body;
+  if (typeof userId !== 'string' || !userId) return badRequest('userId is required');
+  if (decision !== 'verified' && decision !== 'rejected') return badRequest('decision must be verified or rejected');
+  if (expected !== undefined && !VERIFICATION_STATUSES.includes(expected as string | null)) {
+    return badRequest('expected must be a verification status or null');
+  }
+
+  let update;
+  if (decision === 'rejected') {
+    const candidate = (rejection && typeof rejection === 'object' ? rejection : {}) as Partial<Rejection>;
+    if (!isCompleteRejection(candidate)) return badRequest('A rejection reason is required');
+    update = {
+      is_verified: 'unverified',
+      rejection_reason: candidate.reason,
+      rejection_note: candidate.note?.trim() || null,
+      rejected_at: new Date().toISOString(),
+    };
+  } else {
+    update = { is_verified: 'verified', rejection_reason: null, rejection_note: null, rejected_at: null };
+  }
+
+  if (await findForeignClaim(userId, admin.id)) {
+    return NextResponse.json({ error: 'User is being reviewed by another moderator' }, { status: 409 });
+  }
+
+  // Escalated users wait for a senior moderator
+  if (!can(admin, 'reviewEscalations')) {
+    const { data: escalation } = await supabaseAdmin
+      .from('verification_escalations')
+      .select('id')
+      .eq('user_id', userId)
+      .is('resolved_at', null)
+      .maybeSingle();
+    if (escalation) return NextResponse.json({ error: 'Only senior moderators can decide escalated users' }, { status: 403 });
+  }
+
+  const { data: previous } = await supabaseAdmin
+    .from('users')
+    .select('is_verified')
+    .eq('id', userId)
+    .maybeSingle();
+  if (!previous) return NextResponse.json({ error: 'User not found' }, { status: 404 });
+
+  const expectedStatus = expected === undefined ? previous.is_verified : expected;
+  if (previous.is_verified !== expectedStatus) {
+    // A retry whose first attempt did land, or another admin reaching the same verdict: nothing left to do
+    if (previous.is_verified === update.is_verified) return NextResponse.json({ ok: true, alreadyApplied: true });
+    return decisionConflict(expectedStatus, previous.is_verified);
+  }
+  if (previous.is_verified !== 'pending' && !can(admin, 'reverseDecisions')) {
+    return NextResponse.json({ error: 'Only senior moderators can change a decided user' }, { status: 403 });
+  }
+
+  // Conditional on the status just read, so a change landing in between is reported rather than overwritten
+  const matchingStatus = supabaseAdmin.from('users').update(update).eq('id', userId);
+  const { data: updated, error } = await (expectedStatus === null
+    ? matchingStatus.is('is_verified', null)
+    : matchingStatus.eq('is_verified', expectedStatus)
+  ).select('is_verified');
+  if (error) {
+    console.error('Error saving decision:', error);
+    return NextResponse.json({ error: 'Failed to save decision' }, { status: 500 });
+  }
+  if (!updated?.length) {
+    const { data: current } = await supabaseAdmin.from('users').select('is_verified').eq('id', userId).maybeSingle();
+    return decisionConflict(expectedStatus, current?.is_verified ?? null);
+  }
+
+  await releaseClaim(userId);
+
+  // A decision settles any open escalation for this user
+  const { error: escalationError } = await supabaseAdmin
+    .from('verification_escalations')
+    .update({ resolved_at: new Date().toISOString(), resolved_by: admin.id })
+    .eq('user_id', userId)
+    .is('resolved_at', null);
+  if (escalationError) console.error('Error resolving escalation:', escalationError);
+
+  await recordAudit({
+    admin,
+    targetUserId: userId,
+    action: decision === 'verified' ? 'approve' : 'reject',
+    oldValue: previous.is_verified,
+    newValue: update.is_verified,
+    reason: update.rejection_reason && [update.rejection_reason, update.rejection_note].filter(Boolean).join(': '),
+  });
+
+  if (decision === 'rejected') {
+    const { error: historyError } = await supabaseAdmin.from('verification_rejections').insert({
+      user_id: userId,
+      reason: update.rejection_reason,
+      note: update.rejection_note,
+      rejected_by: admin.id,
+    });
+    if (historyError) console.error('Error recording rejection:', historyError);
+  }
+
+  return NextResponse.json({ ok: true });
+}
+
+function decisionConflict(expected: string | null, current: string | null) {
+  return NextResponse.json(
+    { error: `Changed by someone else: expected ${expected ?? 'no status'}, now ${current ?? 'no status'}`, current },
+    { status: 409 }
+  );
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit-log';
+import { releaseClaim } from '@/lib/claims';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+// Open escalations whose user is still pending, oldest first.
+export async function GET() {
+  const { admin, response } = await requireAdmin('reviewEscalations');
+  if (!admin) return response;
+
+  const { data, error } = await supabaseAdmin
+    .from('verification_escalations')
+    .select('id, note, escalated_by, created_at, user:users!inner(*)')
+    .is('resolved_at', null)
+    .eq('user.is_verified', 'pending')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading escalations:', error);
+    return NextResponse.json({ error: 'Failed to load escalations' }, { status: 500 });
+  }
+
+  return NextResponse.json({ escalations: data || [] });
+}
+
+// Sets a pending user aside for senior review.
+export async function POST(request: Request) {
+  const { admin, response } = await requireAdmin('verify');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { userId, note } = body;
+  if (typeof userId !== 'string' || !userId) return badRequest('userId is required');
+  if (typeof note !== 'string' || !note.trim()) return badRequest('A note for the senior reviewer is required');
+
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('is_verified')
+    .eq('id', userId)
+    .maybeSingle();
+  if (!user) return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  if (user.is_verified !== 'pending') return badRequest('Only pending users can be escalated');
+
+  const { error } = await supabaseAdmin.from('verification_escalations').insert({
+    user_id: userId,
+    note: note.trim(),
+    escalated_by: admin.id,
+  });
+  if (error) {
+    // The partial unique index allows only one open escalation per user
+    if (error.code === '23505') {
+      return NextResponse.json({ error: 'User is already escalated' }, { status: 409 });
+    }
+    console.error('Error escalating user:', error);
+    return NextResponse.json({ error: 'Failed to escalate user' }, { status: 500 });
+  }
+
+  await releaseClaim(userId);
+  await recordAudit({
+    admin,
+    targetUserId: userId,
+    action: 'escalate',
+    oldValue: 'pending',
+    newValue: 'escalated',
+    reason: note.trim(),
+  });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,27 @@
+import { badRequest, requireAdmin } from '@/lib/admin-auth';
+import { AuditEntry, AuditFilters, applyAuditFilters, parseAuditFilters } from '@/lib/audit';
+import { AUDIT_EXPORT_COLUMNS, isExportFormat } from '@/lib/export';
+import { paginate, streamExport } from '@/lib/export-stream';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+async function* auditRecords(filters: AuditFilters) {
+  yield* paginate<AuditEntry>((from, to) =>
+    applyAuditFilters(supabaseAdmin.from('moderation_audit_log').select(AUDIT_EXPORT_COLUMNS.join(', ')), filters)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(from, to)
+  );
+}
+
+// Moderation history matching the audit log page's filters, as ?format=csv|json.
+export async function GET(request: Request) {
+  const { admin, response } = await requireAdmin('export');
+  if (!admin) return response;
+
+  const params = new URL(request.url).searchParams;
+  const format = params.get('format') ?? 'csv';
+  if (!isExportFormat(format)) return badRequest('format must be csv or json');
+
+  const fileName = `moderation-history-${new Date().toISOString().slice(0, 10)}`;
+  return streamExport(fileName, format, AUDIT_EXPORT_COLUMNS, auditRecords(parseAuditFilters(params)));
+}
@@ -0,0 +1,54 @@
+import { badRequest, requireAdmin } from '@/lib/admin-auth';
+import { UserExportColumn, isExportFormat, parseUserExportColumns } from '@/lib/export';
+import { paginate, streamExport } from '@/lib/export-stream';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import type { User } from '@/lib/types';
+import { UserFilters, applyUserFilters, parseUserFilters } from '@/lib/user-filters';
+import { countVerificationPhotos } from '@/lib/verification-photos';
+
+async function* userRecords(filters: UserFilters, columns: UserExportColumn[]) {
+  const pages = paginate<User>((from, to) =>
+    applyUserFilters(supabaseAdmin.from('users').select('*'), filters)
+      .order('created_at', { ascending: filters.sort === 'asc' })
+      .order('id')
+      .range(from, to)
+  );
+
+  for await (const users of pages) {
+    const photoCounts = columns.includes('verification_photo_count')
+      ? await countVerificationPhotos(users.map(u => u.id))
+      : {};
+
+    yield users.map(user => {
+      const values: Record<UserExportColumn, unknown> = {
+        id: user.id,
+        name: user.name,
+        age: user.age,
+        gender: user.gender,
+        country: user.country,
+        is_verified: user.is_verified,
+        created_at: user.created_at,
+        profile_photo_count: user.image_urls?.length ?? 0,
+        verification_photo_count: photoCounts[user.id] ?? 0,
+      };
+      return Object.fromEntries(columns.map(column => [column, values[column]]));
+    });
+  }
+}
+
+// Every user matching the gender grid's filters (same query string, `page` ignored),
+// plus ?format=csv|json and an optional comma-separated ?columns= list.
+export async function GET(request: Request) {
+  const { admin, response } = await requireAdmin('export');
+  if (!admin) return response;
+
+  const params = new URL(request.url).searchParams;
+  const format = params.get('format') ?? 'csv';
+  if (!isExportFormat(format)) return badRequest('format must be csv or json');
+
+  const columns = parseUserExportColumns(params.get('columns'));
+  if (columns.length === 0) return badRequest('Select at least one column');
+
+  const fileName = `users-${new Date().toISOString().slice(0, 10)}`;
+  return streamExport(fileName, format, columns, userRecords(parseUserFilters(params), columns));
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { fetchAttributeOptions, isAssignable } from '@/lib/attribute-options';
+import { recordAudit } from '@/lib/audit-log';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+const MAX_BULK_USERS = 500;
+
+// Sets (or clears, with gender: null) the gender of many users. Users whose gender changed between reading and
+// writing are left alone and listed in `conflicted` with their current gender.
+export async function POST(request: Request) {
+  const { admin, response } = await requireAdmin('changeGender');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { userIds, gender } = body;
+  if (!Array.isArray(userIds) || userIds.length === 0 || !userIds.every(id => typeof id === 'string' && id)) {
+    return badRequest('userIds must be a non-empty array of ids');
+  }
+  if (userIds.length > MAX_BULK_USERS) return badRequest(`At most ${MAX_BULK_USERS} users per request`);
+  if (gender !== null) {
+    const options = await fetchAttributeOptions(supabaseAdmin, 'gender');
+    if (!isAssignable(options, gender)) return badRequest('gender must be an active gender option or null');
+  }
+
+  const { data: previous, error: readError } = await supabaseAdmin
+    .from('users')
+    .select('id, gender')
+    .in('id', userIds);
+  if (readError) {
+    console.error('Error reading users:', readError);
+    return NextResponse.json({ error: 'Failed to update gender' }, { status: 500 });
+  }
+
+  // One write per gender that was read, each conditional on it, so a change landing in between is reported
+  // as a conflict rather than overwritten
+  const toChange = (previous || []).filter(u => u.gender !== gender);
+  const byPrevious = new Map<string | null, string[]>();
+  toChange.forEach(u => byPrevious.set(u.gender, [...(byPrevious.get(u.gender) ?? []), u.id]));
+
+  const updatedIds = new Set<string>();
+  for (const [previousGender, ids] of byPrevious) {
+    const matchingGender = supabaseAdmin.from('users').update({ gender }).in('id', ids);
+    const { data: updated, error } = await (previousGender === null
+      ? matchingGender.is('gender', null)
+      : matchingGender.eq('gender', previousGender)
+    ).select('id');
+    if (error) {
+      console.error('Error updating gender:', error);
+      return NextResponse.json({ error: 'Failed to update gender' }, { status: 500 });
+    }
+    (updated || []).forEach(u => updatedIds.add(u.id));
+  }
+
+  const changed = toChange.filter(u => updatedIds.has(u.id));
+  if (changed.length > 0) {
+    await recordAudit(changed.map(u => ({
+      admin,
+      targetUserId: u.id,
+      action: 'gender_change' as const,
+      oldValue: u.gender,
+      newValue: gender,
+    })));
+  }
+
+  let conflicted: { id: string; current: string | null }[] = [];
+  const conflictedIds = toChange.filter(u => !updatedIds.has(u.id)).map(u => u.id);
+  if (conflictedIds.length > 0) {
+    const { data: current } = await supabaseAdmin.from('users').select('id, gender').in('id', conflictedIds);
+    conflicted = (current || []).map(u => ({ id: u.id, current: u.gender }));
+  }
+
+  const found = new Set((previous || []).map(u => u.id));
+  return NextResponse.json({
+    changed: changed.map(u => ({ id: u.id, previous: u.gender })),
+    unchanged: (previous || []).length - toChange.length,
+    conflicted,
+    missing: userIds.filter(id => !found.has(id)),
+  });
+}
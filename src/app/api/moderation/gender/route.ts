@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { fetchAttributeOptions, isAssignable } from '@/lib/attribute-options';
+import { recordAudit } from '@/lib/audit-log';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+// Sets one user's gender to an active option, or clears it with gender: null. With `expected` (the gender the
+// moderator saw) the write only lands if it still holds; otherwise the response is a 409 with the current value.
+export async function POST(request: Request) {
+  const { admin, response } = await requireAdmin('changeGender');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { userId, gender, expected } = body;
+  if (typeof userId !== 'string' || !userId) return badRequest('userId is required');
+  if (expected !== undefined && expected !== null && typeof expected !== 'string') return badRequest('expected must be a string or null');
+  if (gender !== null) {
+    const options = await fetchAttributeOptions(supabaseAdmin, 'gender');
+    if (!isAssignable(options, gender)) return badRequest('gender must be an active gender option or null');
+  }
+
+  const { data: previous } = await supabaseAdmin
+    .from('users')
+    .select('gender')
+    .eq('id', userId)
+    .maybeSingle();
+  if (!previous) return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  if (previous.gender === gender) return NextResponse.json({ ok: true, alreadyApplied: true });
+
+  const expectedGender = expected === undefined ? previous.gender : expected;
+  if (previous.gender !== expectedGender) return genderConflict(previous.gender);
+
+  const matchingGender = supabaseAdmin.from('users').update({ gender }).eq('id', userId);
+  const { data: updated, error } = await (expectedGender === null
+    ? matchingGender.is('gender', null)
+    : matchingGender.eq('gender', expectedGender)
+  ).select('gender');
+  if (error) {
+    console.error('Error updating gender:', error);
+    return NextResponse.json({ error: 'Failed to update gender' }, { status: 500 });
+  }
+  if (!updated?.length) {
+    const { data: current } = await supabaseAdmin.from('users').select('gender').eq('id', userId).maybeSingle();
+    return genderConflict(current?.gender ?? null);
+  }
+
+  await recordAudit({
+    admin,
+    targetUserId: userId,
+    action: 'gender_change',
+    oldValue: previous.gender,
+    newValue: gender,
+  });
+
+  return NextResponse.json({ ok: true });
+}
+
+function genderConflict(current: string | null) {
+  return NextResponse.json(
+    { error: `Changed by someone else: gender is now ${current ?? 'not set'}`, current },
+    { status: 409 }
+  );
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { isLocale } from '@/lib/i18n';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+// The signed-in admin and their role, so the UI can hide what the server would refuse anyway.
+export async function GET() {
+  const { admin, response } = await requireAdmin();
+  if (!admin) return response;
+
+  return NextResponse.json(admin);
+}
+
+// Saves the caller's own preferences. Currently only the UI language.
+export async function POST(request: Request) {
+  const { admin, response } = await requireAdmin();
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { locale } = body;
+  if (!isLocale(locale)) return badRequest('Unsupported locale');
+
+  const { error } = await supabaseAdmin.from('admins').update({ locale }).eq('id', admin.id);
+  if (error) {
+    console.error('Error saving locale:', error);
+    return NextResponse.json({ error: 'Failed to save language' }, { status: 500 });
+  }
+
+  return NextResponse.json({ locale });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { ensurePhotoHashes } from '@/lib/photo-hashes';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+const BACKFILL_BATCH_SIZE = 10; // Each user means a storage listing plus a download per unhashed photo
+
+// Hashes the photos of users who were never claimed since hashing was added, such as accounts verified before it,
+// so duplicate checks can match them. Works through users in id order one batch per call: pass the returned `next`
+// as `after` until it comes back null. Photos that already have a hash are skipped, so a rerun is cheap.
+export async function POST(request: Request) {
+  const { admin, response } = await requireAdmin('backfillPhotoHashes');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { after } = body;
+  if (after !== undefined && (typeof after !== 'string' || !after)) return badRequest('after must be a user id');
+
+  let query = supabaseAdmin.from('users').select('id, image_urls').order('id').limit(BACKFILL_BATCH_SIZE);
+  if (after) query = query.gt('id', after);
+  const { data: users, error } = await query;
+  if (error) {
+    console.error('Error loading users to hash:', error);
+    return NextResponse.json({ error: 'Failed to load users' }, { status: 500 });
+  }
+
+  await ensurePhotoHashes(users || []);
+
+  const last = users?.[users.length - 1];
+  return NextResponse.json({
+    processed: users?.length ?? 0,
+    next: users?.length === BACKFILL_BATCH_SIZE && last ? last.id : null,
+  });
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { signVerificationPhotos } from '@/lib/verification-photos';
+
+const MAX_USERS_PER_REQUEST = 50;
+
+// Signed verification photo URLs for users the caller is actually reviewing: their own claims,
+// escalated users, or users that were already decided (undo / re-review).
+export async function POST(request: Request) {
+  const { admin, response } = await requireAdmin();
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { userIds } = body;
+  if (!Array.isArray(userIds) || userIds.length === 0 || !userIds.every(id => typeof id === 'string' && id)) {
+    return badRequest('userIds must be a non-empty array of ids');
+  }
+  if (userIds.length > MAX_USERS_PER_REQUEST) return badRequest(`At most ${MAX_USERS_PER_REQUEST} users per request`);
+
+  const [{ data: users }, { data: claims }, { data: escalations }] = await Promise.all([
+    supabaseAdmin.from('users').select('id, is_verified').in('id', userIds),
+    supabaseAdmin
+      .from('verification_claims')
+      .select('user_id')
+      .in('user_id', userIds)
+      .eq('admin_id', admin.id)
+      .gt('expires_at', new Date().toISOString()),
+    supabaseAdmin.from('verification_escalations').select('user_id').in('user_id', userIds).is('resolved_at', null),
+  ]);
+
+  const reviewable = new Set([
+    ...(claims || []).map(c => c.user_id),
+    ...(escalations || []).map(e => e.user_id),
+    ...(users || []).filter(u => u.is_verified !== 'pending').map(u => u.id),
+  ]);
+
+  const allowed = (users || []).map(u => u.id).filter(id => reviewable.has(id));
+  const signed = await Promise.all(allowed.map(async id => [id, await signVerificationPhotos(id)] as const));
+
+  return NextResponse.json({ photos: Object.fromEntries(signed) });
+}
@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit-log';
+import { isPhotoRemovalReason, photoRemovalReasonLabel } from '@/lib/photo-reasons';
+import { removeProfilePhoto } from '@/lib/profile-photos';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import type { PendingProfilePhoto } from '@/lib/types';
+
+const MAX_PAGE_SIZE = 100;
+
+type PendingPhotoRow = {
+  user_id: string;
+  url: string;
+  added_at: string;
+  name: string | null;
+  age: number | null;
+  country: string | null;
+  total: number;
+};
+
+// Unreviewed profile photos, newest first (?limit=, default 24), and how many are waiting in total.
+export async function GET(request: Request) {
+  const { admin, response } = await requireAdmin('moderatePhotos');
+  if (!admin) return response;
+
+  const limit = Number(new URL(request.url).searchParams.get('limit') ?? 24);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return badRequest(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('pending_profile_photos', { p_limit: limit });
+  if (error) {
+    console.error('Error loading profile photos:', error);
+    return NextResponse.json({ error: 'Failed to load profile photos' }, { status: 500 });
+  }
+
+  const rows = (data || []) as PendingPhotoRow[];
+  const photos: PendingProfilePhoto[] = rows.map(row => ({
+    url: row.url,
+    addedAt: row.added_at,
+    user: { id: row.user_id, name: row.name, age: row.age, country: row.country },
+  }));
+  return NextResponse.json({ photos, total: Number(rows[0]?.total ?? 0) });
+}
+
+// Approves or removes one photo ({ userId, url, decision: 'approve' | 'remove', reason?, note? }). A removal takes
+// the photo off the profile and deletes its stored file. Each photo is reviewed once: a second review gets a 409.
+export async function POST(request: Request) {
+  const { admin, response } = await requireAdmin('moderatePhotos');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { userId, url, decision, reason } = body;
+  const note = typeof body.note === 'string' ? body.note.trim() || null : null;
+  if (typeof userId !== 'string' || !userId) return badRequest('userId is required');
+  if (typeof url !== 'string' || !url) return badRequest('url is required');
+  if (decision !== 'approve' && decision !== 'remove') return badRequest('decision must be approve or remove');
+  if (decision === 'remove') {
+    if (!isPhotoRemovalReason(reason)) return badRequest('A removal reason is required');
+    if (reason === 'other' && !note) return badRequest('Describe the problem in a note');
+  }
+
+  // Marking the row first means two moderators can't both act on the same photo
+  const { data: claimed, error: reviewError } = await supabaseAdmin
+    .from('profile_photos')
+    .update({
+      status: decision === 'approve' ? 'approved' : 'removed',
+      reason: decision === 'remove' ? reason : null,
+      note: decision === 'remove' ? note : null,
+      reviewed_by: admin.id,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq('user_id', userId)
+    .eq('url', url)
+    .eq('status', 'pending')
+    .select('url');
+  if (reviewError) {
+    console.error('Error reviewing profile photo:', reviewError);
+    return NextResponse.json({ error: 'Failed to save review' }, { status: 500 });
+  }
+  if (!claimed?.length) {
+    const { data: existing } = await supabaseAdmin
+      .from('profile_photos')
+      .select('status')
+      .eq('user_id', userId)
+      .eq('url', url)
+      .maybeSingle();
+    if (!existing) return NextResponse.json({ error: 'Photo not found' }, { status: 404 });
+    return NextResponse.json({ error: `Already ${existing.status} by another moderator` }, { status: 409 });
+  }
+
+  if (decision === 'remove' && !(await removeProfilePhoto(userId, url))) {
+    await supabaseAdmin
+      .from('profile_photos')
+      .update({ status: 'pending', reason: null, note: null, reviewed_by: null, reviewed_at: null })
+      .eq('user_id', userId)
+      .eq('url', url);
+    return NextResponse.json({ error: 'Failed to remove photo' }, { status: 500 });
+  }
+
+  await recordAudit({
+    admin,
+    targetUserId: userId,
+    action: decision === 'approve' ? 'photo_approve' : 'photo_remove',
+    oldValue: url,
+    newValue: null,
+    reason: decision === 'remove' ? [photoRemovalReasonLabel(reason as string), note].filter(Boolean).join(': ') : null,
+  });
+
+  return NextResponse.json({ ok: true });
+}
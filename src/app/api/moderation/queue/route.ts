@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { isQueueStrategy, parseCountryCodes } from '@/lib/queue-order';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+// The caller's queue strategy and the priority rules currently applied on top of it.
+export async function GET() {
+  const { admin, response } = await requireAdmin();
+  if (!admin) return response;
+
+  const [{ data: prefs, error: prefsError }, { data: rules, error: rulesError }] = await Promise.all([
+    supabaseAdmin.from('admins').select('queue_strategy, queue_countries').eq('id', admin.id).single(),
+    supabaseAdmin
+      .from('queue_priority_rules')
+      .select('id, kind, value, weight, active, created_at')
+      .eq('active', true)
+      .order('weight', { ascending: false }),
+  ]);
+  if (prefsError || rulesError) {
+    console.error('Error loading queue order:', prefsError || rulesError);
+    return NextResponse.json({ error: 'Failed to load queue order' }, { status: 500 });
+  }
+
+  return NextResponse.json({ strategy: prefs.queue_strategy, countries: prefs.queue_countries, rules: rules || [] });
+}
+
+// Sets the order the caller's own queue is claimed in ({ strategy, countries? }).
+export async function POST(request: Request) {
+  const { admin, response } = await requireAdmin('verify');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { strategy } = body;
+  if (!isQueueStrategy(strategy)) return badRequest('Unknown queue strategy');
+  const countries = Array.isArray(body.countries) ? parseCountryCodes(body.countries.join(',')) : [];
+  if (strategy === 'countries_first' && countries.length === 0) return badRequest('Pick at least one country');
+
+  const update = strategy === 'countries_first' ? { queue_strategy: strategy, queue_countries: countries } : { queue_strategy: strategy };
+  const { error } = await supabaseAdmin.from('admins').update(update).eq('id', admin.id);
+  if (error) {
+    console.error('Error saving queue strategy:', error);
+    return NextResponse.json({ error: 'Failed to save queue order' }, { status: 500 });
+  }
+
+  // Claims already held were taken in the old order; hand them back so the next batch follows the new one
+  const { error: claimError } = await supabaseAdmin.from('verification_claims').delete().eq('admin_id', admin.id);
+  if (claimError) console.error('Error releasing claims:', claimError);
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { MAX_RULE_WEIGHT } from '@/lib/queue-order';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+// Changes a rule's weight and/or switches it on or off ({ weight?, active? }).
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { admin, response } = await requireAdmin('manageQueueRules');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { weight, active } = body;
+  if (weight !== undefined && (!Number.isInteger(weight) || weight === 0 || Math.abs(weight as number) > MAX_RULE_WEIGHT)) {
+    return badRequest(`weight must be a non-zero whole number between -${MAX_RULE_WEIGHT} and ${MAX_RULE_WEIGHT}`);
+  }
+  if (active !== undefined && typeof active !== 'boolean') return badRequest('active must be true or false');
+  if (weight === undefined && active === undefined) return badRequest('Nothing to update');
+
+  const { id } = await params;
+  const { data: updated, error } = await supabaseAdmin
+    .from('queue_priority_rules')
+    .update({ ...(weight !== undefined && { weight }), ...(active !== undefined && { active }) })
+    .eq('id', id)
+    .select('id');
+  if (error) {
+    console.error('Error updating priority rule:', error);
+    return NextResponse.json({ error: 'Failed to update priority rule' }, { status: 500 });
+  }
+  if (!updated?.length) return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+
+  return NextResponse.json({ ok: true });
+}
+
+export async function DELETE(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { admin, response } = await requireAdmin('manageQueueRules');
+  if (!admin) return response;
+
+  const { id } = await params;
+  const { error } = await supabaseAdmin.from('queue_priority_rules').delete().eq('id', id);
+  if (error) {
+    console.error('Error deleting priority rule:', error);
+    return NextResponse.json({ error: 'Failed to delete priority rule' }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { MAX_RULE_WEIGHT, isPriorityRuleKind, normalizeRuleValue } from '@/lib/queue-order';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+// Every priority rule, inactive ones included, for the rules page.
+export async function GET() {
+  const { admin, response } = await requireAdmin('manageQueueRules');
+  if (!admin) return response;
+
+  const { data, error } = await supabaseAdmin
+    .from('queue_priority_rules')
+    .select('id, kind, value, weight, active, created_at')
+    .order('created_at', { ascending: true });
+  if (error) {
+    console.error('Error loading priority rules:', error);
+    return NextResponse.json({ error: 'Failed to load priority rules' }, { status: 500 });
+  }
+
+  return NextResponse.json({ rules: data || [] });
+}
+
+// Adds a rule ({ kind, value, weight }) that applies to every moderator's queue.
+export async function POST(request: Request) {
+  const { admin, response } = await requireAdmin('manageQueueRules');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { kind, weight } = body;
+  if (!isPriorityRuleKind(kind)) return badRequest('Unknown rule kind');
+  const value = normalizeRuleValue(kind, body.value);
+  if (value === undefined) return badRequest(kind === 'country' ? 'value must be a two-letter country code' : 'value must be a whole number');
+  if (!Number.isInteger(weight) || weight === 0 || Math.abs(weight as number) > MAX_RULE_WEIGHT) {
+    return badRequest(`weight must be a non-zero whole number between -${MAX_RULE_WEIGHT} and ${MAX_RULE_WEIGHT}`);
+  }
+
+  const { error } = await supabaseAdmin.from('queue_priority_rules').insert({ kind, value, weight, created_by: admin.id });
+  if (error) {
+    console.error('Error adding priority rule:', error);
+    return NextResponse.json({ error: 'Failed to add priority rule' }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,170 @@
+import { NextResponse } from 'next/server';
+import type { PostgrestError } from '@supabase/supabase-js';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit-log';
+import { Rejection, isCompleteRejection } from '@/lib/rejection-reasons';
+import { REPORT_RESOLUTIONS, reportResolutionAction } from '@/lib/report-categories';
+import { can } from '@/lib/roles';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { parseSuspensionWindow } from '@/lib/suspensions';
+import type { ReportReview, User, UserReport } from '@/lib/types';
+import { signVerificationPhotos } from '@/lib/verification-photos';
+
+type RouteContext = { params: Promise<{ userId: string }> };
+
+const REPORT_HISTORY_LIMIT = 100;
+
+// The reported user with their verification photos, reports (open and resolved, newest first) and suspension history.
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { admin, response } = await requireAdmin('handleReports');
+  if (!admin) return response;
+
+  const { userId } = await params;
+  const { data: user } = await supabaseAdmin.from('users').select('*').eq('id', userId).maybeSingle();
+  if (!user) return NextResponse.json({ error: 'User not found' }, { status: 404 });
+
+  const [verificationPhotos, { data: reports, error }, { data: suspensions }] = await Promise.all([
+    signVerificationPhotos(userId),
+    supabaseAdmin
+      .from('user_reports')
+      .select('id, category, message, created_at, resolution, resolution_note, resolved_at, reporter:users!user_reports_reporter_id_fkey (id, name)')
+      .eq('reported_user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(REPORT_HISTORY_LIMIT),
+    supabaseAdmin.from('user_suspensions').select('*').eq('user_id', userId).order('starts_at', { ascending: false }),
+  ]);
+  if (error) {
+    console.error('Error loading reports:', error);
+    return NextResponse.json({ error: 'Failed to load reports' }, { status: 500 });
+  }
+
+  const review: ReportReview = {
+    user: user as User,
+    verificationPhotos,
+    reports: (reports || []) as unknown as UserReport[],
+    suspensions: suspensions || [],
+  };
+  return NextResponse.json(review);
+}
+
+// Resolves the listed open reports against this user ({ reportIds, resolution, note }) and carries out the resolution:
+// 'dismissed' only closes the reports, 'warned' gives the user a warning with the note as its message (shown in the
+// app), 'verification_revoked' rejects a verified user with { rejectionReason } and the note, and 'suspended'
+// suspends the account until endsAt (null for a permanent ban), with the note as the reason. Every resolution except
+// a dismissal needs a note. Reports that arrived after the moderator opened the review stay open; if all listed ones
+// were already resolved by someone else, the answer is a 409.
+export async function POST(request: Request, { params }: RouteContext) {
+  const { admin, response } = await requireAdmin('handleReports');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { reportIds } = body;
+  const resolution = REPORT_RESOLUTIONS.find(r => r.resolution === body.resolution)?.resolution;
+  const note = typeof body.note === 'string' ? body.note.trim() || null : null;
+  if (!Array.isArray(reportIds) || reportIds.length === 0 || !reportIds.every(id => typeof id === 'string' && id)) {
+    return badRequest('reportIds must be a non-empty array of ids');
+  }
+  if (!resolution) {
+    return badRequest(`resolution must be one of ${REPORT_RESOLUTIONS.map(r => r.resolution).join(', ')}`);
+  }
+  if (resolution !== 'dismissed' && !note) return badRequest('Explain the decision in a note');
+  if (resolution === 'suspended' && !can(admin, 'suspendUsers')) {
+    return NextResponse.json({ error: 'Your role does not allow suspending users' }, { status: 403 });
+  }
+  const period = resolution === 'suspended' ? parseSuspensionWindow(undefined, body.endsAt) : null;
+  if (period && 'error' in period) return badRequest(period.error);
+  // A revoked user is rejected like any other, so they are told why and can resubmit
+  const rejection: Partial<Rejection> = { reason: body.rejectionReason as Rejection['reason'], note };
+  if (resolution === 'verification_revoked' && !isCompleteRejection(rejection)) {
+    return badRequest('A rejection reason is required to revoke verification');
+  }
+
+  const { userId } = await params;
+  const [{ data: user }, { data: currentSuspensions }] = await Promise.all([
+    supabaseAdmin.from('users').select('is_verified').eq('id', userId).maybeSingle(),
+    supabaseAdmin
+      .from('user_suspensions')
+      .select('id')
+      .eq('user_id', userId)
+      .is('lifted_at', null)
+      .or(`ends_at.is.null,ends_at.gt.${new Date().toISOString()}`)
+      .limit(1),
+  ]);
+  if (!user) return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  if (resolution === 'verification_revoked' && user.is_verified !== 'verified') {
+    return badRequest('Only a verified user can have their verification revoked');
+  }
+  if (resolution === 'suspended' && currentSuspensions?.length) {
+    return badRequest('User already has a running or scheduled suspension');
+  }
+
+  // Closing the reports first means two moderators can't both act on them
+  const { data: resolved, error: resolveError } = await supabaseAdmin
+    .from('user_reports')
+    .update({ resolution, resolution_note: note, resolved_by: admin.id, resolved_at: new Date().toISOString() })
+    .in('id', reportIds)
+    .eq('reported_user_id', userId)
+    .is('resolved_at', null)
+    .select('id');
+  if (resolveError) {
+    console.error('Error resolving reports:', resolveError);
+    return NextResponse.json({ error: 'Failed to resolve reports' }, { status: 500 });
+  }
+  if (!resolved?.length) {
+    return NextResponse.json({ error: 'These reports were already resolved by another moderator' }, { status: 409 });
+  }
+
+  let error: PostgrestError | null = null;
+  if (resolution === 'verification_revoked') {
+    ({ error } = await supabaseAdmin
+      .from('users')
+      .update({ is_verified: 'unverified', rejection_reason: rejection.reason, rejection_note: note, rejected_at: new Date().toISOString() })
+      .eq('id', userId));
+  } else if (resolution === 'warned') {
+    ({ error } = await supabaseAdmin.from('user_warnings').insert({ user_id: userId, message: note, created_by: admin.id }));
+  } else if (period) {
+    ({ error } = await supabaseAdmin
+      .from('user_suspensions')
+      .insert({ user_id: userId, reason: note, starts_at: period.startsAt, ends_at: period.endsAt, created_by: admin.id }));
+  }
+  if (error) {
+    console.error('Error applying report resolution:', error);
+    await supabaseAdmin
+      .from('user_reports')
+      .update({ resolution: null, resolution_note: null, resolved_by: null, resolved_at: null })
+      .in('id', resolved.map(r => r.id));
+    return NextResponse.json({ error: 'Failed to apply resolution' }, { status: 500 });
+  }
+
+  if (resolution === 'verification_revoked') {
+    const { error: historyError } = await supabaseAdmin.from('verification_rejections').insert({
+      user_id: userId,
+      reason: rejection.reason,
+      note,
+      rejected_by: admin.id,
+    });
+    if (historyError) console.error('Error recording rejection:', historyError);
+  }
+
+  await recordAudit({
+    admin,
+    targetUserId: userId,
+    action: reportResolutionAction(resolution),
+    oldValue: resolution === 'verification_revoked' ? user.is_verified : null,
+    newValue:
+      resolution === 'verification_revoked'
+        ? 'unverified'
+        : period
+          ? `${period.startsAt} – ${period.endsAt ?? 'permanent'}`
+          : null,
+    reason: [
+      `${resolved.length} report${resolved.length === 1 ? '' : 's'}`,
+      resolution === 'verification_revoked' ? rejection.reason : null,
+      note,
+    ].filter(Boolean).join(': '),
+  });
+
+  return NextResponse.json({ ok: true, resolved: resolved.length });
+}
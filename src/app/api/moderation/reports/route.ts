@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { badRequest, requireAdmin } from '@/lib/admin-auth';
+import type { ReportCategory } from '@/lib/report-categories';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import type { ReportGroup, VerificationStatus } from '@/lib/types';
+
+const MAX_PAGE_SIZE = 100;
+
+type ReportGroupRow = {
+  user_id: string;
+  name: string | null;
+  age: number | null;
+  country: string | null;
+  is_verified: VerificationStatus | null;
+  report_count: number;
+  categories: ReportCategory[];
+  first_reported_at: string;
+  last_reported_at: string;
+  total: number;
+};
+
+// Users with open reports, most reported first (?limit=, default 30), and how many reported users there are in total.
+export async function GET(request: Request) {
+  const { admin, response } = await requireAdmin('handleReports');
+  if (!admin) return response;
+
+  const limit = Number(new URL(request.url).searchParams.get('limit') ?? 30);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return badRequest(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('open_report_groups', { p_limit: limit });
+  if (error) {
+    console.error('Error loading reports:', error);
+    return NextResponse.json({ error: 'Failed to load reports' }, { status: 500 });
+  }
+
+  const rows = (data || []) as ReportGroupRow[];
+  const groups: ReportGroup[] = rows.map(row => ({
+    user: { id: row.user_id, name: row.name, age: row.age, country: row.country, is_verified: row.is_verified },
+    reportCount: Number(row.report_count),
+    categories: row.categories,
+    firstReportedAt: row.first_reported_at,
+    lastReportedAt: row.last_reported_at,
+  }));
+  return NextResponse.json({ groups, total: Number(rows[0]?.total ?? 0) });
+}
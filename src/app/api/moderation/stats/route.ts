@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { badRequest, requireAdmin } from '@/lib/admin-auth';
+import { isStatsBucket } from '@/lib/stats';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+const MAX_RANGE_DAYS = 366;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Statistics for ?from=yyyy-mm-dd&to=yyyy-mm-dd (both inclusive, UTC) grouped by ?bucket=day|week.
+export async function GET(request: Request) {
+  const { admin, response } = await requireAdmin();
+  if (!admin) return response;
+
+  const params = new URL(request.url).searchParams;
+  const from = params.get('from') ?? '';
+  const to = params.get('to') ?? '';
+  const bucket = params.get('bucket') ?? 'day';
+
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) return badRequest('from and to must be yyyy-mm-dd dates');
+  if (!isStatsBucket(bucket)) return badRequest('bucket must be day or week');
+
+  const start = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  end.setUTCDate(end.getUTCDate() + 1);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end <= start) {
+    return badRequest('from must be on or before to');
+  }
+  if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * 86_400_000) {
+    return badRequest(`The range can span at most ${MAX_RANGE_DAYS} days`);
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('moderation_stats', {
+    p_from: start.toISOString(),
+    p_to: end.toISOString(),
+    p_bucket: bucket,
+  });
+  if (error) {
+    console.error('Error loading moderation stats:', error);
+    return NextResponse.json({ error: 'Failed to load statistics' }, { status: 500 });
+  }
+
+  return NextResponse.json(data);
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit-log';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { isCurrentSuspension } from '@/lib/suspensions';
+
+// Lifts a running or scheduled suspension early ({ reason? }). Ended and already lifted ones get a 409.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { admin, response } = await requireAdmin('suspendUsers');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { reason } = body;
+  if (reason !== undefined && typeof reason !== 'string') return badRequest('reason must be text');
+
+  const { id } = await params;
+  const { data: suspension } = await supabaseAdmin
+    .from('user_suspensions')
+    .select('user_id, starts_at, ends_at, lifted_at')
+    .eq('id', id)
+    .maybeSingle();
+  if (!suspension) return NextResponse.json({ error: 'Suspension not found' }, { status: 404 });
+  if (!isCurrentSuspension(suspension)) {
+    return NextResponse.json({ error: suspension.lifted_at ? 'Already lifted' : 'This suspension has already ended' }, { status: 409 });
+  }
+
+  const { data: lifted, error } = await supabaseAdmin
+    .from('user_suspensions')
+    .update({ lifted_at: new Date().toISOString(), lifted_by: admin.id, lift_reason: reason?.trim() || null })
+    .eq('id', id)
+    .is('lifted_at', null)
+    .select('id');
+  if (error) {
+    console.error('Error lifting suspension:', error);
+    return NextResponse.json({ error: 'Failed to lift suspension' }, { status: 500 });
+  }
+  if (!lifted?.length) return NextResponse.json({ error: 'Already lifted' }, { status: 409 });
+
+  await recordAudit({
+    admin,
+    targetUserId: suspension.user_id,
+    action: 'suspension_lift',
+    oldValue: `${suspension.starts_at} – ${suspension.ends_at ?? 'permanent'}`,
+    newValue: null,
+    reason: reason?.trim() || null,
+  });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit-log';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { parseSuspensionWindow } from '@/lib/suspensions';
+import type { SuspendedUser } from '@/lib/types';
+
+const MAX_PAGE_SIZE = 200;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Suspensions that are running or scheduled, ending soonest first with bans last.
+// ?search= matches a name fragment or an exact user id; ?limit= defaults to 50.
+export async function GET(request: Request) {
+  const { admin, response } = await requireAdmin();
+  if (!admin) return response;
+
+  const params = new URL(request.url).searchParams;
+  const search = params.get('search')?.trim() ?? '';
+  const limit = Number(params.get('limit') ?? 50);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return badRequest(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  let query = supabaseAdmin
+    .from('user_suspensions')
+    .select('*, user:users!inner (id, name, age, country)')
+    .is('lifted_at', null)
+    .or(`ends_at.is.null,ends_at.gt.${new Date().toISOString()}`);
+  if (UUID_PATTERN.test(search)) query = query.eq('user_id', search);
+  else if (search) query = query.ilike('user.name', `%${search}%`);
+
+  const { data, error } = await query.order('ends_at', { ascending: true, nullsFirst: false }).limit(limit);
+  if (error) {
+    console.error('Error loading suspensions:', error);
+    return NextResponse.json({ error: 'Failed to load suspensions' }, { status: 500 });
+  }
+  return NextResponse.json({ suspensions: (data || []) as SuspendedUser[] });
+}
+
+// Suspends a user ({ userId, reason, startsAt?, endsAt }); endsAt null is a permanent ban.
+// A user has at most one running or scheduled suspension: lift it before setting a different one.
+export async function POST(request: Request) {
+  const { admin, response } = await requireAdmin('suspendUsers');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { userId } = body;
+  const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+  if (typeof userId !== 'string' || !userId) return badRequest('userId is required');
+  if (!reason) return badRequest('A reason is required');
+  const period = parseSuspensionWindow(body.startsAt, body.endsAt);
+  if ('error' in period) return badRequest(period.error);
+
+  const { data: user } = await supabaseAdmin.from('users').select('id').eq('id', userId).maybeSingle();
+  if (!user) return NextResponse.json({ error: 'User not found' }, { status: 404 });
+
+  const { data: current } = await supabaseAdmin
+    .from('user_suspensions')
+    .select('id')
+    .eq('user_id', userId)
+    .is('lifted_at', null)
+    .or(`ends_at.is.null,ends_at.gt.${new Date().toISOString()}`)
+    .limit(1);
+  if (current?.length) {
+    return NextResponse.json({ error: 'User already has a running or scheduled suspension' }, { status: 409 });
+  }
+
+  const { data: suspension, error } = await supabaseAdmin
+    .from('user_suspensions')
+    .insert({ user_id: userId, reason, starts_at: period.startsAt, ends_at: period.endsAt, created_by: admin.id })
+    .select('*')
+    .single();
+  if (error) {
+    console.error('Error suspending user:', error);
+    return NextResponse.json({ error: 'Failed to suspend user' }, { status: 500 });
+  }
+
+  await recordAudit({
+    admin,
+    targetUserId: userId,
+    action: 'user_suspend',
+    oldValue: null,
+    newValue: `${period.startsAt} – ${period.endsAt ?? 'permanent'}`,
+    reason,
+  });
+
+  return NextResponse.json({ suspension });
+}
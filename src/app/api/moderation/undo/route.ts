@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit-log';
+import { claimUser } from '@/lib/claims';
+import { can } from '@/lib/roles';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+// Reverts a verification decision so the user goes back into the pending queue. Only a decided (verified or
+// unverified) user can be put back; anything else, including a change by someone else meanwhile, is a 409.
+// Moderators may only undo their own decisions; reversing someone else's needs reverseDecisions.
+export async function POST(request: Request) {
+  const { admin, response } = await requireAdmin('verify');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { userId } = body;
+  if (typeof userId !== 'string' || !userId) return badRequest('userId is required');
+
+  const { data: previous } = await supabaseAdmin
+    .from('users')
+    .select('is_verified')
+    .eq('id', userId)
+    .maybeSingle();
+  if (!previous) return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  if (previous.is_verified !== 'verified' && previous.is_verified !== 'unverified') {
+    return undoConflict(previous.is_verified);
+  }
+
+  if (!can(admin, 'reverseDecisions')) {
+    const { data: lastDecision } = await supabaseAdmin
+      .from('moderation_audit_log')
+      .select('admin_id')
+      .eq('target_user_id', userId)
+      .in('action', ['approve', 'reject'])
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (lastDecision?.admin_id !== admin.id) {
+      return NextResponse.json({ error: 'You can only undo your own decisions' }, { status: 403 });
+    }
+  }
+
+  // Conditional on the decision just read, so a re-decision or revocation landing in between isn't overwritten
+  const { data: updated, error } = await supabaseAdmin
+    .from('users')
+    .update({ is_verified: 'pending', rejection_reason: null, rejection_note: null, rejected_at: null })
+    .eq('id', userId)
+    .eq('is_verified', previous.is_verified)
+    .select('is_verified');
+  if (error) {
+    console.error('Error undoing decision:', error);
+    return NextResponse.json({ error: 'Failed to undo decision' }, { status: 500 });
+  }
+  if (!updated?.length) {
+    const { data: current } = await supabaseAdmin.from('users').select('is_verified').eq('id', userId).maybeSingle();
+    return undoConflict(current?.is_verified ?? null);
+  }
+
+  // Back in the pending pool, but held for the moderator who is about to re-decide
+  await claimUser(userId, admin.id);
+  await recordAudit({
+    admin,
+    targetUserId: userId,
+    action: 'undo',
+    oldValue: previous.is_verified,
+    newValue: 'pending',
+  });
+
+  return NextResponse.json({ ok: true });
+}
+
+function undoConflict(current: string | null) {
+  return NextResponse.json(
+    { error: `Nothing to undo: the user is now ${current ?? 'without a status'}`, current },
+    { status: 409 }
+  );
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { ensurePhotoHashes, findPhotoMatches } from '@/lib/photo-hashes';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import type { DuplicateReport } from '@/lib/types';
+
+const PROFILE_MATCH_LIMIT = 20;
+
+// Accounts that may belong to the same person: shared or near-identical photos, or the same name, age and country.
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { admin, response } = await requireAdmin();
+  if (!admin) return response;
+
+  const { id } = await params;
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('id, name, age, country, image_urls')
+    .eq('id', id)
+    .maybeSingle();
+  if (!user) return NextResponse.json({ error: 'User not found' }, { status: 404 });
+
+  // Usually already done when the user was claimed; only new photos are hashed here.
+  await ensurePhotoHashes([user]);
+
+  let profileMatches: DuplicateReport['profileMatches'] = [];
+  if (user.name?.trim() && user.age !== null && user.country) {
+    const { data, error } = await supabaseAdmin
+      .from('users')
+      .select('id, name, age, country, is_verified')
+      .ilike('name', user.name.trim().replace(/[\\%_]/g, '\\$&'))
+      .eq('age', user.age)
+      .eq('country', user.country)
+      .neq('id', id)
+      .limit(PROFILE_MATCH_LIMIT);
+    if (error) console.error('Error finding profile matches:', error);
+    profileMatches = data || [];
+  }
+
+  const report: DuplicateReport = { photoMatches: await findPhotoMatches(id), profileMatches };
+  return NextResponse.json(report);
+}
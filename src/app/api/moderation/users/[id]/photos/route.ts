@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit-log';
+import { isPhotoRemovalReason, photoRemovalReasonLabel } from '@/lib/photo-reasons';
+import { removeProfilePhoto } from '@/lib/profile-photos';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+// Removes one profile photo ({ url, reason, note? }) and deletes its stored file, the same as a removal from the
+// photo queue. The photo's review row is marked removed so it never comes back to the queue.
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { admin, response } = await requireAdmin('editProfiles');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { url, reason } = body;
+  const note = typeof body.note === 'string' ? body.note.trim() || null : null;
+  if (typeof url !== 'string' || !url) return badRequest('url is required');
+  if (!isPhotoRemovalReason(reason)) return badRequest('A removal reason is required');
+  if (reason === 'other' && !note) return badRequest('Describe the problem in a note');
+
+  const { id } = await params;
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('image_urls')
+    .eq('id', id)
+    .maybeSingle();
+  if (!user) return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  if (!(user.image_urls || []).includes(url)) {
+    return NextResponse.json({ error: 'Photo not found on this profile' }, { status: 404 });
+  }
+
+  if (!(await removeProfilePhoto(id, url))) {
+    return NextResponse.json({ error: 'Failed to remove photo' }, { status: 500 });
+  }
+
+  // The photo is already gone at this point, so a failure here is only logged
+  const { error } = await supabaseAdmin.from('profile_photos').upsert({
+    user_id: id,
+    url,
+    status: 'removed',
+    reason,
+    note,
+    reviewed_by: admin.id,
+    reviewed_at: new Date().toISOString(),
+  });
+  if (error) console.error('Error recording profile photo removal:', error);
+
+  await recordAudit({
+    admin,
+    targetUserId: id,
+    action: 'photo_remove',
+    oldValue: url,
+    newValue: null,
+    reason: [photoRemovalReasonLabel(reason), note].filter(Boolean).join(': '),
+  });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit-log';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+
+// Puts the user back to pending and asks them to submit new verification photos.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { admin, response } = await requireAdmin('reverseDecisions');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const { reason } = body;
+  if (reason !== undefined && typeof reason !== 'string') return badRequest('reason must be text');
+
+  const { id } = await params;
+  const { data: previous } = await supabaseAdmin
+    .from('users')
+    .select('is_verified')
+    .eq('id', id)
+    .maybeSingle();
+  if (!previous) return NextResponse.json({ error: 'User not found' }, { status: 404 });
+
+  const { error } = await supabaseAdmin
+    .from('users')
+    .update({
+      is_verified: 'pending',
+      rejection_reason: null,
+      rejection_note: null,
+      rejected_at: null,
+      resubmission_requested_at: new Date().toISOString(),
+    })
+    .eq('id', id);
+  if (error) {
+    console.error('Error resetting verification:', error);
+    return NextResponse.json({ error: 'Failed to reset verification' }, { status: 500 });
+  }
+
+  await recordAudit({
+    admin,
+    targetUserId: id,
+    action: 'verification_reset',
+    oldValue: previous.is_verified,
+    newValue: 'pending',
+    reason: reason?.trim() || null,
+  });
+
+  return NextResponse.json({ ok: true });
+}
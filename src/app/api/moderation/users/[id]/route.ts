@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import { badRequest, readJson, requireAdmin } from '@/lib/admin-auth';
+import { recordAudit } from '@/lib/audit-log';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import type { User, UserDetail } from '@/lib/types';
+import { signVerificationPhotos } from '@/lib/verification-photos';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const MAX_TEXT_LENGTH = 100;
+
+// The user record with all verification photos, moderation history and suspensions.
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { admin, response } = await requireAdmin();
+  if (!admin) return response;
+
+  const { id } = await params;
+  const { data: user } = await supabaseAdmin.from('users').select('*').eq('id', id).maybeSingle();
+  if (!user) return NextResponse.json({ error: 'User not found' }, { status: 404 });
+
+  const [verificationPhotos, { data: audit }, { data: rejections }, { data: escalations }, { data: suspensions }] = await Promise.all([
+    signVerificationPhotos(id),
+    supabaseAdmin.from('moderation_audit_log').select('*').eq('target_user_id', id).order('created_at', { ascending: false }),
+    supabaseAdmin.from('verification_rejections').select('*').eq('user_id', id).order('created_at', { ascending: false }),
+    supabaseAdmin.from('verification_escalations').select('*').eq('user_id', id).order('created_at', { ascending: false }),
+    supabaseAdmin.from('user_suspensions').select('*').eq('user_id', id).order('starts_at', { ascending: false }),
+  ]);
+
+  const detail: UserDetail = {
+    user: user as User,
+    verificationPhotos,
+    audit: audit || [],
+    rejections: rejections || [],
+    escalations: escalations || [],
+    suspensions: suspensions || [],
+  };
+  return NextResponse.json(detail);
+}
+
+function optionalText(value: unknown) {
+  if (value === null) return null;
+  if (typeof value !== 'string' || value.trim().length > MAX_TEXT_LENGTH) return undefined;
+  return value.trim() || null;
+}
+
+// Edits name, age and country. Gender goes through the gender route so it is audited as a gender change.
+export async function POST(request: Request, { params }: RouteContext) {
+  const { admin, response } = await requireAdmin('editProfiles');
+  if (!admin) return response;
+
+  const body = await readJson(request);
+  if (!body) return badRequest('Invalid JSON body');
+
+  const changes: Partial<Pick<User, 'name' | 'age' | 'country'>> = {};
+  if ('name' in body) {
+    const name = optionalText(body.name);
+    if (name === undefined) return badRequest(`name must be text of at most ${MAX_TEXT_LENGTH} characters`);
+    changes.name = name;
+  }
+  if ('country' in body) {
+    const country = optionalText(body.country);
+    if (country === undefined) return badRequest(`country must be text of at most ${MAX_TEXT_LENGTH} characters`);
+    changes.country = country;
+  }
+  if ('age' in body) {
+    const { age } = body;
+    if (age !== null && (typeof age !== 'number' || !Number.isInteger(age) || age < 0 || age > 150)) {
+      return badRequest('age must be a whole number between 0 and 150');
+    }
+    changes.age = age;
+  }
+  if (Object.keys(changes).length === 0) return badRequest('Nothing to update');
+
+  const { id } = await params;
+  const { data: previous } = await supabaseAdmin
+    .from('users')
+    .select('name, age, country')
+    .eq('id', id)
+    .maybeSingle();
+  if (!previous) return NextResponse.json({ error: 'User not found' }, { status: 404 });
+
+  const changed = (Object.keys(changes) as (keyof typeof changes)[]).filter(key => changes[key] !== previous[key]);
+  if (changed.length === 0) return NextResponse.json({ ok: true });
+
+  const { error } = await supabaseAdmin.from('users').update(changes).eq('id', id);
+  if (error) {
+    console.error('Error updating profile:', error);
+    return NextResponse.json({ error: 'Failed to update profile' }, { status: 500 });
+  }
+
+  await recordAudit({
+    admin,
+    targetUserId: id,
+    action: 'profile_edit',
+    oldValue: JSON.stringify(Object.fromEntries(changed.map(key => [key, previous[key]]))),
+    newValue: JSON.stringify(Object.fromEntries(changed.map(key => [key, changes[key]]))),
+  });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,65 @@
+'use client';
+import Link from 'next/link';
+import type { QueuedAction } from '@/lib/action-queue';
+import { useI18n } from '@/lib/use-i18n';
+
+type ActionQueuePanelProps = {
+  pendingCount: number;
+  problems: QueuedAction[]; // Failed or conflicting actions, waiting for the moderator
+  onRetry: (id: string) => void;
+  onDismiss: (id: string) => void;
+};
+
+// Writes still being saved, and the ones that didn't make it, with what went wrong
+export default function ActionQueuePanel({ pendingCount, problems, onRetry, onDismiss }: ActionQueuePanelProps) {
+  const { t } = useI18n();
+  if (pendingCount === 0 && problems.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-6 left-6 z-40 w-96 max-h-[50vh] overflow-y-auto space-y-2">
+      {problems.map(action => (
+        <div
+          key={action.id}
+          className={`p-4 rounded-xl backdrop-blur-sm border text-sm ${
+            action.state === 'conflict' ? 'bg-amber-900/80 border-amber-500/50' : 'bg-red-900/80 border-red-500/50'
+          }`}
+        >
+          <p className="font-bold">
+            {t(action.state === 'conflict' ? 'queue.conflict' : 'queue.failed', {
+              action: t(`queueAction.${action.kind}`),
+              name: action.userName || t('common.anonymous'),
+            })}
+          </p>
+          <p className="text-gray-300 mt-1">{action.error}</p>
+          <div className="flex gap-2 mt-3">
+            {action.state === 'failed' && (
+              <button
+                onClick={() => onRetry(action.id)}
+                className="px-3 py-1 bg-gray-700 rounded-lg font-bold hover:bg-gray-600 transition-all duration-300"
+              >
+                {t('queue.retry')}
+              </button>
+            )}
+            <Link
+              href={`/dashboard/users/${action.userId}`}
+              className="px-3 py-1 bg-gray-700 rounded-lg font-bold hover:bg-gray-600 transition-all duration-300"
+            >
+              {t('queue.openUser')}
+            </Link>
+            <button
+              onClick={() => onDismiss(action.id)}
+              className="px-3 py-1 text-gray-400 hover:text-white transition-all duration-300"
+            >
+              {t('queue.dismiss')}
+            </button>
+          </div>
+        </div>
+      ))}
+      {pendingCount > 0 && (
+        <p className="px-4 py-2 bg-gray-800/80 backdrop-blur-sm rounded-xl border border-gray-600 text-sm text-amber-400 animate-pulse">
+          {t('queue.saving', { count: pendingCount })}
+        </p>
+      )}
+    </div>
+  );
+}
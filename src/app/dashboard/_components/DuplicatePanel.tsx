@@ -0,0 +1,80 @@
+'use client';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { moderationRequest } from '@/lib/moderation-api';
+import type { DuplicateReport, User } from '@/lib/types';
+import { useI18n } from '@/lib/use-i18n';
+
+type DuplicatePanelProps = {
+  userId: string;
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  verified: 'text-green-400',
+  unverified: 'text-red-400',
+  pending: 'text-amber-400',
+};
+
+// Possible duplicate accounts for the user under review. Remount with a key to load a different user.
+export default function DuplicatePanel({ userId }: DuplicatePanelProps) {
+  const [report, setReport] = useState<DuplicateReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { t, country } = useI18n();
+
+  useEffect(() => {
+    let cancelled = false;
+    moderationRequest<DuplicateReport>(`users/${userId}/duplicates`, undefined, 'GET').then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) setError(error);
+      setReport(data);
+    });
+    return () => { cancelled = true; };
+  }, [userId]);
+
+  if (error) return <p className="text-center text-red-400">{t('duplicates.failed', { error })}</p>;
+  if (!report) return <p className="text-center text-gray-500 animate-pulse">{t('duplicates.checking')}</p>;
+
+  const total = report.photoMatches.length + report.profileMatches.length;
+  if (total === 0) return <p className="text-center text-gray-500">{t('duplicates.none')}</p>;
+
+  function describeUser(user: Pick<User, 'name' | 'age' | 'country'>) {
+    return `${user.name || t('common.anonymous')}, ${user.age ?? '?'}, ${user.country ? country(user.country) : '?'}`;
+  }
+
+  function statusLabel(status: User['is_verified']) {
+    return status ? t(`status.${status}`) : t('common.unknown');
+  }
+
+  return (
+    <div className="p-4 rounded-xl bg-red-900/30 border border-red-500/50 space-y-3">
+      <p className="text-red-300 font-bold text-center">
+        {t('duplicates.count', { count: total })}
+      </p>
+      <ul className="space-y-2 text-sm">
+        {report.photoMatches.map(match => (
+          <li key={`photo-${match.user.id}`} className="flex flex-wrap justify-between gap-2">
+            <Link href={`/dashboard/users/${match.user.id}`} target="_blank" className="text-amber-300 hover:underline">
+              {describeUser(match.user)}
+            </Link>
+            <span className={match.kind === 'identical' ? 'text-red-400' : 'text-orange-300'}>
+              {t(match.kind === 'identical' ? 'duplicates.identical' : 'duplicates.similar', {
+                distance: match.distance,
+                sources: [...new Set(match.sources.map(s => `${t(`duplicates.${s.ours}`)} ↔ ${t(`duplicates.${s.theirs}`)}`))].join(', '),
+              })}
+            </span>
+            <span className={STATUS_COLORS[match.user.is_verified ?? ''] ?? 'text-gray-500'}>{statusLabel(match.user.is_verified)}</span>
+          </li>
+        ))}
+        {report.profileMatches.map(user => (
+          <li key={`profile-${user.id}`} className="flex flex-wrap justify-between gap-2">
+            <Link href={`/dashboard/users/${user.id}`} target="_blank" className="text-amber-300 hover:underline">
+              {describeUser(user)}
+            </Link>
+            <span className="text-gray-300">{t('duplicates.sameProfile')}</span>
+            <span className={STATUS_COLORS[user.is_verified ?? ''] ?? 'text-gray-500'}>{statusLabel(user.is_verified)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
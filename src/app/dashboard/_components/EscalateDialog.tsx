@@ -0,0 +1,79 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useI18n } from '@/lib/use-i18n';
+
+type EscalateDialogProps = {
+  userName: string;
+  onConfirm: (note: string) => Promise<string | null>; // Resolves to the error when escalating failed
+  onCancel: () => void;
+};
+
+export default function EscalateDialog({ userName, onConfirm, onCancel }: EscalateDialogProps) {
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { t } = useI18n();
+
+  // On failure the dialog stays open with the note, so the moderator sees why and can retry
+  async function confirm(trimmedNote: string) {
+    setIsSaving(true);
+    setError(null);
+    setError(await onConfirm(trimmedNote));
+    setIsSaving(false);
+  }
+
+  // Ctrl+Enter submits from the note, Escape cancels
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') onCancel();
+      if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && note.trim() && !isSaving) confirm(note.trim());
+    }
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-8"
+      onClick={onCancel}
+    >
+      <motion.div
+        initial={{ scale: 0.95 }}
+        animate={{ scale: 1 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-xl bg-gray-900 border border-gray-600 rounded-2xl p-8 space-y-6"
+      >
+        <h3 className="text-3xl font-bold text-purple-400 text-center">{t('escalate.title', { name: userName })}</h3>
+        <p className="text-gray-400 text-center">{t('escalate.hint')}</p>
+        <textarea
+          autoFocus
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder={t('escalate.placeholder')}
+          rows={4}
+          className="w-full px-4 py-3 bg-gray-800 border border-gray-600 rounded-xl text-white focus:outline-none focus:border-amber-500"
+        />
+        {error && <p className="text-red-400 text-center">{t('escalate.failed', { error })}</p>}
+        <div className="flex justify-end gap-4">
+          <button
+            onClick={onCancel}
+            className="px-6 py-3 bg-gray-800/50 rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => confirm(note.trim())}
+            disabled={!note.trim() || isSaving}
+            className="px-6 py-3 bg-gradient-to-r from-purple-600 to-purple-700 rounded-xl font-bold text-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('escalate.confirm')}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { EXPORT_FORMATS, ExportFormat, USER_EXPORT_COLUMNS, UserExportColumn } from '@/lib/export';
+import { useI18n } from '@/lib/use-i18n';
+
+type ExportDialogProps = {
+  filterParams: URLSearchParams; // The grid's current filters
+  total: number;
+  onClose: () => void;
+};
+
+export default function ExportDialog({ filterParams, total, onClose }: ExportDialogProps) {
+  const [columns, setColumns] = useState<UserExportColumn[]>(USER_EXPORT_COLUMNS.map(c => c.column));
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const { t } = useI18n();
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') onClose();
+    }
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  function toggleColumn(column: UserExportColumn) {
+    setColumns(prev => (prev.includes(column) ? prev.filter(c => c !== column) : [...prev, column]));
+  }
+
+  const params = new URLSearchParams(filterParams);
+  params.delete('view');
+  params.delete('page');
+  params.set('format', format);
+  params.set('columns', USER_EXPORT_COLUMNS.map(c => c.column).filter(c => columns.includes(c)).join(','));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-8"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95 }}
+        animate={{ scale: 1 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-xl bg-gray-900 border border-gray-600 rounded-2xl p-8 space-y-6"
+      >
+        <h3 className="text-3xl font-bold text-amber-400 text-center">{t('export.title', { count: total })}</h3>
+        <p className="text-gray-400 text-center">{t('export.hint')}</p>
+        <div className="grid grid-cols-2 gap-3">
+          {USER_EXPORT_COLUMNS.map(c => (
+            <label key={c.column} className="flex items-center gap-2 text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={columns.includes(c.column)}
+                onChange={() => toggleColumn(c.column)}
+                className="w-4 h-4 accent-amber-500"
+              />
+              {t(`exportColumn.${c.column}`)}
+            </label>
+          ))}
+        </div>
+        <div className="flex justify-center gap-6">
+          {EXPORT_FORMATS.map(f => (
+            <label key={f} className="flex items-center gap-2 text-gray-300 font-bold cursor-pointer">
+              <input type="radio" checked={format === f} onChange={() => setFormat(f)} className="accent-amber-500" />
+              {f.toUpperCase()}
+            </label>
+          ))}
+        </div>
+        <div className="flex justify-end gap-4">
+          <button
+            onClick={onClose}
+            className="px-6 py-3 bg-gray-800/50 rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600"
+          >
+            {t('common.cancel')}
+          </button>
+          <a
+            href={columns.length > 0 ? `/api/moderation/export/users?${params}` : undefined}
+            download
+            onClick={() => columns.length > 0 && onClose()}
+            aria-disabled={columns.length === 0}
+            className={`px-6 py-3 bg-gradient-to-r from-amber-500 to-orange-600 rounded-xl font-bold text-lg transition-all duration-300 ${
+              columns.length === 0 ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+          >
+            {t('export.download')}
+          </a>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+import { useState } from 'react';
+import { useI18n } from '@/lib/use-i18n';
+
+type ImageLoaderProps = {
+  src: string;
+  alt: string;
+  className: string;
+};
+
+export default function ImageWithLoader({ src, alt, className }: ImageLoaderProps) {
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasError, setHasError] = useState(false);
+  const { t } = useI18n();
+
+  return (
+    <div className={`relative ${className}`}>
+      {isLoading && !hasError && (
+        <div className="absolute inset-0 flex items-center justify-center bg-gray-800 rounded">
+          <div className="w-4 h-4 border-2 border-amber-400 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      )}
+      <img
+        src={src}
+        alt={alt}
+        className={`w-full h-full object-cover transition-transform ${hasError ? 'hidden' : ''}`}
+        onLoad={() => setIsLoading(false)}
+        onError={() => {
+          setIsLoading(false);
+          setHasError(true);
+        }}
+      />
+      {hasError && (
+        <div className="absolute inset-0 flex items-center justify-center bg-gray-800 text-gray-500 text-xs">
+          {t('common.failedToLoad')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+'use client';
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { isTypingTarget } from '@/lib/shortcuts';
+import { useI18n } from '@/lib/use-i18n';
+
+type View = { scale: number; x: number; y: number };
+type Adjustments = { rotation: number; brightness: number };
+type Side = 'verification' | 'profile';
+
+const DEFAULT_VIEW: View = { scale: 1, x: 0, y: 0 };
+const DEFAULT_ADJUSTMENTS: Adjustments = { rotation: 0, brightness: 1 };
+const MIN_SCALE = 1;
+const MAX_SCALE = 8;
+const ZOOM_STEP = 1.25;
+
+function zoomed(view: View, factor: number): View {
+  const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, view.scale * factor));
+  // Back at 1× there is nothing to pan, so recentre
+  return scale === MIN_SCALE ? DEFAULT_VIEW : { ...view, scale };
+}
+
+type PaneProps = {
+  title: string;
+  photos: string[];
+  selected: number;
+  onSelect: (index: number) => void;
+  view: View;
+  onViewChange: (update: (view: View) => View) => void;
+  adjustments: Adjustments;
+  onAdjust: (adjustments: Adjustments) => void;
+};
+
+function ComparePane({ title, photos, selected, onSelect, view, onViewChange, adjustments, onAdjust }: PaneProps) {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragging = useRef(false);
+  const { t } = useI18n();
+
+  // React registers wheel listeners as passive, so zooming needs a native listener to stop the page scrolling
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame) return;
+    function onWheel(e: WheelEvent) {
+      e.preventDefault();
+      onViewChange(view => zoomed(view, e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP));
+    }
+    frame.addEventListener('wheel', onWheel, { passive: false });
+    return () => frame.removeEventListener('wheel', onWheel);
+  }, [onViewChange]);
+
+  const url = photos[selected];
+
+  return (
+    <div className="flex flex-col min-h-0 min-w-0 gap-3">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-xl font-bold text-amber-300">
+          {title} {photos.length > 0 && <span className="text-gray-400 text-base">{selected + 1} / {photos.length}</span>}
+        </h3>
+        <div className="flex items-center gap-2 text-sm">
+          <button
+            onClick={() => onAdjust({ ...adjustments, rotation: adjustments.rotation - 90 })}
+            className="px-3 py-1 bg-gray-700 rounded-lg hover:bg-gray-600"
+            title={t('compare.rotateLeft')}
+          >
+            ⟲
+          </button>
+          <button
+            onClick={() => onAdjust({ ...adjustments, rotation: adjustments.rotation + 90 })}
+            className="px-3 py-1 bg-gray-700 rounded-lg hover:bg-gray-600"
+            title={t('compare.rotateRight')}
+          >
+            ⟳
+          </button>
+          <label className="flex items-center gap-2 text-gray-400" title={t('compare.brightness')}>
+            ☀
+            <input
+              type="range"
+              min={0.5}
+              max={2}
+              step={0.05}
+              value={adjustments.brightness}
+              onChange={(e) => onAdjust({ ...adjustments, brightness: Number(e.target.value) })}
+              className="w-24 accent-amber-500"
+            />
+          </label>
+        </div>
+      </div>
+
+      <div
+        ref={frameRef}
+        className="relative flex-1 min-h-0 overflow-hidden rounded-2xl bg-black border border-gray-700 cursor-grab active:cursor-grabbing touch-none"
+        onPointerDown={(e) => {
+          dragging.current = true;
+          e.currentTarget.setPointerCapture(e.pointerId);
+        }}
+        onPointerMove={(e) => {
+          if (!dragging.current || view.scale === MIN_SCALE) return;
+          const { movementX, movementY } = e;
+          onViewChange(v => ({ ...v, x: v.x + movementX, y: v.y + movementY }));
+        }}
+        onPointerUp={() => { dragging.current = false; }}
+        onDoubleClick={() => onViewChange(v => (v.scale > MIN_SCALE ? DEFAULT_VIEW : zoomed(v, ZOOM_STEP * ZOOM_STEP)))}
+      >
+        {url ? (
+          <img
+            src={url}
+            alt={`${title} ${selected + 1}`}
+            draggable={false}
+            className="absolute inset-0 w-full h-full object-contain select-none"
+            style={{
+              transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale}) rotate(${adjustments.rotation}deg)`,
+              filter: `brightness(${adjustments.brightness})`,
+            }}
+          />
+        ) : (
+          <p className="absolute inset-0 flex items-center justify-center text-gray-500">{t('compare.noPhotos')}</p>
+        )}
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {photos.map((photo, i) => (
+          <button
+            key={photo}
+            onClick={() => onSelect(i)}
+            className={`flex-none w-16 h-16 rounded-lg overflow-hidden border-2 ${i === selected ? 'border-amber-400' : 'border-gray-700 opacity-60 hover:opacity-100'}`}
+          >
+            <img src={photo} alt={t('compare.thumbnailAlt', { title, number: i + 1 })} className="w-full h-full object-cover" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+type PhotoCompareViewerProps = {
+  profilePhotos: string[];
+  verificationPhotos: string[];
+  initialProfile: number;
+  initialVerification: number;
+  onClose: () => void;
+};
+
+// Pins a verification photo next to any profile photo. Zoom and pan move both sides together unless unlinked.
+export default function PhotoCompareViewer({
+  profilePhotos,
+  verificationPhotos,
+  initialProfile,
+  initialVerification,
+  onClose,
+}: PhotoCompareViewerProps) {
+  const [selected, setSelected] = useState<Record<Side, number>>({
+    verification: initialVerification,
+    profile: initialProfile,
+  });
+  const [views, setViews] = useState<Record<Side, View>>({ verification: DEFAULT_VIEW, profile: DEFAULT_VIEW });
+  const [adjustments, setAdjustments] = useState<Record<Side, Adjustments>>({
+    verification: DEFAULT_ADJUSTMENTS,
+    profile: DEFAULT_ADJUSTMENTS,
+  });
+  const [linked, setLinked] = useState(true);
+  const { t } = useI18n();
+
+  function updateView(side: Side, update: (view: View) => View) {
+    setViews(prev => {
+      const next = update(prev[side]);
+      return linked ? { verification: next, profile: next } : { ...prev, [side]: next };
+    });
+  }
+
+  // Toolbar and keyboard zoom apply to both sides, linked or not
+  function zoomBoth(factor: number) {
+    setViews(prev => ({ verification: zoomed(prev.verification, factor), profile: zoomed(prev.profile, factor) }));
+  }
+
+  function select(side: Side, index: number) {
+    const count = side === 'profile' ? profilePhotos.length : verificationPhotos.length;
+    if (count === 0) return;
+    setSelected(prev => ({ ...prev, [side]: (index + count) % count }));
+    setAdjustments(prev => ({ ...prev, [side]: DEFAULT_ADJUSTMENTS }));
+  }
+
+  // ←/→ change the profile photo, ↑/↓ the verification photo, +/−/0 zoom, Escape closes
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (isTypingTarget(e.target)) return;
+      const actions: Record<string, () => void> = {
+        Escape: onClose,
+        ArrowLeft: () => select('profile', selected.profile - 1),
+        ArrowRight: () => select('profile', selected.profile + 1),
+        ArrowUp: () => select('verification', selected.verification - 1),
+        ArrowDown: () => select('verification', selected.verification + 1),
+        '+': () => zoomBoth(ZOOM_STEP),
+        '=': () => zoomBoth(ZOOM_STEP),
+        '-': () => zoomBoth(1 / ZOOM_STEP),
+        '0': () => setViews({ verification: DEFAULT_VIEW, profile: DEFAULT_VIEW }),
+      };
+      const action = actions[e.key];
+      if (!action) return;
+      e.preventDefault();
+      action();
+    }
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex flex-col bg-black/90 backdrop-blur-sm p-6 gap-4"
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => zoomBoth(1 / ZOOM_STEP)}
+            className="px-4 py-2 bg-gray-800 rounded-lg font-bold hover:bg-gray-700"
+          >
+            −
+          </button>
+          <span className="w-16 text-center text-gray-300">{Math.round(views.verification.scale * 100)}%</span>
+          <button
+            onClick={() => zoomBoth(ZOOM_STEP)}
+            className="px-4 py-2 bg-gray-800 rounded-lg font-bold hover:bg-gray-700"
+          >
+            +
+          </button>
+          <button
+            onClick={() => setViews({ verification: DEFAULT_VIEW, profile: DEFAULT_VIEW })}
+            className="px-4 py-2 bg-gray-800 rounded-lg font-bold hover:bg-gray-700"
+          >
+            {t('compare.reset')}
+          </button>
+          <label className="flex items-center gap-2 text-gray-300 font-bold cursor-pointer ml-4">
+            <input
+              type="checkbox"
+              checked={linked}
+              onChange={() => {
+                // Relinking lines the profile side up with the verification side
+                if (!linked) setViews(prev => ({ verification: prev.verification, profile: prev.verification }));
+                setLinked(!linked);
+              }}
+              className="w-4 h-4 accent-amber-500"
+            />
+            {t('compare.link')}
+          </label>
+        </div>
+        <p className="hidden lg:block text-sm text-gray-500">
+          {t('compare.help')}
+        </p>
+        <button
+          onClick={onClose}
+          className="px-6 py-2 bg-gray-800/50 rounded-xl font-bold hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
+        >
+          {t('common.close')}
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <ComparePane
+          title={t('compare.verification')}
+          photos={verificationPhotos}
+          selected={selected.verification}
+          onSelect={(i) => select('verification', i)}
+          view={views.verification}
+          onViewChange={(update) => updateView('verification', update)}
+          adjustments={adjustments.verification}
+          onAdjust={(a) => setAdjustments(prev => ({ ...prev, verification: a }))}
+        />
+        <ComparePane
+          title={t('compare.profile')}
+          photos={profilePhotos}
+          selected={selected.profile}
+          onSelect={(i) => select('profile', i)}
+          view={views.profile}
+          onViewChange={(update) => updateView('profile', update)}
+          adjustments={adjustments.profile}
+          onAdjust={(a) => setAdjustments(prev => ({ ...prev, profile: a }))}
+        />
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+import { useState } from 'react';
+import { moderationRequest } from '@/lib/moderation-api';
+import { useI18n } from '@/lib/use-i18n';
+
+type ActionStatus = { state: 'idle' | 'saving' | 'done' | 'error'; message: string };
+
+// Fingerprints the photos of users who were never claimed, so duplicate checks can match them too
+export default function PhotoHashBackfill() {
+  const [backfill, setBackfill] = useState<ActionStatus>({ state: 'idle', message: '' });
+  const { t } = useI18n();
+
+  // Hashes existing users' photos batch by batch until the route reports there is nothing left
+  async function backfillPhotoHashes() {
+    let after: string | undefined;
+    let processed = 0;
+    do {
+      setBackfill({ state: 'saving', message: t('photoHashes.progress', { count: processed }) });
+      const { data, error } = await moderationRequest<{ processed: number; next: string | null }>('photo-hashes', { after });
+      if (error || !data) {
+        setBackfill({ state: 'error', message: error ?? t('photoHashes.failed') });
+        return;
+      }
+      processed += data.processed;
+      after = data.next ?? undefined;
+    } while (after);
+    setBackfill({ state: 'done', message: t('photoHashes.done', { count: processed }) });
+  }
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl border border-gray-600/50 p-6 mt-8 space-y-3">
+      <h2 className="text-xl font-bold text-amber-300">{t('photoHashes.title')}</h2>
+      <p className="text-gray-400">
+        {t('photoHashes.hint')}
+      </p>
+      <button
+        onClick={backfillPhotoHashes}
+        disabled={backfill.state === 'saving'}
+        className="px-6 py-2 bg-gray-700 rounded-xl font-bold hover:bg-gray-600 transition-all duration-300 disabled:opacity-50"
+      >
+        {t('photoHashes.run')}
+      </button>
+      {backfill.state !== 'idle' && (
+        <p className={backfill.state === 'error' ? 'text-red-400' : backfill.state === 'saving' ? 'text-amber-400 animate-pulse' : 'text-green-400'}>
+          {backfill.message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { AnimatePresence } from 'framer-motion';
+import { moderationRequest } from '@/lib/moderation-api';
+import type { PhotoRemovalReason } from '@/lib/photo-reasons';
+import type { PendingProfilePhoto } from '@/lib/types';
+import { useI18n } from '@/lib/use-i18n';
+import PhotoRemovalDialog from './PhotoRemovalDialog';
+
+const PAGE_SIZE = 24;
+const REFILL_THRESHOLD = 8; // Fetch the next photos once this few are left on screen
+
+type PhotoQueueResponse = { photos: PendingProfilePhoto[]; total: number };
+
+type PhotoQueueViewProps = {
+  onBack: () => void;
+};
+
+function photoKey(photo: PendingProfilePhoto) {
+  return `${photo.user.id}:${photo.url}`;
+}
+
+// Newly added profile photos across all users, each approved or removed once
+export default function PhotoQueueView({ onBack }: PhotoQueueViewProps) {
+  const [photos, setPhotos] = useState<PendingProfilePhoto[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loaded, setLoaded] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [busy, setBusy] = useState<Set<string>>(new Set()); // Photos with a review on its way
+  const [removing, setRemoving] = useState<PendingProfilePhoto | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { t, formatRelative, formatDateTime, country } = useI18n();
+
+  useEffect(() => {
+    let cancelled = false;
+    moderationRequest<PhotoQueueResponse>(`profile-photos?limit=${PAGE_SIZE}`, undefined, 'GET').then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) setError(error);
+      setPhotos(data?.photos ?? []);
+      setTotal(data?.total ?? 0);
+      setLoaded(true);
+    });
+    return () => { cancelled = true; };
+  }, [reloadKey]);
+
+  async function review(photo: PendingProfilePhoto, decision: 'approve' | 'remove', reason?: PhotoRemovalReason, note?: string) {
+    const key = photoKey(photo);
+    setRemoving(null);
+    setBusy(prev => new Set(prev).add(key));
+    const { error } = await moderationRequest('profile-photos', { userId: photo.user.id, url: photo.url, decision, reason, note });
+    setBusy(prev => {
+      const next = new Set(prev);
+      next.delete(key);
+      return next;
+    });
+
+    // A 409 means someone else got there first, so the photo leaves this list either way
+    if (error) setError(error);
+    setPhotos(prev => prev.filter(p => photoKey(p) !== key));
+    setTotal(prev => Math.max(0, prev - 1));
+    if (photos.length - 1 < REFILL_THRESHOLD && total > photos.length) setReloadKey(prev => prev + 1);
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black text-white p-8">
+      <div className="max-w-7xl mx-auto">
+        <button
+          onClick={onBack}
+          className="mb-8 px-6 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
+        >
+          {t('common.backToDashboard')}
+        </button>
+
+        <h1 className="text-4xl font-bold text-center mb-2 bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+          {t('photos.title')}
+        </h1>
+        <p className="text-center text-gray-400 mb-8">{t('photos.waiting', { count: total })}</p>
+
+        {error && (
+          <p className="text-center text-red-400 mb-6">
+            {error}{' '}
+            <button onClick={() => setError(null)} className="underline text-gray-400">{t('queue.dismiss')}</button>
+          </p>
+        )}
+
+        {loaded && photos.length === 0 && (
+          <p className="text-center text-gray-400 text-xl">{t('photos.allDone')}</p>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {photos.map(photo => {
+            const isBusy = busy.has(photoKey(photo));
+            return (
+              <div
+                key={photoKey(photo)}
+                className={`bg-gray-800/50 backdrop-blur-sm rounded-2xl border border-gray-600/50 overflow-hidden transition-opacity duration-300 ${
+                  isBusy ? 'opacity-40 pointer-events-none' : ''
+                }`}
+              >
+                <a href={photo.url} target="_blank" rel="noreferrer">
+                  <img src={photo.url} alt="" className="w-full aspect-square object-cover" />
+                </a>
+                <div className="p-4 space-y-3">
+                  <div>
+                    <Link href={`/dashboard/users/${photo.user.id}`} className="font-bold text-amber-300 hover:text-amber-200">
+                      {photo.user.name || t('common.anonymous')}
+                    </Link>
+                    <p className="text-sm text-gray-400">
+                      {photo.user.age}{photo.user.country && ` • ${country(photo.user.country)}`}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      <time dateTime={photo.addedAt} title={formatDateTime(photo.addedAt)}>
+                        {t('photos.added', { time: formatRelative(photo.addedAt) })}
+                      </time>
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => review(photo, 'approve')}
+                      className="flex-1 px-4 py-2 bg-green-600 hover:bg-green-700 rounded-xl font-bold transition-all duration-300"
+                    >
+                      {t('photos.approve')}
+                    </button>
+                    <button
+                      onClick={() => setRemoving(photo)}
+                      className="flex-1 px-4 py-2 bg-red-600 hover:bg-red-700 rounded-xl font-bold transition-all duration-300"
+                    >
+                      {t('photos.remove')}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <AnimatePresence>
+        {removing && (
+          <PhotoRemovalDialog
+            photoUrl={removing.url}
+            userName={removing.user.name || t('common.anonymous')}
+            onConfirm={(reason, note) => review(removing, 'remove', reason, note)}
+            onCancel={() => setRemoving(null)}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
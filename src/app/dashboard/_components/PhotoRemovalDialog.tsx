@@ -0,0 +1,89 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { PHOTO_REMOVAL_REASONS, PhotoRemovalReason } from '@/lib/photo-reasons';
+import { useI18n } from '@/lib/use-i18n';
+
+type PhotoRemovalDialogProps = {
+  photoUrl: string;
+  userName: string;
+  onConfirm: (reason: PhotoRemovalReason, note: string) => void;
+  onCancel: () => void;
+};
+
+export default function PhotoRemovalDialog({ photoUrl, userName, onConfirm, onCancel }: PhotoRemovalDialogProps) {
+  const [reason, setReason] = useState<PhotoRemovalReason | null>(null);
+  const [note, setNote] = useState('');
+  const { t } = useI18n();
+
+  const canConfirm = !!reason && (reason !== 'other' || !!note.trim());
+
+  // 1–6 picks a reason, Enter confirms, Escape cancels
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') onCancel();
+      if (e.target instanceof HTMLTextAreaElement) return;
+      const picked = PHOTO_REMOVAL_REASONS[Number(e.key) - 1];
+      if (picked) setReason(picked.code);
+      if (e.key === 'Enter' && reason && canConfirm) onConfirm(reason, note.trim());
+    }
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [reason, note, canConfirm, onConfirm, onCancel]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-8"
+      onClick={onCancel}
+    >
+      <motion.div
+        initial={{ scale: 0.95 }}
+        animate={{ scale: 1 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-xl bg-gray-900 border border-gray-600 rounded-2xl p-8 space-y-6"
+      >
+        <h3 className="text-3xl font-bold text-red-400 text-center">{t('photos.removeTitle', { name: userName })}</h3>
+        <img src={photoUrl} alt="" className="mx-auto max-h-48 rounded-xl object-contain" />
+        <div className="grid grid-cols-2 gap-3">
+          {PHOTO_REMOVAL_REASONS.map((r, i) => (
+            <button
+              key={r.code}
+              onClick={() => setReason(r.code)}
+              className={`px-4 py-3 rounded-xl font-bold text-left transition-all duration-300 border ${
+                reason === r.code ? 'bg-red-600 border-red-400' : 'bg-gray-800 border-gray-600 hover:border-red-500'
+              }`}
+            >
+              <span className="text-gray-400 mr-2">{i + 1}</span>
+              {t(`photoReason.${r.code}`)}
+            </button>
+          ))}
+        </div>
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder={reason === 'other' ? t('reject.notePlaceholderRequired') : t('photos.notePlaceholder')}
+          rows={3}
+          className="w-full px-4 py-3 bg-gray-800 border border-gray-600 rounded-xl text-white focus:outline-none focus:border-amber-500"
+        />
+        <div className="flex justify-end gap-4">
+          <button
+            onClick={onCancel}
+            className="px-6 py-3 bg-gray-800/50 rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => reason && onConfirm(reason, note.trim())}
+            disabled={!canConfirm}
+            className="px-6 py-3 bg-gradient-to-r from-red-600 to-red-700 rounded-xl font-bold text-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('photos.confirmRemove')}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { moderationRequest } from '@/lib/moderation-api';
+import { QUEUE_STRATEGIES, QueueOrder, QueueStrategy, parseCountryCodes } from '@/lib/queue-order';
+import { useI18n } from '@/lib/use-i18n';
+
+type QueueOrderPanelProps = {
+  canEditRules: boolean;
+};
+
+// The caller's queue strategy, editable, and the priority rules everyone's queue is sorted by first
+export default function QueueOrderPanel({ canEditRules }: QueueOrderPanelProps) {
+  const [order, setOrder] = useState<QueueOrder | null>(null);
+  const [countriesInput, setCountriesInput] = useState('');
+  const [status, setStatus] = useState<{ state: 'idle' | 'saving' | 'done' | 'error'; message: string }>({
+    state: 'idle',
+    message: '',
+  });
+  const [reloadKey, setReloadKey] = useState(0);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    let cancelled = false;
+    moderationRequest<QueueOrder>('queue', undefined, 'GET').then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) setStatus({ state: 'error', message: error });
+      setOrder(data);
+      setCountriesInput(data?.countries.join(', ') ?? '');
+    });
+    return () => { cancelled = true; };
+  }, [reloadKey]);
+
+  async function save(strategy: QueueStrategy, countries: string[]) {
+    setStatus({ state: 'saving', message: t('common.saving') });
+    const { error } = await moderationRequest('queue', { strategy, countries });
+    if (error) {
+      setStatus({ state: 'error', message: error });
+      return;
+    }
+    setStatus({ state: 'done', message: t('queueOrder.saved') });
+    setReloadKey(prev => prev + 1);
+  }
+
+  function changeStrategy(strategy: QueueStrategy) {
+    // Countries first needs a list; it is saved with the Save button once there is one
+    if (strategy === 'countries_first' && parseCountryCodes(countriesInput).length === 0) {
+      setOrder(prev => prev && { ...prev, strategy });
+      return;
+    }
+    save(strategy, parseCountryCodes(countriesInput));
+  }
+
+  if (!order) return null;
+
+  return (
+    <div className="flex flex-col items-center gap-2 text-sm">
+      <div className="flex flex-wrap justify-center items-center gap-3">
+        <label className="text-gray-400">{t('queueOrder.label')}</label>
+        <select
+          value={order.strategy}
+          onChange={(e) => changeStrategy(e.target.value as QueueStrategy)}
+          disabled={status.state === 'saving'}
+          className="px-4 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-amber-500"
+        >
+          {QUEUE_STRATEGIES.map(strategy => (
+            <option key={strategy} value={strategy}>{t(`queueStrategy.${strategy}`)}</option>
+          ))}
+        </select>
+        {order.strategy === 'countries_first' && (
+          <>
+            <input
+              value={countriesInput}
+              onChange={(e) => setCountriesInput(e.target.value)}
+              placeholder={t('queueOrder.countriesPlaceholder')}
+              className="px-4 py-2 w-48 bg-gray-800 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-amber-500"
+            />
+            <button
+              onClick={() => save('countries_first', parseCountryCodes(countriesInput))}
+              disabled={parseCountryCodes(countriesInput).length === 0 || status.state === 'saving'}
+              className="px-4 py-2 bg-gradient-to-r from-amber-500 to-orange-600 rounded-lg font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('queueOrder.save')}
+            </button>
+          </>
+        )}
+        {status.state !== 'idle' && (
+          <span className={status.state === 'error' ? 'text-red-400' : status.state === 'saving' ? 'text-amber-400 animate-pulse' : 'text-green-400'}>
+            {status.message}
+          </span>
+        )}
+      </div>
+      <div className="flex flex-wrap justify-center items-center gap-2 text-gray-400">
+        {order.rules.length === 0 ? (
+          <span>{t('queueOrder.noRules')}</span>
+        ) : (
+          <>
+            <span>{t('queueOrder.rules')}</span>
+            {order.rules.map(rule => (
+              <span key={rule.id} className="px-3 py-1 rounded-full bg-gray-800 border border-gray-600 text-gray-200">
+                {t(`queueRule.${rule.kind}`, { value: rule.value ?? '' })} ({rule.weight > 0 ? '+' : ''}{rule.weight})
+              </span>
+            ))}
+          </>
+        )}
+        {canEditRules && (
+          <Link href="/dashboard/queue-rules" className="text-amber-400 hover:text-amber-300 underline">
+            {t('queueOrder.editRules')}
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
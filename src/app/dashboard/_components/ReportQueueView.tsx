@@ -0,0 +1,116 @@
+'use client';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { moderationRequest } from '@/lib/moderation-api';
+import type { ReportGroup } from '@/lib/types';
+import { useI18n } from '@/lib/use-i18n';
+import ReportReviewPanel from './ReportReviewPanel';
+
+const PAGE_SIZE = 30;
+
+type ReportQueueResponse = { groups: ReportGroup[]; total: number };
+
+type ReportQueueViewProps = {
+  onBack: () => void;
+};
+
+// Users with open member reports, most reported first; opening one shows the review for all their reports
+export default function ReportQueueView({ onBack }: ReportQueueViewProps) {
+  const [groups, setGroups] = useState<ReportGroup[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loaded, setLoaded] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { t, formatRelative, formatDateTime, country } = useI18n();
+
+  useEffect(() => {
+    let cancelled = false;
+    moderationRequest<ReportQueueResponse>(`reports?limit=${PAGE_SIZE}`, undefined, 'GET').then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) setError(error);
+      setGroups(data?.groups ?? []);
+      setTotal(data?.total ?? 0);
+      setLoaded(true);
+    });
+    return () => { cancelled = true; };
+  }, [reloadKey]);
+
+  function closeReview() {
+    setReviewingId(null);
+    setReloadKey(prev => prev + 1);
+  }
+
+  if (reviewingId) {
+    return <ReportReviewPanel key={reviewingId} userId={reviewingId} onClose={closeReview} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black text-white p-8">
+      <div className="max-w-7xl mx-auto">
+        <button
+          onClick={onBack}
+          className="mb-8 px-6 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
+        >
+          {t('common.backToDashboard')}
+        </button>
+
+        <h1 className="text-4xl font-bold text-center mb-2 bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+          {t('reports.title')}
+        </h1>
+        <p className="text-center text-gray-400 mb-8">{t('reports.waiting', { count: total })}</p>
+
+        {error && (
+          <p className="text-center text-red-400 mb-6">
+            {error}{' '}
+            <button onClick={() => setError(null)} className="underline text-gray-400">{t('queue.dismiss')}</button>
+          </p>
+        )}
+
+        {!loaded && <p className="text-center text-amber-400 animate-pulse">{t('reports.loading')}</p>}
+        {loaded && groups.length === 0 && (
+          <p className="text-center text-gray-400 text-xl">{t('reports.allDone')}</p>
+        )}
+
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl border border-gray-600/50 divide-y divide-gray-700/50">
+          {groups.map(group => (
+            <div key={group.user.id} className="flex flex-wrap items-center justify-between gap-4 p-6">
+              <div className="space-y-2">
+                <div>
+                  <Link href={`/dashboard/users/${group.user.id}`} className="font-bold text-lg text-amber-300 hover:text-amber-200">
+                    {group.user.name || t('common.anonymous')}
+                  </Link>
+                  <span className="ml-3 text-sm text-gray-400">
+                    {group.user.age}{group.user.country && ` • ${country(group.user.country)}`}
+                    {group.user.is_verified && ` • ${t(`status.${group.user.is_verified}`)}`}
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {group.categories.map(category => (
+                    <span key={category} className="px-3 py-1 rounded-full bg-red-900/40 border border-red-500/50 text-red-200 text-sm">
+                      {t(`reportCategory.${category}`)}
+                    </span>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">
+                  <time dateTime={group.lastReportedAt} title={formatDateTime(group.lastReportedAt)}>
+                    {t('reports.lastReported', { time: formatRelative(group.lastReportedAt) })}
+                  </time>
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <span className="text-xl font-bold text-red-400">{t('reports.openCount', { count: group.reportCount })}</span>
+                <button
+                  onClick={() => setReviewingId(group.user.id)}
+                  className="px-6 py-3 bg-gradient-to-r from-amber-500 to-orange-600 rounded-xl font-bold transition-all duration-300"
+                >
+                  {t('reports.review')}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+'use client';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { AnimatePresence } from 'framer-motion';
+import { moderationRequest } from '@/lib/moderation-api';
+import { REJECTION_REASONS, RejectionReasonCode } from '@/lib/rejection-reasons';
+import type { ReportResolution } from '@/lib/report-categories';
+import { can } from '@/lib/roles';
+import { SUSPENSION_DURATIONS, SuspensionDays, isCurrentSuspension, suspensionEnd, summarizeSuspensions } from '@/lib/suspensions';
+import type { ReportReview, UserReport } from '@/lib/types';
+import { useCurrentAdmin } from '@/lib/use-current-admin';
+import { useI18n } from '@/lib/use-i18n';
+import { VERIFICATION_PHOTO_REFRESH_MS } from '@/lib/verification-photo-links';
+import ImageWithLoader from './ImageWithLoader';
+import PhotoCompareViewer from './PhotoCompareViewer';
+import SuspensionBadge from './SuspensionBadge';
+
+type ReportReviewPanelProps = {
+  userId: string;
+  onClose: () => void; // Also called once the reports are resolved
+};
+
+// One reported user's photos, profile and reports, with the actions that resolve all their open reports at once
+export default function ReportReviewPanel({ userId, onClose }: ReportReviewPanelProps) {
+  const [review, setReview] = useState<ReportReview | null>(null);
+  const [note, setNote] = useState('');
+  const [suspendDays, setSuspendDays] = useState<SuspensionDays>(7);
+  const [revokeReason, setRevokeReason] = useState<RejectionReasonCode | ''>(''); // What the user is told on revocation
+  const [status, setStatus] = useState<{ state: 'idle' | 'saving' | 'error'; message: string }>({ state: 'idle', message: '' });
+  const [compareFrom, setCompareFrom] = useState<number | null>(null); // Index into profile then verification photos
+  const currentAdmin = useCurrentAdmin();
+  const { t, formatRelative, formatDateTime, country } = useI18n();
+
+  useEffect(() => {
+    let cancelled = false;
+    moderationRequest<ReportReview>(`reports/${userId}`, undefined, 'GET').then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) setStatus({ state: 'error', message: error });
+      setReview(data);
+    });
+    return () => { cancelled = true; };
+  }, [userId]);
+
+  // The verification photo links are short-lived, so they are re-signed while the review stays open
+  useEffect(() => {
+    const interval = setInterval(() => {
+      moderationRequest<ReportReview>(`reports/${userId}`, undefined, 'GET').then(({ data }) => {
+        if (data) setReview(prev => prev && { ...prev, verificationPhotos: data.verificationPhotos });
+      });
+    }, VERIFICATION_PHOTO_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [userId]);
+
+  if (!review) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black text-white flex items-center justify-center">
+        {status.state === 'error' ? (
+          <p className="text-2xl text-red-400">{status.message}</p>
+        ) : (
+          <div className="text-2xl text-amber-400 animate-pulse">{t('reports.loading')}</div>
+        )}
+      </div>
+    );
+  }
+
+  const { user, verificationPhotos } = review;
+  const profilePhotos = user.image_urls ?? [];
+  const openReports = review.reports.filter(r => !r.resolved_at);
+  const pastReports = review.reports.filter(r => r.resolved_at);
+
+  async function resolve(resolution: ReportResolution) {
+    setStatus({ state: 'saving', message: t('common.saving') });
+    const { error } = await moderationRequest(`reports/${userId}`, {
+      reportIds: openReports.map(r => r.id),
+      resolution,
+      note,
+      endsAt: resolution === 'suspended' ? suspensionEnd(new Date(), suspendDays)?.toISOString() ?? null : undefined,
+      rejectionReason: resolution === 'verification_revoked' ? revokeReason : undefined,
+    });
+    if (error) {
+      setStatus({ state: 'error', message: error });
+      return;
+    }
+    onClose();
+  }
+
+  function reportLine(report: UserReport) {
+    return (
+      <div key={report.id} className="py-3 space-y-1">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="px-3 py-1 rounded-full bg-red-900/40 border border-red-500/50 text-red-200 text-sm">
+            {t(`reportCategory.${report.category}`)}
+          </span>
+          <span className="text-sm text-gray-400">
+            {t('reports.reportedBy', {
+              name: report.reporter ? report.reporter.name || t('common.anonymous') : t('reports.deletedReporter'),
+              time: formatRelative(report.created_at),
+            })}
+          </span>
+        </div>
+        <p className={report.message ? 'text-gray-200' : 'text-gray-500 italic'}>{report.message || t('reports.noMessage')}</p>
+        {report.resolution && report.resolved_at && (
+          <p className="text-sm text-gray-500">
+            {t('reports.resolvedAs', { resolution: t(`reportResolution.${report.resolution}`), time: formatRelative(report.resolved_at) })}
+            {report.resolution_note && ` — ${report.resolution_note}`}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const needsNote = !note.trim();
+  const busy = status.state === 'saving' || openReports.length === 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black text-white p-8">
+      <div className="max-w-7xl mx-auto space-y-10">
+        <button
+          onClick={onClose}
+          className="px-6 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
+        >
+          {t('reports.backToList')}
+        </button>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
+          <div className="space-y-6">
+            <h2 className="text-3xl font-bold text-center bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+              {t('verify.profilePhotos')}
+            </h2>
+            <div className="flex gap-6 overflow-x-auto pb-4 snap-x snap-mandatory">
+              {profilePhotos.map((url, i) => (
+                <button key={url} onClick={() => setCompareFrom(i)} className="flex-none w-64 snap-center cursor-zoom-in">
+                  <ImageWithLoader
+                    src={url}
+                    alt={t('verify.profilePhotoAlt', { number: i + 1 })}
+                    className="w-full h-80 rounded-2xl shadow-2xl overflow-hidden"
+                  />
+                </button>
+              ))}
+              {profilePhotos.length === 0 && <p className="text-gray-500">{t('verify.noProfilePhotos')}</p>}
+            </div>
+          </div>
+
+          <div className="space-y-6">
+            <h2 className="text-3xl font-bold text-center bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+              {t('verify.verificationPhotos')}
+            </h2>
+            {verificationPhotos.length === 0 && <p className="text-center text-gray-500">{t('verify.noVerificationPhotos')}</p>}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {verificationPhotos.map((url, i) => (
+                <button key={i} onClick={() => setCompareFrom(profilePhotos.length + i)} className="block w-full cursor-zoom-in">
+                  <ImageWithLoader
+                    src={url}
+                    alt={t('verify.verificationPhotoAlt', { number: i + 1 })}
+                    className="w-full h-80 rounded-2xl shadow-2xl border-4 border-amber-500/50 overflow-hidden"
+                  />
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-gray-800/50 backdrop-blur-sm p-8 rounded-2xl border border-gray-600/50 space-y-4 text-center">
+          <h3 className="text-3xl font-bold text-amber-300">
+            <Link href={`/dashboard/users/${user.id}`} target="_blank" className="hover:underline">
+              {user.name || t('common.anonymous')}
+            </Link>
+          </h3>
+          <p className="text-xl text-gray-400">
+            {user.age}{user.country && ` • ${country(user.country)}`}
+            {user.is_verified && ` • ${t(`status.${user.is_verified}`)}`}
+          </p>
+          <p className="text-gray-500">
+            <time dateTime={user.created_at} title={formatDateTime(user.created_at)}>
+              {t('verify.signedUp', { time: formatRelative(user.created_at) })}
+            </time>
+          </p>
+          <SuspensionBadge summary={summarizeSuspensions(review.suspensions)} />
+        </div>
+
+        <div className="bg-gray-800/50 backdrop-blur-sm p-8 rounded-2xl border border-gray-600/50 space-y-6">
+          <div>
+            <h3 className="text-2xl font-bold text-red-400 mb-2">
+              {t('reports.openReports')} <span className="text-gray-400 text-lg">({openReports.length})</span>
+            </h3>
+            <div className="divide-y divide-gray-700/50">{openReports.map(reportLine)}</div>
+          </div>
+
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={t('reports.notePlaceholder')}
+            rows={3}
+            className="w-full px-4 py-3 bg-gray-800 border border-gray-600 rounded-xl text-white focus:outline-none focus:border-amber-500"
+          />
+          {status.state !== 'idle' && (
+            <p className={status.state === 'error' ? 'text-red-400' : 'text-amber-400 animate-pulse'}>{status.message}</p>
+          )}
+          <div className="flex flex-wrap justify-center gap-4">
+            <button
+              onClick={() => resolve('dismissed')}
+              disabled={busy}
+              className="px-8 py-4 bg-gray-700 rounded-2xl font-bold text-xl hover:bg-gray-600 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('reports.dismiss')}
+            </button>
+            <button
+              onClick={() => resolve('warned')}
+              disabled={busy || needsNote}
+              className="px-8 py-4 bg-amber-600 rounded-2xl font-bold text-xl hover:bg-amber-700 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('reports.warn')}
+            </button>
+            {user.is_verified === 'verified' && (
+              <div className="flex items-center gap-2">
+                <select
+                  value={revokeReason}
+                  onChange={(e) => setRevokeReason(e.target.value as RejectionReasonCode | '')}
+                  aria-label={t('reports.revokeReason')}
+                  className="px-4 py-4 bg-gray-900/80 border border-gray-600 rounded-2xl text-white focus:outline-none focus:border-amber-500"
+                >
+                  <option value="">{t('reports.revokeReason')}</option>
+                  {REJECTION_REASONS.map(r => (
+                    <option key={r.code} value={r.code}>{t(`rejectionReason.${r.code}`)}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => resolve('verification_revoked')}
+                  disabled={busy || needsNote || !revokeReason}
+                  className="px-8 py-4 bg-purple-700 rounded-2xl font-bold text-xl hover:bg-purple-800 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {t('reports.revoke')}
+                </button>
+              </div>
+            )}
+            {can(currentAdmin, 'suspendUsers') && !review.suspensions.some(isCurrentSuspension) && (
+              <div className="flex items-center gap-2">
+                <select
+                  value={suspendDays ?? 'permanent'}
+                  onChange={(e) => setSuspendDays(e.target.value === 'permanent' ? null : (Number(e.target.value) as SuspensionDays))}
+                  aria-label={t('reports.suspendFor')}
+                  className="px-4 py-4 bg-gray-900/80 border border-gray-600 rounded-2xl text-white focus:outline-none focus:border-amber-500"
+                >
+                  {SUSPENSION_DURATIONS.map(d => (
+                    <option key={d.label} value={d.days ?? 'permanent'}>{t(`suspensionLength.${d.days ?? 'permanent'}`)}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => resolve('suspended')}
+                  disabled={busy || needsNote}
+                  className="px-8 py-4 bg-gradient-to-r from-red-600 to-red-700 rounded-2xl font-bold text-xl transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {t('reports.suspend')}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {pastReports.length > 0 && (
+            <div>
+              <h3 className="text-xl font-bold text-gray-400 mb-2">{t('reports.pastReports')}</h3>
+              <div className="divide-y divide-gray-700/50 opacity-70">{pastReports.map(reportLine)}</div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <AnimatePresence>
+        {compareFrom !== null && (
+          <PhotoCompareViewer
+            profilePhotos={profilePhotos}
+            verificationPhotos={verificationPhotos}
+            initialProfile={compareFrom < profilePhotos.length ? compareFrom : 0}
+            initialVerification={compareFrom < profilePhotos.length ? 0 : compareFrom - profilePhotos.length}
+            onClose={() => setCompareFrom(null)}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  DEFAULT_SHORTCUTS,
+  SHORTCUT_ACTIONS,
+  ShortcutAction,
+  ShortcutBindings,
+  conflictingShortcut,
+  keyLabel,
+} from '@/lib/shortcuts';
+import { useI18n } from '@/lib/use-i18n';
+
+type ShortcutCheatSheetProps = {
+  bindings: ShortcutBindings;
+  onChange: (bindings: ShortcutBindings) => void;
+  onClose: () => void;
+};
+
+const GROUPS = [
+  { group: 'Verification', label: 'shortcutGroup.verification' },
+  { group: 'Gender grid', label: 'shortcutGroup.genderGrid' },
+  { group: 'General', label: 'shortcutGroup.general' },
+] as const;
+
+export default function ShortcutCheatSheet({ bindings, onChange, onClose }: ShortcutCheatSheetProps) {
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+  const [conflict, setConflict] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  // While rebinding, swallow the next key press before the page's shortcut handler sees it
+  useEffect(() => {
+    if (!capturing) return;
+    function onKeyDown(e: KeyboardEvent) {
+      e.preventDefault();
+      e.stopPropagation();
+      if (['Shift', 'Control', 'Alt', 'Meta'].includes(e.key)) return;
+      const taken = conflictingShortcut(bindings, capturing!, e.key);
+      if (taken) {
+        setConflict(t('shortcuts.conflict', { key: keyLabel(e.key), action: t(`shortcut.${taken}`) }));
+      } else {
+        onChange({ ...bindings, [capturing!]: e.key });
+        setConflict(null);
+      }
+      setCapturing(null);
+    }
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [capturing, bindings, onChange, t]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-8"
+      onClick={onClose}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-3xl max-h-full overflow-y-auto bg-gray-900 border border-gray-600 rounded-2xl p-8 space-y-6"
+      >
+        <div className="flex justify-between items-center">
+          <h3 className="text-3xl font-bold text-amber-300">{t('shortcuts.title')}</h3>
+          <button
+            onClick={() => { onChange(DEFAULT_SHORTCUTS); setConflict(null); }}
+            className="px-4 py-2 bg-gray-800 rounded-lg font-bold text-sm hover:bg-gray-700 transition-all duration-300 border border-gray-600"
+          >
+            {t('shortcuts.reset')}
+          </button>
+        </div>
+        <p className="text-gray-400">{t('shortcuts.hint')}</p>
+        {conflict && <p className="text-red-400">{conflict}</p>}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {GROUPS.map(({ group, label }) => (
+            <div key={group} className="space-y-2">
+              <h4 className="text-lg font-bold text-gray-300">{t(label)}</h4>
+              {SHORTCUT_ACTIONS.filter(s => s.group === group).map(s => (
+                <div key={s.action} className="flex justify-between items-center gap-3">
+                  <span className="text-gray-400 text-sm">{t(`shortcut.${s.action}`)}</span>
+                  <button
+                    onClick={() => setCapturing(s.action)}
+                    className={`min-w-12 px-3 py-1 rounded-lg font-mono font-bold text-sm border transition-all duration-300 ${
+                      capturing === s.action
+                        ? 'bg-amber-500 border-amber-300 text-black animate-pulse'
+                        : 'bg-gray-800 border-gray-600 text-white hover:border-amber-500'
+                    }`}
+                  >
+                    {capturing === s.action ? '…' : keyLabel(bindings[s.action])}
+                  </button>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-6 py-3 bg-gray-800/50 rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600"
+          >
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,27 @@
+'use client';
+import type { SuspensionSummary } from '@/lib/suspensions';
+import { useI18n } from '@/lib/use-i18n';
+
+type SuspensionBadgeProps = {
+  summary: SuspensionSummary | undefined; // Undefined while it loads
+};
+
+// Flags a user who is suspended or banned right now, or has been suspended before; nothing for everyone else
+export default function SuspensionBadge({ summary }: SuspensionBadgeProps) {
+  const { t, formatDateTime } = useI18n();
+  if (!summary || summary.total === 0) return null;
+
+  const { current } = summary;
+  if (current) {
+    return (
+      <span className="inline-block px-3 py-1 rounded-full bg-red-900/60 border border-red-500 text-red-200 text-sm font-bold">
+        {current.ends_at ? t('suspension.suspendedUntil', { date: formatDateTime(current.ends_at) }) : t('suspension.banned')}
+      </span>
+    );
+  }
+  return (
+    <span className="inline-block px-3 py-1 rounded-full bg-orange-900/40 border border-orange-500/50 text-orange-200 text-sm">
+      {t('suspension.history', { count: summary.total })}
+    </span>
+  );
+}
@@ -0,0 +1,206 @@
+'use client';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { moderationRequest } from '@/lib/moderation-api';
+import { ADMIN_ROLES, AdminAccount, AdminRole, PERMISSIONS, Permission, can } from '@/lib/roles';
+import { useCurrentAdmin } from '@/lib/use-current-admin';
+import { useI18n } from '@/lib/use-i18n';
+
+type ActionStatus = { state: 'idle' | 'saving' | 'done' | 'error'; message: string };
+
+async function fetchAdmins() {
+  return moderationRequest<{ admins: AdminAccount[] }>('admins', undefined, 'GET');
+}
+
+export default function AdminsPage() {
+  const [admins, setAdmins] = useState<AdminAccount[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<AdminRole>('moderator');
+  const [status, setStatus] = useState<ActionStatus>({ state: 'idle', message: '' });
+  const currentAdmin = useCurrentAdmin();
+  const { t, formatDateTime } = useI18n();
+  const router = useRouter();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAdmins().then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) setStatus({ state: 'error', message: error });
+      setAdmins(data?.admins ?? []);
+    });
+    return () => { cancelled = true; };
+  }, [reloadKey]);
+
+  async function runAction(message: string, path: string, body: unknown) {
+    setStatus({ state: 'saving', message: t('common.inProgress', { action: message }) });
+    const { error } = await moderationRequest(path, body);
+    if (error) {
+      setStatus({ state: 'error', message: error });
+      return false;
+    }
+    setStatus({ state: 'done', message: t('common.actionDone', { action: message }) });
+    setReloadKey(prev => prev + 1);
+    return true;
+  }
+
+  async function invite() {
+    if (await runAction(t('admins.inviting', { email: inviteEmail }), 'admins', { email: inviteEmail, role: inviteRole })) {
+      setInviteEmail('');
+    }
+  }
+
+  const inputClass = 'px-4 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-amber-500';
+
+  if (currentAdmin && !can(currentAdmin, 'manageAdmins')) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black text-white flex items-center justify-center">
+        <p className="text-2xl text-gray-400">{t('admins.ownersOnly')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black text-white p-8">
+      <div className="max-w-7xl mx-auto">
+        <button
+          onClick={() => router.push('/dashboard')}
+          className="mb-8 px-6 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
+        >
+          {t('common.backToDashboard')}
+        </button>
+
+        <h1 className="text-4xl font-bold text-center mb-6 bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+          {t('admins.title')}
+        </h1>
+
+        <div className="flex flex-wrap justify-center items-end gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">{t('admins.inviteByEmail')}</label>
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && inviteEmail.trim() && invite()}
+              placeholder="name@example.com"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">{t('admins.role')}</label>
+            <select value={inviteRole} onChange={(e) => setInviteRole(e.target.value as AdminRole)} className={inputClass}>
+              {ADMIN_ROLES.map(r => (
+                <option key={r.role} value={r.role}>{t(`role.${r.role}`)}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={invite}
+            disabled={!inviteEmail.trim() || status.state === 'saving'}
+            className="px-6 py-2 bg-gradient-to-r from-amber-500 to-orange-600 rounded-xl font-bold transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('admins.sendInvite')}
+          </button>
+        </div>
+
+        {status.state !== 'idle' && (
+          <p
+            className={`text-center mb-4 ${
+              status.state === 'error' ? 'text-red-400' : status.state === 'saving' ? 'text-amber-400 animate-pulse' : 'text-green-400'
+            }`}
+          >
+            {status.message}
+          </p>
+        )}
+
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl border border-gray-600/50 overflow-x-auto mt-8">
+          <table className="w-full text-left">
+            <thead className="text-gray-400 text-sm uppercase">
+              <tr>
+                <th className="px-6 py-4">{t('admins.admin')}</th>
+                <th className="px-6 py-4">{t('admins.role')}</th>
+                <th className="px-6 py-4">{t('admins.added')}</th>
+                <th className="px-6 py-4">{t('admins.status')}</th>
+                <th className="px-6 py-4"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {admins.map(admin => {
+                const isSelf = admin.id === currentAdmin?.id;
+                return (
+                  <tr key={admin.id} className={`border-t border-gray-700/50 ${admin.deactivated_at ? 'opacity-50' : ''}`}>
+                    <td className="px-6 py-4">
+                      <p className="text-amber-300">{admin.email || '—'}</p>
+                      <p className="font-mono text-xs text-gray-500">{admin.id}</p>
+                    </td>
+                    <td className="px-6 py-4">
+                      <select
+                        value={admin.role}
+                        onChange={(e) => runAction(t('admins.changingRole', { email: admin.email ?? admin.id }), `admins/${admin.id}`, { role: e.target.value })}
+                        disabled={isSelf || status.state === 'saving'}
+                        title={isSelf ? t('admins.ownRole') : undefined}
+                        className={`${inputClass} disabled:opacity-50`}
+                      >
+                        {ADMIN_ROLES.map(r => (
+                          <option key={r.role} value={r.role}>{t(`role.${r.role}`)}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-6 py-4 text-gray-400 whitespace-nowrap">{formatDateTime(admin.created_at)}</td>
+                    <td className="px-6 py-4">
+                      {admin.deactivated_at ? (
+                        <span className="text-red-400">{t('admins.deactivatedAt', { date: formatDateTime(admin.deactivated_at) })}</span>
+                      ) : (
+                        <span className="text-green-400">{t('admins.active')}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      {!isSelf && (
+                        <button
+                          onClick={() => runAction(
+                            t(admin.deactivated_at ? 'admins.reactivating' : 'admins.deactivating', { email: admin.email ?? admin.id }),
+                            `admins/${admin.id}`,
+                            { active: !!admin.deactivated_at }
+                          )}
+                          disabled={status.state === 'saving'}
+                          className="px-4 py-2 bg-gray-700 rounded-lg font-bold text-sm hover:bg-gray-600 transition-all duration-300 disabled:opacity-50"
+                        >
+                          {admin.deactivated_at ? t('admins.reactivate') : t('admins.deactivate')}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl border border-gray-600/50 overflow-x-auto mt-8">
+          <table className="w-full text-left text-sm">
+            <thead className="text-gray-400 uppercase">
+              <tr>
+                <th className="px-6 py-4">{t('admins.permission')}</th>
+                {ADMIN_ROLES.map(r => (
+                  <th key={r.role} className="px-6 py-4 text-center">{t(`role.${r.role}`)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {(Object.keys(PERMISSIONS) as Permission[]).map(permission => (
+                <tr key={permission} className="border-t border-gray-700/50">
+                  <td className="px-6 py-3 text-gray-300">{t(`permission.${permission}`)}</td>
+                  {ADMIN_ROLES.map(r => (
+                    <td key={r.role} className="px-6 py-3 text-center">
+                      {can({ role: r.role }, permission) ? <span className="text-green-400">✓</span> : <span className="text-gray-600">—</span>}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+'use client';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import {
+  ATTRIBUTES,
+  AttributeName,
+  AttributeOption,
+  OPTION_COLORS,
+  OptionColor,
+  fetchAttributeOptions,
+  optionColorClasses,
+} from '@/lib/attribute-options';
+import { moderationRequest } from '@/lib/moderation-api';
+import { can } from '@/lib/roles';
+import { supabase } from '@/lib/supabase/client';
+import { useCurrentAdmin } from '@/lib/use-current-admin';
+import { useI18n } from '@/lib/use-i18n';
+
+type ActionStatus = { state: 'idle' | 'saving' | 'done' | 'error'; message: string };
+
+const COLOR_NAMES = Object.keys(OPTION_COLORS) as OptionColor[];
+
+const inputClass = 'px-4 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-amber-500';
+
+function ColorPicker({ value, onChange, disabled }: { value: OptionColor; onChange: (color: OptionColor) => void; disabled?: boolean }) {
+  return (
+    <div className="flex gap-1">
+      {COLOR_NAMES.map(color => (
+        <button
+          key={color}
+          onClick={() => onChange(color)}
+          disabled={disabled}
+          title={color}
+          className={`w-6 h-6 rounded-full ${OPTION_COLORS[color].swatch} transition-all duration-300 disabled:opacity-50 ${
+            value === color ? 'ring-2 ring-offset-2 ring-offset-gray-900 ring-amber-400' : 'opacity-60 hover:opacity-100'
+          }`}
+        />
+      ))}
+    </div>
+  );
+}
+
+function AttributeSection({ attribute }: { attribute: AttributeName }) {
+  const [options, setOptions] = useState<AttributeOption[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [labels, setLabels] = useState<Record<string, string>>({});
+  const [newOption, setNewOption] = useState<{ value: string; label: string; color: OptionColor }>({ value: '', label: '', color: 'gray' });
+  const [status, setStatus] = useState<ActionStatus>({ state: 'idle', message: '' });
+  const { t } = useI18n();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAttributeOptions(supabase, attribute).then(loaded => {
+      if (cancelled) return;
+      setOptions(loaded);
+      setLabels(Object.fromEntries(loaded.map(o => [o.value, o.label])));
+    });
+    return () => { cancelled = true; };
+  }, [attribute, reloadKey]);
+
+  async function runAction(message: string, path: string, body: unknown) {
+    setStatus({ state: 'saving', message: t('common.inProgress', { action: message }) });
+    const { error } = await moderationRequest(path, body);
+    if (error) {
+      setStatus({ state: 'error', message: error });
+      return false;
+    }
+    setStatus({ state: 'done', message: t('common.actionDone', { action: message }) });
+    setReloadKey(prev => prev + 1);
+    return true;
+  }
+
+  function updateOption(option: AttributeOption, message: string, changes: Record<string, unknown>) {
+    return runAction(message, `attributes/${attribute}/${encodeURIComponent(option.value)}`, changes);
+  }
+
+  // Swaps sort positions with the neighbour; options seeded with equal positions get distinct ones first
+  async function move(index: number, direction: -1 | 1) {
+    const option = options[index];
+    const neighbour = options[index + direction];
+    if (!neighbour) return;
+    const [first, second] = direction === -1 ? [option, neighbour] : [neighbour, option];
+    const lower = Math.min(option.sort_order, neighbour.sort_order);
+    const message = t('attributes.moving', { label: option.label });
+    if (!(await updateOption(first, message, { sortOrder: lower }))) return;
+    await updateOption(second, message, { sortOrder: lower + 1 });
+  }
+
+  async function add() {
+    if (await runAction(t('attributes.adding', { label: newOption.label || newOption.value }), 'attributes', {
+      attribute,
+      value: newOption.value,
+      label: newOption.label || newOption.value,
+      color: newOption.color,
+    })) {
+      setNewOption({ value: '', label: '', color: 'gray' });
+    }
+  }
+
+  const saving = status.state === 'saving';
+
+  return (
+    <section className="mt-8">
+      <h2 className="text-2xl font-bold text-amber-300 mb-4">{t(`attribute.${attribute}`)}</h2>
+
+      <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl border border-gray-600/50 overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="text-gray-400 text-sm uppercase">
+            <tr>
+              <th className="px-6 py-4">{t('attributes.order')}</th>
+              <th className="px-6 py-4">{t('attributes.value')}</th>
+              <th className="px-6 py-4">{t('attributes.label')}</th>
+              <th className="px-6 py-4">{t('attributes.color')}</th>
+              <th className="px-6 py-4">{t('attributes.preview')}</th>
+              <th className="px-6 py-4"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {options.map((option, index) => {
+              const draftLabel = labels[option.value] ?? option.label;
+              return (
+                <tr key={option.value} className={`border-t border-gray-700/50 ${option.archived_at ? 'opacity-50' : ''}`}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <button
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0 || saving}
+                      className="px-2 text-gray-400 hover:text-amber-400 disabled:opacity-30"
+                      aria-label={t('attributes.moveUp', { label: option.label })}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => move(index, 1)}
+                      disabled={index === options.length - 1 || saving}
+                      className="px-2 text-gray-400 hover:text-amber-400 disabled:opacity-30"
+                      aria-label={t('attributes.moveDown', { label: option.label })}
+                    >
+                      ↓
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 font-mono text-sm text-gray-300">{option.value}</td>
+                  <td className="px-6 py-4">
+                    <div className="flex gap-2">
+                      <input
+                        value={draftLabel}
+                        onChange={(e) => setLabels(prev => ({ ...prev, [option.value]: e.target.value }))}
+                        className={inputClass}
+                      />
+                      {draftLabel.trim() && draftLabel !== option.label && (
+                        <button
+                          onClick={() => updateOption(option, t('attributes.renaming', { label: option.label }), { label: draftLabel })}
+                          disabled={saving}
+                          className="px-4 py-2 bg-gradient-to-r from-amber-500 to-orange-600 rounded-lg font-bold text-sm disabled:opacity-50"
+                        >
+                          {t('attributes.save')}
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <ColorPicker
+                      value={option.color}
+                      onChange={(color) => updateOption(option, t('attributes.recolouring', { label: option.label }), { color })}
+                      disabled={saving}
+                    />
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className={`px-4 py-2 rounded-full text-sm font-bold ${optionColorClasses(option.color).badge}`}>
+                      {option.label}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <button
+                      onClick={() => updateOption(
+                        option,
+                        t(option.archived_at ? 'attributes.restoring' : 'attributes.archiving', { label: option.label }),
+                        { archived: !option.archived_at }
+                      )}
+                      disabled={saving}
+                      className="px-4 py-2 bg-gray-700 rounded-lg font-bold text-sm hover:bg-gray-600 transition-all duration-300 disabled:opacity-50"
+                    >
+                      {option.archived_at ? t('attributes.restore') : t('attributes.archive')}
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mt-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-400 mb-2">{t('attributes.value')}</label>
+          <input
+            value={newOption.value}
+            onChange={(e) => setNewOption(prev => ({ ...prev, value: e.target.value }))}
+            placeholder={t('attributes.valuePlaceholder')}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-400 mb-2">{t('attributes.newLabel')}</label>
+          <input
+            value={newOption.label}
+            onChange={(e) => setNewOption(prev => ({ ...prev, label: e.target.value }))}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-400 mb-2">{t('attributes.color')}</label>
+          <div className="py-2">
+            <ColorPicker value={newOption.color} onChange={(color) => setNewOption(prev => ({ ...prev, color }))} />
+          </div>
+        </div>
+        <button
+          onClick={add}
+          disabled={!newOption.value.trim() || saving}
+          className="px-6 py-2 bg-gradient-to-r from-amber-500 to-orange-600 rounded-xl font-bold transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('attributes.add')}
+        </button>
+      </div>
+
+      {status.state !== 'idle' && (
+        <p
+          className={`mt-4 ${
+            status.state === 'error' ? 'text-red-400' : status.state === 'saving' ? 'text-amber-400 animate-pulse' : 'text-green-400'
+          }`}
+        >
+          {status.message}
+        </p>
+      )}
+    </section>
+  );
+}
+
+export default function AttributesPage() {
+  const currentAdmin = useCurrentAdmin();
+  const { t } = useI18n();
+  const router = useRouter();
+
+  if (currentAdmin && !can(currentAdmin, 'manageAttributes')) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black text-white flex items-center justify-center">
+        <p className="text-2xl text-gray-400">{t('attributes.ownersOnly')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black text-white p-8">
+      <div className="max-w-7xl mx-auto">
+        <button
+          onClick={() => router.push('/dashboard')}
+          className="mb-8 px-6 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
+        >
+          {t('common.backToDashboard')}
+        </button>
+
+        <h1 className="text-4xl font-bold text-center mb-6 bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+          {t('attributes.title')}
+        </h1>
+        <p className="text-center text-gray-400">
+          {t('attributes.hint')}
+        </p>
+
+        {ATTRIBUTES.map(a => (
+          <AttributeSection key={a.attribute} attribute={a.attribute} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+'use client';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import {
+  AUDIT_ACTIONS,
+  AuditEntry,
+  AuditFilters,
+  EMPTY_AUDIT_FILTERS,
+  applyAuditFilters,
+  auditFiltersToParams,
+} from '@/lib/audit';
+import { EXPORT_FORMATS } from '@/lib/export';
+import { can } from '@/lib/roles';
+import { supabase } from '@/lib/supabase/client';
+import { useCurrentAdmin } from '@/lib/use-current-admin';
+import { useI18n } from '@/lib/use-i18n';
+
+const PAGE_SIZE = 50;
+
+async function fetchAuditEntries(filters: AuditFilters, page: number) {
+  const query = applyAuditFilters(supabase.from('moderation_audit_log').select('*', { count: 'exact' }), filters)
+    .order('created_at', { ascending: false })
+    .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+
+  const { data, error, count } = await query;
+  if (error) {
+    console.error('Error loading audit log:', error);
+    return { entries: [], total: 0 };
+  }
+  return { entries: (data || []) as AuditEntry[], total: count || 0 };
+}
+
+export default function AuditLogPage() {
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_AUDIT_FILTERS);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const currentAdmin = useCurrentAdmin();
+  const { t, formatDateTime } = useI18n();
+  const router = useRouter();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAuditEntries(filters, currentPage).then(({ entries, total }) => {
+      if (cancelled) return;
+      setEntries(entries);
+      setTotal(total);
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [filters, currentPage]);
+
+  function updateFilter(key: keyof AuditFilters, value: string) {
+    setIsLoading(true);
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setCurrentPage(1);
+  }
+
+  const totalPages = Math.ceil(total / PAGE_SIZE);
+  const inputClass = 'px-4 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-amber-500';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black text-white p-8">
+      <div className="max-w-7xl mx-auto">
+        <button
+          onClick={() => router.push('/dashboard')}
+          className="mb-8 px-6 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
+        >
+          {t('common.backToDashboard')}
+        </button>
+
+        <h1 className="text-4xl font-bold text-center mb-6 bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+          {t('audit.title')}
+        </h1>
+
+        <div className="flex flex-wrap justify-center gap-6 mb-8">
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">{t('audit.admin')}</label>
+            <input
+              value={filters.admin}
+              onChange={(e) => updateFilter('admin', e.target.value)}
+              placeholder={t('audit.adminPlaceholder')}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">{t('audit.action')}</label>
+            <select value={filters.action} onChange={(e) => updateFilter('action', e.target.value)} className={inputClass}>
+              <option value="all">{t('audit.all')}</option>
+              {AUDIT_ACTIONS.map(a => (
+                <option key={a.action} value={a.action}>{t(`auditAction.${a.action}`)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">{t('audit.userId')}</label>
+            <input
+              value={filters.userId}
+              onChange={(e) => updateFilter('userId', e.target.value)}
+              placeholder={t('audit.userIdPlaceholder')}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">{t('common.from')}</label>
+            <input type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">{t('common.to')}</label>
+            <input type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} className={inputClass} />
+          </div>
+          {can(currentAdmin, 'export') && (
+            <div className="flex items-end gap-2">
+              {EXPORT_FORMATS.map(format => (
+                <a
+                  key={format}
+                  href={`/api/moderation/export/decisions?${auditFiltersToParams(filters)}&format=${format}`}
+                  download
+                  className="px-4 py-2 bg-gray-800/50 rounded-lg font-bold hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
+                >
+                  {t('common.exportFormat', { format: format.toUpperCase() })}
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl border border-gray-600/50 overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="text-gray-400 text-sm uppercase">
+              <tr>
+                <th className="px-6 py-4">{t('audit.when')}</th>
+                <th className="px-6 py-4">{t('audit.admin')}</th>
+                <th className="px-6 py-4">{t('audit.action')}</th>
+                <th className="px-6 py-4">{t('audit.user')}</th>
+                <th className="px-6 py-4">{t('audit.change')}</th>
+                <th className="px-6 py-4">{t('audit.reason')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <tr key={entry.id} className="border-t border-gray-700/50">
+                  <td className="px-6 py-4 text-gray-400 whitespace-nowrap">{formatDateTime(entry.created_at)}</td>
+                  <td className="px-6 py-4 text-amber-300">{entry.admin_email || entry.admin_id}</td>
+                  <td className="px-6 py-4 font-bold">{t(`auditAction.${entry.action}`)}</td>
+                  <td className="px-6 py-4">
+                    <button
+                      onClick={() => updateFilter('userId', entry.target_user_id)}
+                      className="font-mono text-sm text-gray-300 hover:text-amber-400"
+                      title={t('audit.onlyThisUser')}
+                    >
+                      {entry.target_user_id}
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 text-gray-300">
+                    {entry.old_value ?? '—'} → {entry.new_value ?? '—'}
+                  </td>
+                  <td className="px-6 py-4 text-gray-400">{entry.reason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {isLoading && <p className="text-center text-amber-400 animate-pulse mt-8">{t('common.loading')}</p>}
+
+        {!isLoading && entries.length === 0 && (
+          <div className="text-center text-3xl text-gray-400 mt-20">
+            {t('audit.empty')}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex justify-center items-center gap-4 mt-12">
+            <button
+              onClick={() => { setIsLoading(true); setCurrentPage(prev => Math.max(1, prev - 1)); }}
+              disabled={currentPage === 1}
+              className="px-6 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('grid.previous')}
+            </button>
+            <span className="text-xl text-gray-400">
+              {t('grid.page', { page: currentPage, total: totalPages })}
+            </span>
+            <button
+              onClick={() => { setIsLoading(true); setCurrentPage(prev => Math.min(totalPages, prev + 1)); }}
+              disabled={currentPage === totalPages}
+              className="px-6 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('grid.next')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,123 +1,382 @@
 'use client';
-import { createClient } from '@supabase/supabase-js';
-import { useRouter } from 'next/navigation';
-import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Suspense, useEffect, useState } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
+import { findOption, optionBadgeClass, optionColorClasses } from '@/lib/attribute-options';
+import type { MessageKey } from '@/lib/i18n';
+import { moderationRequest } from '@/lib/moderation-api';
+import { can } from '@/lib/roles';
+import { REJECTION_REASONS, Rejection, RejectionReasonCode, isCompleteRejection } from '@/lib/rejection-reasons';
+import {
+  ShortcutAction,
+  ShortcutBindings,
+  DEFAULT_SHORTCUTS,
+  isTypingTarget,
+  keyLabel,
+  loadShortcuts,
+  saveShortcuts,
+  shortcutFor,
+} from '@/lib/shortcuts';
+import { supabase } from '@/lib/supabase/client';
+import { SuspensionSummary, summarizeSuspensions } from '@/lib/suspensions';
+import { Escalation, QueueStats, User } from '@/lib/types';
+import { useActionQueue } from '@/lib/use-action-queue';
+import { useAttributeOptions } from '@/lib/use-attribute-options';
+import { useCurrentAdmin } from '@/lib/use-current-admin';
+import { useI18n } from '@/lib/use-i18n';
+import { UserFilters, applyUserFilters, parseUserFilters, userFiltersToParams } from '@/lib/user-filters';
+import { VERIFICATION_PHOTO_REFRESH_MS } from '@/lib/verification-photo-links';
+import LanguageSwitcher from '../_components/LanguageSwitcher';
+import ActionQueuePanel from './_components/ActionQueuePanel';
+import DuplicatePanel from './_components/DuplicatePanel';
+import EscalateDialog from './_components/EscalateDialog';
+import ExportDialog from './_components/ExportDialog';
+import ImageWithLoader from './_components/ImageWithLoader';
+import PhotoCompareViewer from './_components/PhotoCompareViewer';
+import PhotoQueueView from './_components/PhotoQueueView';
+import QueueOrderPanel from './_components/QueueOrderPanel';
+import ReportQueueView from './_components/ReportQueueView';
+import ShortcutCheatSheet from './_components/ShortcutCheatSheet';
+import SuspensionBadge from './_components/SuspensionBadge';
 
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
-type User = {
-  id: string;
-  name: string | null;
-  age: number | null;
-  gender: string | null;
-  country: string | null;
-  image_urls: string[] | null;
-  verification_photo_url: string | null;
-  is_verified: 'verified' | 'unverified' | 'pending' | null;
-  created_at: string;
+type PendingUser = User & {
+  verification_photos?: string[]; // Signed URLs, loaded lazily once the user is in the current batch
+  verification_photos_signed_at?: number; // When they were signed; cleared to have them signed again
+  escalation?: Escalation; // Set when reviewing the escalated queue
 };
 
-type PendingUser = User & {
-  verification_photos: string[]; // Array of all photos in the folder
+type ClaimResponse = QueueStats & {
+  users: User[];
+};
+
+type EscalationsResponse = {
+  escalations: (Escalation & { user: User })[];
+};
+
+type BulkGenderResponse = {
+  changed: { id: string; previous: string | null }[];
+  unchanged: number;
+  conflicted: { id: string; current: string | null }[]; // Changed by someone else meanwhile, so left alone
+  missing: string[];
+};
+
+type DecisionRecord = {
+  user: PendingUser;
+  decision: 'verified' | 'rejected';
+  decidedAt: string;
+  actionId?: string; // Queued write for decisions made in this session
+  countedIn?: 'pending' | 'escalated'; // The queue count this decision took the user out of
 };
 
-type ImageLoaderProps = {
-  src: string;
-  alt: string;
-  className: string;
+type RejectionPickerProps = {
+  userName: string;
+  onConfirm: (rejection: Rejection) => void;
+  onCancel: () => void;
 };
 
-function ImageWithLoader({ src, alt, className }: ImageLoaderProps) {
-  const [isLoading, setIsLoading] = useState(true);
-  const [hasError, setHasError] = useState(false);
+function RejectionReasonPicker({ userName, onConfirm, onCancel }: RejectionPickerProps) {
+  const [reason, setReason] = useState<RejectionReasonCode | null>(null);
+  const [note, setNote] = useState('');
+  const { t } = useI18n();
+  const rejection = { reason: reason ?? undefined, note: note.trim() || null };
+
+  // 1–6 pick a reason, Enter confirms (Ctrl+Enter from the note), Escape cancels
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      const typing = isTypingTarget(e.target);
+      if (e.key === 'Escape') {
+        onCancel();
+      } else if (e.key === 'Enter' && (!typing || e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        if (isCompleteRejection(rejection)) onConfirm(rejection);
+      } else if (!typing && /^[1-9]$/.test(e.key)) {
+        const picked = REJECTION_REASONS[Number(e.key) - 1];
+        if (picked) setReason(picked.code);
+      }
+    }
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
 
   return (
-    <div className={`relative ${className}`}>
-      {isLoading && !hasError && (
-        <div className="absolute inset-0 flex items-center justify-center bg-gray-800 rounded">
-          <div className="w-4 h-4 border-2 border-amber-400 border-t-transparent rounded-full animate-spin"></div>
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-8"
+      onClick={onCancel}
+    >
+      <motion.div
+        initial={{ scale: 0.95 }}
+        animate={{ scale: 1 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-xl bg-gray-900 border border-gray-600 rounded-2xl p-8 space-y-6"
+      >
+        <h3 className="text-3xl font-bold text-red-400 text-center">{t('reject.title', { name: userName })}</h3>
+        <p className="text-gray-400 text-center">{t('reject.hint')}</p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {REJECTION_REASONS.map((r) => (
+            <button
+              key={r.code}
+              onClick={() => setReason(r.code)}
+              className={`px-4 py-3 rounded-xl font-bold text-left transition-all duration-300 border ${
+                reason === r.code
+                  ? 'bg-red-600 border-red-400 text-white'
+                  : 'bg-gray-800 border-gray-600 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              <span className="mr-2 text-gray-400 font-mono">{REJECTION_REASONS.indexOf(r) + 1}</span>
+              {t(`rejectionReason.${r.code}`)}
+            </button>
+          ))}
         </div>
-      )}
-      <img
-        src={src}
-        alt={alt}
-        className={`w-full h-full object-cover transition-transform ${hasError ? 'hidden' : ''}`}
-        onLoad={() => setIsLoading(false)}
-        onError={() => {
-          setIsLoading(false);
-          setHasError(true);
-        }}
-      />
-      {hasError && (
-        <div className="absolute inset-0 flex items-center justify-center bg-gray-800 text-gray-500 text-xs">
-          Failed to load
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder={t(reason === 'other' ? 'reject.notePlaceholderRequired' : 'reject.notePlaceholder')}
+          rows={3}
+          className="w-full px-4 py-3 bg-gray-800 border border-gray-600 rounded-xl text-white focus:outline-none focus:border-amber-500"
+        />
+        <div className="flex justify-end gap-4">
+          <button
+            onClick={onCancel}
+            className="px-6 py-3 bg-gray-800/50 rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => isCompleteRejection(rejection) && onConfirm(rejection)}
+            disabled={!isCompleteRejection(rejection)}
+            className="px-6 py-3 bg-gradient-to-r from-red-600 to-red-700 rounded-xl font-bold text-lg transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('reject.confirm')}
+          </button>
         </div>
-      )}
-    </div>
+      </motion.div>
+    </motion.div>
   );
 }
 
+const PHOTO_REQUEST_LIMIT = 50; // Matches the photos route; the rest are requested on the next pass
+
+// Users the server won't sign photos for come back with an empty list, so they aren't requested again
+async function fetchVerificationPhotos(userIds: string[]): Promise<Record<string, string[]>> {
+  const requested = userIds.slice(0, PHOTO_REQUEST_LIMIT);
+  const { data, error } = await moderationRequest<{ photos: Record<string, string[]> }>('photos', { userIds: requested });
+  if (error || !data) console.error('Error loading verification photos:', error);
+  return Object.fromEntries(requested.map(id => [id, data?.photos[id] ?? []]));
+}
+
+// Every user asked about gets a summary, even an empty one, so they aren't asked about again
+async function fetchSuspensionSummaries(userIds: string[]): Promise<Record<string, SuspensionSummary>> {
+  const { data, error } = await supabase
+    .from('user_suspensions')
+    .select('user_id, starts_at, ends_at, lifted_at')
+    .in('user_id', userIds);
+  if (error) console.error('Error loading suspensions:', error);
+  return Object.fromEntries(userIds.map(id => [id, summarizeSuspensions((data || []).filter(s => s.user_id === id))]));
+}
+
 const PAGE_SIZE = 20; // Load 20 users at a time
 const LOAD_MORE_THRESHOLD = 3; // Load next batch when ≤3 users remain in queue
+const COUNT_REFRESH_DEBOUNCE = 500; // Bursts of realtime changes trigger one count refresh
+const CLAIM_RENEW_INTERVAL = 60000; // Well inside the server's claim lease
+const UNDO_LIMIT = 10; // Decisions kept on the undo stack for this session
+
+const MODE_SHORTCUTS: Record<'user-verification' | 'gender-verification', ShortcutAction[]> = {
+  'user-verification': ['approve', 'reject', 'skip', 'escalate', 'undo', 'prevPhoto', 'nextPhoto', 'openPhoto', 'setOption1', 'setOption2', 'setOption3', 'clearOption', 'back', 'help'],
+  'gender-verification': ['prevCard', 'nextCard', 'cardUp', 'cardDown', 'toggleSelect', 'setOption1', 'setOption2', 'setOption3', 'clearOption', 'back', 'help'],
+};
+
+async function fetchGenderPage(filters: UserFilters) {
+  const { data, error, count } = await applyUserFilters(
+    supabase.from('users').select('*', { count: 'exact' }),
+    filters
+  )
+    .order('created_at', { ascending: filters.sort === 'asc' })
+    .range((filters.page - 1) * PAGE_SIZE, filters.page * PAGE_SIZE - 1);
+
+  if (error) {
+    console.error('Error loading users:', error);
+    return { users: [], total: 0 };
+  }
+  return { users: (data || []) as User[], total: count || 0 };
+}
+
+// Matches the responsive grid-cols of the gender grid, so up/down move by one row
+function gridColumns() {
+  if (window.innerWidth >= 1024) return 3;
+  if (window.innerWidth >= 768) return 2;
+  return 1;
+}
+
+const RECENT_DECISIONS_LIMIT = 20;
 
-export default function Dashboard() {
-  const [mode, setMode] = useState<'dashboard' | 'user-verification' | 'gender-verification'>('dashboard');
-  const [allPendingUsers, setAllPendingUsers] = useState<PendingUser[]>([]); // Full fetched list
+// Latest approve/reject per user from the audit log, for users that are still decided
+async function fetchRecentlyDecided(): Promise<DecisionRecord[]> {
+  const { data: entries, error } = await supabase
+    .from('moderation_audit_log')
+    .select('target_user_id, action, created_at')
+    .in('action', ['approve', 'reject'])
+    .order('created_at', { ascending: false })
+    .limit(RECENT_DECISIONS_LIMIT * 2);
+
+  if (error) {
+    console.error('Error loading recent decisions:', error);
+    return [];
+  }
+
+  const latest = new Map<string, { created_at: string }>();
+  entries?.forEach(e => {
+    if (!latest.has(e.target_user_id)) latest.set(e.target_user_id, e);
+  });
+
+  const { data: users } = await supabase
+    .from('users')
+    .select('*')
+    .in('id', [...latest.keys()].slice(0, RECENT_DECISIONS_LIMIT))
+    .in('is_verified', ['verified', 'unverified']);
+
+  return [...latest.entries()]
+    .map(([id, entry]) => {
+      const user = users?.find(u => u.id === id);
+      return user && {
+        user,
+        decision: user.is_verified === 'verified' ? 'verified' : 'rejected',
+        decidedAt: entry.created_at,
+      } as DecisionRecord;
+    })
+    .filter((r): r is DecisionRecord => !!r);
+}
+
+function Dashboard() {
+  const searchParams = useSearchParams();
+  const [mode, setMode] = useState<'dashboard' | 'user-verification' | 'gender-verification' | 'photo-moderation' | 'reports'>(() => {
+    const view = searchParams.get('view');
+    if (view === 'genders') return 'gender-verification';
+    if (view === 'photos') return 'photo-moderation';
+    return view === 'reports' ? 'reports' : 'dashboard';
+  });
   const [queueUsers, setQueueUsers] = useState<PendingUser[]>([]); // Current verification queue
   const [totalPending, setTotalPending] = useState(0);
+  const [claimedByOthers, setClaimedByOthers] = useState(0);
+  const [escalatedCount, setEscalatedCount] = useState(0);
+  const [queueSource, setQueueSource] = useState<'pending' | 'escalated'>('pending');
   const [totalUnknown, setTotalUnknown] = useState(0);
   const [hasMore, setHasMore] = useState(true);
   const [currentUser, setCurrentUser] = useState<PendingUser | null>(null);
   const [isUserVerifying, setIsUserVerifying] = useState(false);
-  const [genderUsers, setGenderUsers] = useState<User[]>([]);
-  const [filteredGenderUsers, setFilteredGenderUsers] = useState<User[]>([]);
-  const [sortOrder, setSortOrder] = useState<'desc' | 'asc'>('desc');
-  const [genderFilter, setGenderFilter] = useState<'all' | 'unknown' | 'Male' | 'Female'>('all');
-  const [currentPage, setCurrentPage] = useState(1);
+  const [genderUsers, setGenderUsers] = useState<User[]>([]); // Current page of the gender grid
+  const [genderTotal, setGenderTotal] = useState(0); // Users matching the grid filters
+  const [suspensionSummaries, setSuspensionSummaries] = useState<Record<string, SuspensionSummary>>({}); // For the badges, by user id
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set()); // Bulk selection on the grid page
+  const [lastSelectedIndex, setLastSelectedIndex] = useState<number | null>(null); // Anchor for shift-click ranges
+  const [bulkStatus, setBulkStatus] = useState<{ state: 'idle' | 'saving' | 'done' | 'error'; message: string }>({
+    state: 'idle',
+    message: '',
+  });
   const [adminName, setAdminName] = useState('Admin');
   const [genderUpdateStatus, setGenderUpdateStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [isEscalating, setIsEscalating] = useState(false);
+  const [undoStack, setUndoStack] = useState<DecisionRecord[]>([]); // Most recent first
+  const [recentlyDecided, setRecentlyDecided] = useState<DecisionRecord[]>([]);
+  const [shortcuts, setShortcuts] = useState<ShortcutBindings>(DEFAULT_SHORTCUTS);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const currentAdmin = useCurrentAdmin();
+  const actionQueue = useActionQueue(currentAdmin?.id ?? null);
+  const genderOptions = useAttributeOptions('gender');
+  const { t, formatDateTime, formatRelative, country } = useI18n();
+  const [photoFocus, setPhotoFocus] = useState({ userId: '', index: -1 }); // Keyboard-selected photo
+  const [compareFrom, setCompareFrom] = useState<{ userId: string; index: number } | null>(null); // Photo the comparison viewer opened on
+  const [focusedCard, setFocusedCard] = useState(0); // Keyboard-selected card on the gender grid page
   const router = useRouter();
 
   useEffect(() => {
     supabase.auth.getUser().then(({ data }) => {
       setAdminName(data.user?.user_metadata?.full_name || data.user?.email?.split('@')[0] || 'Admin');
     });
-    loadNextBatch(); // Initial load
+    loadQueueStats(); // Initial load
     fetchUnknownCount().then(setTotalUnknown);
-    const interval = setInterval(() => {
-      loadNextBatch(true); // Refresh periodically (append if needed)
-      fetchUnknownCount().then(setTotalUnknown);
-    }, 20000);
-    return () => clearInterval(interval);
+
+    // Counts are recomputed server-side, debounced, whenever a table behind them changes
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+    const refreshCounts = () => {
+      clearTimeout(refreshTimer);
+      refreshTimer = setTimeout(() => {
+        loadQueueStats();
+        fetchUnknownCount().then(setTotalUnknown);
+      }, COUNT_REFRESH_DEBOUNCE);
+    };
+
+    const channel = supabase
+      .channel('moderation-queue')
+      .on<User>('postgres_changes', { event: '*', schema: 'public', table: 'users' }, (payload) => {
+        refreshCounts();
+        if (payload.eventType === 'DELETE') {
+          const id = payload.old.id;
+          setQueueUsers(prev => prev.filter(u => u.id !== id));
+          setGenderUsers(prev => prev.filter(u => u.id !== id));
+          return;
+        }
+
+        // Users decided elsewhere drop out of the queue; everything else is patched in place
+        const user = payload.new;
+        setQueueUsers(prev =>
+          user.is_verified === 'pending'
+            ? prev.map(u => (u.id === user.id ? { ...u, ...user } : u))
+            : prev.filter(u => u.id !== user.id)
+        );
+        setCurrentUser(prev => (prev?.id === user.id ? { ...prev, ...user } : prev));
+        setGenderUsers(prev => prev.map(u => (u.id === user.id ? { ...u, ...user } : u)));
+        // A new or resubmitted pending user may be claimable
+        if (user.is_verified === 'pending') setHasMore(true);
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'verification_claims' }, refreshCounts)
+      .on<{ user_id: string }>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'verification_escalations' },
+        (payload) => {
+          refreshCounts();
+          // Escalated by someone else: no longer part of the normal pending queue
+          setQueueUsers(prev => prev.filter(u => u.id !== payload.new.user_id || u.escalation));
+        }
+      )
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'verification_escalations' }, refreshCounts)
+      .subscribe();
+
+    return () => {
+      clearTimeout(refreshTimer);
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  useEffect(() => {
+    setShortcuts(loadShortcuts());
   }, []);
 
   useEffect(() => {
-    if (mode === 'gender-verification') {
-      fetchAllUsers().then(setGenderUsers);
-      setCurrentPage(1);
+    if (mode === 'dashboard') {
+      fetchRecentlyDecided().then(setRecentlyDecided);
     }
   }, [mode]);
 
+  // Grid filters live in the URL (?view=genders&...) so a filtered view can be shared
+  const gridFilters = parseUserFilters(searchParams);
+  const gridQuery = searchParams.toString();
+
   useEffect(() => {
-    let filtered = [...genderUsers];
-    if (genderFilter !== 'all') {
-      filtered = filtered.filter(u => {
-        if (genderFilter === 'unknown') return !u.gender;
-        return u.gender === genderFilter;
-      });
-    }
-    if (sortOrder === 'asc') {
-      filtered.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
-    } else {
-      filtered.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-    }
-    setFilteredGenderUsers(filtered);
-    setCurrentPage(1);
-  }, [genderUsers, genderFilter, sortOrder]);
+    if (mode !== 'gender-verification') return;
+    let cancelled = false;
+    fetchGenderPage(parseUserFilters(new URLSearchParams(gridQuery))).then(({ users, total }) => {
+      if (cancelled) return;
+      setGenderUsers(users);
+      setGenderTotal(total);
+    });
+    return () => { cancelled = true; };
+  }, [mode, gridQuery]);
 
   async function fetchUnknownCount() {
     const { count } = await supabase
@@ -127,141 +386,536 @@ export default function Dashboard() {
     return count || 0;
   }
 
-  async function fetchAllUsers() {
-    const { data } = await supabase
-      .from('users')
-      .select('*')
-      .order('created_at', { ascending: false });
-    return data || [];
+  async function loadQueueStats() {
+    const { data, error } = await moderationRequest<QueueStats>('claim', undefined, 'GET');
+    if (error || !data) {
+      console.error('Error loading queue stats:', error);
+      return;
+    }
+    setTotalPending(data.totalPending);
+    setClaimedByOthers(data.claimedByOthers);
+    setEscalatedCount(data.escalated);
   }
 
-  async function fetchPendingUsers() {
-    const { data, error, count } = await supabase
-      .from('users')
-      .select('*', { count: 'exact' })
-      .eq('is_verified', 'pending')
-      .order('created_at', { ascending: false });
+  // Renews this admin's claims and tops them up to a full batch; nobody else is offered these users
+  async function loadNextBatch() {
+    const { data, error } = await moderationRequest<ClaimResponse>('claim', { limit: PAGE_SIZE });
+    if (error || !data) {
+      console.error('Error claiming users:', error);
+      setHasMore(false);
+      return [];
+    }
 
-    if (error) {
-      console.error('Error loading pending users:', error);
-      return { users: [], total: 0 };
+    const claimed: PendingUser[] = data.users;
+    setTotalPending(data.totalPending);
+    setClaimedByOthers(data.claimedByOthers);
+    setEscalatedCount(data.escalated);
+
+    // Keep the local order (undo puts users back at the front) and append newly claimed users
+    setQueueUsers(prev => {
+      const claimedIds = new Set(claimed.map(u => u.id));
+      const kept = prev.filter(u => claimedIds.has(u.id));
+      const keptIds = new Set(kept.map(u => u.id));
+      return [...kept, ...claimed.filter(u => !keptIds.has(u.id))];
+    });
+    setHasMore(data.totalPending - data.claimedByOthers > claimed.length);
+    return claimed;
+  }
+
+  // Auto-load more when queue is running low
+  useEffect(() => {
+    if (isUserVerifying && queueSource === 'pending' && queueUsers.length <= LOAD_MORE_THRESHOLD && hasMore) {
+      loadNextBatch();
     }
+  }, [queueUsers.length, isUserVerifying, queueSource, hasMore]);
 
-    const usersWithPhotos = await Promise.all(
-      (data || []).map(async (user: User) => {
-        const { data: files } = await supabase.storage
-          .from('verificationphotos')
-          .list(user.id, { limit: 100 });
-        const photoUrls = files
-          ?.filter(f => f.name.endsWith('.jpg') || f.name.endsWith('.png') || f.name.endsWith('.jpeg'))
-          .map(f => supabase.storage.from('verificationphotos').getPublicUrl(`${user.id}/${f.name}`).data.publicUrl) || [];
-        return { ...user, verification_photos: photoUrls } as PendingUser;
-      })
+  // Keep claims alive while verifying so they don't lapse back to the pool
+  useEffect(() => {
+    if (!isUserVerifying || queueSource !== 'pending') return;
+    const interval = setInterval(() => loadNextBatch(), CLAIM_RENEW_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isUserVerifying, queueSource]);
+
+  // Verification photos are only listed and signed for users actually on screen or in the batch
+  const missingPhotoIds = [...new Set(
+    [currentUser, ...queueUsers].filter(u => u && !u.verification_photos_signed_at).map(u => u!.id)
+  )].join(',');
+
+  useEffect(() => {
+    if (!missingPhotoIds) return;
+    fetchVerificationPhotos(missingPhotoIds.split(',')).then(photos => {
+      const signedAt = Date.now();
+      const withPhotos = (u: PendingUser) => (
+        photos[u.id] ? { ...u, verification_photos: photos[u.id], verification_photos_signed_at: signedAt } : u
+      );
+      setQueueUsers(prev => prev.map(withPhotos));
+      setCurrentUser(prev => prev && withPhotos(prev));
+    });
+  }, [missingPhotoIds]);
+
+  // The signed links are short-lived: the user on screen gets theirs signed again before they lapse, straight away
+  // if they waited in the batch longer than that. The old links stay up until the new ones arrive.
+  const currentUserId = currentUser?.id;
+  const currentPhotosSignedAt = currentUser?.verification_photos_signed_at;
+  useEffect(() => {
+    if (!currentUserId || !currentPhotosSignedAt) return;
+    const timeout = setTimeout(() => {
+      const unsigned = (u: PendingUser) => (u.id === currentUserId ? { ...u, verification_photos_signed_at: undefined } : u);
+      setQueueUsers(prev => prev.map(unsigned));
+      setCurrentUser(prev => prev && unsigned(prev));
+    }, Math.max(0, currentPhotosSignedAt + VERIFICATION_PHOTO_REFRESH_MS - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [currentUserId, currentPhotosSignedAt]);
+
+  const missingSuspensionIds = [...new Set(
+    [currentUser, ...queueUsers, ...genderUsers].filter(u => u && !suspensionSummaries[u.id]).map(u => u!.id)
+  )].join(',');
+
+  useEffect(() => {
+    if (!missingSuspensionIds) return;
+    fetchSuspensionSummaries(missingSuspensionIds.split(',')).then(summaries => {
+      setSuspensionSummaries(prev => ({ ...prev, ...summaries }));
+    });
+  }, [missingSuspensionIds]);
+
+  async function startVerification() {
+    const claimed = await loadNextBatch();
+    setQueueSource('pending');
+    setIsUserVerifying(true);
+    setCurrentUser(claimed[0] ?? null);
+    setMode('user-verification');
+  }
+
+  // Reviews users that moderators set aside, oldest escalation first
+  async function startEscalationReview() {
+    const { data, error } = await moderationRequest<EscalationsResponse>('escalations', undefined, 'GET');
+    if (error || !data) {
+      console.error('Error loading escalations:', error);
+      return;
+    }
+
+    const users: PendingUser[] = data.escalations.map(({ user, ...escalation }) => ({ ...user, escalation }));
+    setQueueSource('escalated');
+    setQueueUsers(users);
+    setEscalatedCount(users.length);
+    setHasMore(false);
+    setIsUserVerifying(true);
+    setCurrentUser(users[0] ?? null);
+    setMode('user-verification');
+  }
+
+  function stopVerification() {
+    setIsUserVerifying(false);
+    setIsRejecting(false);
+    setIsEscalating(false);
+    setCurrentUser(null);
+    setQueueUsers([]);
+    setMode('dashboard');
+    // Hand unreviewed users back so other moderators can pick them up
+    moderationRequest('claim', undefined, 'DELETE').then(loadQueueStats);
+  }
+
+  function handleDecision(decision: 'verified' | 'rejected', rejection?: Rejection) {
+    if (!currentUser) return;
+    // Rejects must carry a reason so the user can be told what to fix
+    if (decision === 'rejected' && !rejection) return;
+
+    // Saved in the background so the next user shows straight away; failures and conflicts show in the queue panel
+    const { id: actionId } = actionQueue.enqueue(decision === 'verified' ? 'approve' : 'reject', currentUser, {
+      decision,
+      rejection,
+      expected: currentUser.is_verified,
+    });
+
+    // Re-opened users, even when an undo put them in the session queue, are decided and don't count towards pending
+    const wasQueued = queueUsers.some(u => u.id === currentUser.id) && currentUser.is_verified === 'pending';
+    const countedIn = wasQueued ? queueSource : undefined;
+
+    setIsRejecting(false);
+    setUndoStack(prev =>
+      [{ user: currentUser, decision, decidedAt: new Date().toISOString(), actionId, countedIn }, ...prev].slice(0, UNDO_LIMIT)
     );
 
-    return { users: usersWithPhotos, total: count || 0 };
+    // Update total count optimistically
+    if (countedIn) {
+      const setSourceCount = countedIn === 'escalated' ? setEscalatedCount : setTotalPending;
+      setSourceCount(prev => Math.max(0, prev - 1));
+    }
+
+    advancePast(currentUser);
   }
 
-  async function loadNextBatch(refresh = false) {
-    const { users, total } = await fetchPendingUsers();
-    setTotalPending(total);
+  // Resolves to the error for the escalate dialog, which stays open when escalating failed
+  async function handleEscalate(note: string) {
+    if (!currentUser) return null;
 
-    if (refresh) {
-      // On periodic refresh: replace full list, but keep current queue intact if verifying
-      setAllPendingUsers(users);
-      if (!isUserVerifying) {
-        const nextBatch = users.slice(0, PAGE_SIZE);
-        setQueueUsers(nextBatch);
-        setHasMore(users.length > PAGE_SIZE);
-      }
+    const { error } = await moderationRequest('escalations', { userId: currentUser.id, note });
+    if (error) {
+      console.error('Error escalating user:', error);
+      return error;
+    }
+
+    setIsEscalating(false);
+    setTotalPending(prev => Math.max(0, prev - 1));
+    setEscalatedCount(prev => prev + 1);
+    advancePast(currentUser);
+    return null;
+  }
+
+  // Removes a user from the session queue and shows the next one
+  function advancePast(user: PendingUser) {
+    const remainingQueue = queueUsers.filter(u => u.id !== user.id);
+    setQueueUsers(remainingQueue);
+
+    if (remainingQueue.length > 0) {
+      setCurrentUser(remainingQueue[0]);
     } else {
-      // Normal load/append
-      setAllPendingUsers(users);
-      const start = queueUsers.length;
-      const nextBatch = users.slice(start, start + PAGE_SIZE);
-      setQueueUsers(prev => [...prev, ...nextBatch]);
-      setHasMore(start + nextBatch.length < users.length);
+      setCurrentUser(null);
+      setIsUserVerifying(false);
+      setMode('dashboard');
     }
   }
 
-  // Auto-load more when queue is running low
-  useEffect(() => {
-    if (isUserVerifying && queueUsers.length <= LOAD_MORE_THRESHOLD && hasMore) {
-      loadNextBatch();
+  // Moves the current user to the back of this session's queue; they stay claimed
+  function handleSkip() {
+    if (!currentUser) return;
+    const rest = queueUsers.filter(u => u.id !== currentUser.id);
+    if (rest.length === 0) return;
+    const wasQueued = rest.length < queueUsers.length;
+    setQueueUsers(wasQueued ? [...rest, currentUser] : rest);
+    setCurrentUser(rest[0]);
+  }
+
+  async function handleUndo() {
+    const [last, ...rest] = undoStack;
+    if (!last) return;
+
+    // A decision that hasn't been sent yet is just dropped; one that is on its way has to land before it can be undone
+    const cancelled = !!last.actionId && actionQueue.cancel(last.actionId);
+    if (!cancelled) {
+      const outcome = last.actionId ? await actionQueue.outcomeOf(last.actionId) : null;
+      if (outcome && outcome.state !== 'done') {
+        // Never saved, and the queue panel already says why
+        setUndoStack(rest);
+        return;
+      }
+      const { error } = await moderationRequest('undo', { userId: last.user.id });
+      if (error) {
+        console.error('Error undoing decision:', error);
+        return;
+      }
     }
-  }, [queueUsers.length, isUserVerifying, hasMore]);
 
-  function startVerification() {
-    if (queueUsers.length === 0) return;
+    const restored: PendingUser = cancelled
+      ? last.user
+      : { ...last.user, is_verified: 'pending', rejection_reason: null, rejection_note: null };
+    setUndoStack(rest);
+    setQueueUsers(prev => [restored, ...prev.filter(u => u.id !== restored.id)]);
+    // A dropped decision puts the user back where they were, so only the count it took them out of comes back.
+    // A sent one is undone to pending on the server, which makes the user pending whatever they were before.
+    if (!cancelled || last.countedIn === 'pending') setTotalPending(prev => prev + 1);
+    if (cancelled && last.countedIn === 'escalated') setEscalatedCount(prev => prev + 1);
+    setCurrentUser(restored);
+    setIsRejecting(false);
+    setIsEscalating(false);
     setIsUserVerifying(true);
-    setCurrentUser(queueUsers[0]);
+    setMode('user-verification');
   }
 
-  function handleDecision(decision: 'verified' | 'rejected') {
-    if (!currentUser) return;
+  function reopenUser(record: DecisionRecord) {
+    setCurrentUser(record.user);
+    setIsRejecting(false);
+    setIsEscalating(false);
+    setIsUserVerifying(true);
+    setMode('user-verification');
+  }
 
-    supabase
-      .from('users')
-      .update({ is_verified: decision === 'verified' ? 'verified' : 'unverified' })
-      .eq('id', currentUser.id)
-      .then(() => {
-        // Remove from queue
-        const remainingQueue = queueUsers.filter(u => u.id !== currentUser.id);
-        setQueueUsers(remainingQueue);
-
-        // Update total count optimistically
-        setTotalPending(prev => Math.max(0, prev - 1));
-
-        if (remainingQueue.length > 0) {
-          setCurrentUser(remainingQueue[0]);
-        } else {
-          setCurrentUser(null);
-          setIsUserVerifying(false);
-          setMode('dashboard');
-        }
-      });
+  // Keeps the "without gender" count right when a user gains or loses a value
+  function adjustUnknownCount(previous: string | null | undefined, next: string | null) {
+    if (!previous && next) setTotalUnknown(prev => Math.max(0, prev - 1));
+    if (previous && !next) setTotalUnknown(prev => prev + 1);
   }
 
-  async function handleGenderChange(newGender: string) {
+  async function handleGenderChange(newGender: string | null) {
     if (!currentUser) return;
+    const user = currentUser;
     setGenderUpdateStatus('saving');
 
-    const { error } = await supabase
-      .from('users')
-      .update({ gender: newGender })
-      .eq('id', currentUser.id);
+    const { outcome } = actionQueue.enqueue('gender', user, { gender: newGender, expected: user.gender });
+    const { state, error } = await outcome;
 
-    if (error) {
+    if (state !== 'done') {
       console.error('Error updating gender:', error);
       setGenderUpdateStatus('error');
       setTimeout(() => setGenderUpdateStatus('idle'), 3000);
     } else {
-      setCurrentUser({ ...currentUser, gender: newGender });
+      adjustUnknownCount(user.gender, newGender);
+      // The moderator may have moved on while retries ran
+      setCurrentUser(prev => (prev?.id === user.id ? { ...prev, gender: newGender } : prev));
       setQueueUsers(prev =>
-        prev.map(u => (u.id === currentUser.id ? { ...u, gender: newGender } : u))
+        prev.map(u => (u.id === user.id ? { ...u, gender: newGender } : u))
       );
       setGenderUpdateStatus('success');
       setTimeout(() => setGenderUpdateStatus('idle'), 2000);
     }
   }
 
-  async function handleGenderUpdate(userId: string, newGender: 'Male' | 'Female') {
-    const { error } = await supabase
-      .from('users')
-      .update({ gender: newGender })
-      .eq('id', userId);
+  async function handleGenderUpdate(userId: string, newGender: string | null) {
+    const user = genderUsers.find(u => u.id === userId);
+    if (!user || user.gender === newGender) return;
+    const previous = user.gender;
 
-    if (error) {
+    const { outcome } = actionQueue.enqueue('gender', user, { gender: newGender, expected: previous });
+    const { state, error } = await outcome;
+
+    if (state !== 'done') {
       console.error('Error updating gender:', error);
     } else {
       setGenderUsers(prev =>
         prev.map(u => (u.id === userId ? { ...u, gender: newGender } : u))
       );
-      setTotalUnknown(prev => Math.max(0, prev - 1));
+      adjustUnknownCount(previous, newGender);
+    }
+  }
+
+  async function handleBulkGenderUpdate(newGender: string | null) {
+    const userIds = [...selectedIds];
+    if (userIds.length === 0) return;
+    setBulkStatus({ state: 'saving', message: t('bulk.updating', { count: userIds.length }) });
+
+    const { data, error } = await moderationRequest<BulkGenderResponse>('gender/bulk', { userIds, gender: newGender });
+    if (error || !data) {
+      setBulkStatus({ state: 'error', message: error || t('bulk.failed') });
+      return;
+    }
+
+    const changedIds = new Set(data.changed.map(c => c.id));
+    const conflicted = new Map(data.conflicted.map(c => [c.id, c.current]));
+    setGenderUsers(prev => prev.map(u => {
+      if (changedIds.has(u.id)) return { ...u, gender: newGender };
+      return conflicted.has(u.id) ? { ...u, gender: conflicted.get(u.id) ?? null } : u;
+    }));
+    const transitions = [
+      ...data.changed.map(c => ({ from: c.previous, to: newGender })),
+      ...data.conflicted.map(c => ({ from: genderUsers.find(u => u.id === c.id)?.gender ?? null, to: c.current })),
+    ];
+    const unknownDelta = transitions.reduce((delta, { from, to }) => {
+      if (!from && to) return delta - 1;
+      if (from && !to) return delta + 1;
+      return delta;
+    }, 0);
+    setTotalUnknown(prev => Math.max(0, prev + unknownDelta));
+    setSelectedIds(new Set());
+    setLastSelectedIndex(null);
+
+    const parts = [t('bulk.updated', { count: data.changed.length })];
+    if (data.unchanged) {
+      parts.push(newGender
+        ? t('bulk.unchanged', { count: data.unchanged, gender: genderLabel(newGender) })
+        : t('bulk.unchangedNoGender', { count: data.unchanged }));
+    }
+    if (data.conflicted.length) parts.push(t('bulk.conflicted', { count: data.conflicted.length }));
+    if (data.missing.length) parts.push(t('bulk.missing', { count: data.missing.length }));
+    setBulkStatus({ state: 'done', message: parts.join(' • ') });
+  }
+
+  // Shift-click selects everything between the last clicked card and this one
+  function toggleSelected(index: number, shiftKey: boolean) {
+    const user = genderUsers[index];
+    if (!user) return;
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (shiftKey && lastSelectedIndex !== null) {
+        const [start, end] = [Math.min(lastSelectedIndex, index), Math.max(lastSelectedIndex, index)];
+        genderUsers.slice(start, end + 1).forEach(u => next.add(u.id));
+      } else if (next.has(user.id)) {
+        next.delete(user.id);
+      } else {
+        next.add(user.id);
+      }
+      return next;
+    });
+    setLastSelectedIndex(index);
+  }
+
+  function toggleSelectAllOnPage() {
+    const allSelected = genderUsers.length > 0 && genderUsers.every(u => selectedIds.has(u.id));
+    setSelectedIds(allSelected ? new Set() : new Set(genderUsers.map(u => u.id)));
+    setLastSelectedIndex(null);
+  }
+
+  function updateShortcuts(bindings: ShortcutBindings) {
+    setShortcuts(bindings);
+    saveShortcuts(bindings);
+  }
+
+  // Archived options still label the users who have them, but can't be picked any more
+  const assignableGenders = genderOptions.filter(o => !o.archived_at);
+
+  function genderLabel(gender: string | null) {
+    const option = findOption(genderOptions, gender);
+    if (!option) return t('gender.unset');
+    return option.archived_at ? t('gender.archived', { label: option.label }) : option.label;
+  }
+
+  function rejectionLabel(code: RejectionReasonCode | null) {
+    return code ? t(`rejectionReason.${code}`) : t('common.unknown');
+  }
+
+  // Relative time, optionally inside a message's {time}, with the full local date on hover
+  function timeAgo(iso: string, key?: MessageKey) {
+    const relative = formatRelative(iso);
+    return <time dateTime={iso} title={formatDateTime(iso)}>{key ? t(key, { time: relative }) : relative}</time>;
+  }
+
+  const profilePhotos = currentUser?.image_urls ?? [];
+  const reviewPhotos = [...profilePhotos, ...(currentUser?.verification_photos ?? [])];
+  const focusedPhotoIndex = photoFocus.userId === currentUser?.id ? photoFocus.index : -1;
+  const isComparing = !!compareFrom && compareFrom.userId === currentUser?.id;
+  const canEscalate = currentUser?.is_verified === 'pending' && !currentUser.escalation;
+  const canChangeGender = can(currentAdmin, 'changeGender');
+
+  const currentPage = gridFilters.page;
+  const totalPages = Math.ceil(genderTotal / PAGE_SIZE);
+
+  function openGenderGrid() {
+    setMode('gender-verification');
+    router.replace('/dashboard?view=genders', { scroll: false });
+  }
+
+  function openPhotoQueue() {
+    setMode('photo-moderation');
+    router.replace('/dashboard?view=photos', { scroll: false });
+  }
+
+  function openReports() {
+    setMode('reports');
+    router.replace('/dashboard?view=reports', { scroll: false });
+  }
+
+  function closeToDashboard() {
+    setMode('dashboard');
+    router.replace('/dashboard', { scroll: false });
+  }
+
+  // Any filter change except paging goes back to the first page
+  function updateGridFilters(changes: Partial<UserFilters>) {
+    const params = userFiltersToParams({ ...gridFilters, page: 1, ...changes });
+    params.set('view', 'genders');
+    router.replace(`/dashboard?${params}`, { scroll: false });
+    setFocusedCard(0);
+    setSelectedIds(new Set());
+    setLastSelectedIndex(null);
+  }
+
+  function focusPhoto(index: number) {
+    if (!currentUser || reviewPhotos.length === 0) return;
+    const wrapped = (index + reviewPhotos.length) % reviewPhotos.length;
+    setPhotoFocus({ userId: currentUser.id, index: wrapped });
+    document.getElementById(`review-photo-${wrapped}`)?.scrollIntoView({ block: 'nearest', inline: 'center', behavior: 'smooth' });
+  }
+
+  // Opens the comparison viewer on a photo from reviewPhotos, pairing it with the first photo of the other kind
+  function openCompare(index: number) {
+    if (!currentUser || !reviewPhotos[index]) return;
+    setPhotoFocus({ userId: currentUser.id, index });
+    setCompareFrom({ userId: currentUser.id, index });
+  }
+
+  function focusCard(index: number) {
+    const clamped = Math.max(0, Math.min(genderUsers.length - 1, index));
+    setFocusedCard(clamped);
+    document.getElementById(`gender-card-${clamped}`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }
+
+  // The value a gender shortcut sets: null to clear, undefined if there is no option in that position
+  function shortcutGender(action: 'setOption1' | 'setOption2' | 'setOption3' | 'clearOption') {
+    if (action === 'clearOption') return null;
+    return assignableGenders[Number(action.slice(-1)) - 1]?.value;
+  }
+
+  function runShortcut(action: ShortcutAction) {
+    if (mode === 'user-verification') {
+      switch (action) {
+        case 'approve': if (currentUser) handleDecision('verified'); break;
+        case 'reject': if (currentUser) setIsRejecting(true); break;
+        case 'skip': handleSkip(); break;
+        case 'escalate': if (canEscalate) setIsEscalating(true); break;
+        case 'undo': handleUndo(); break;
+        case 'prevPhoto': focusPhoto(focusedPhotoIndex - 1); break;
+        case 'nextPhoto': focusPhoto(focusedPhotoIndex + 1); break;
+        case 'openPhoto': openCompare(focusedPhotoIndex); break;
+        case 'setOption1':
+        case 'setOption2':
+        case 'setOption3':
+        case 'clearOption':
+          if (currentUser && genderUpdateStatus !== 'saving' && shortcutGender(action) !== undefined) {
+            handleGenderChange(shortcutGender(action)!);
+          }
+          break;
+        case 'back': stopVerification(); break;
+      }
+    } else if (mode === 'gender-verification') {
+      const columns = gridColumns();
+      const user = genderUsers[focusedCard];
+      switch (action) {
+        case 'prevCard': focusCard(focusedCard - 1); break;
+        case 'nextCard': focusCard(focusedCard + 1); break;
+        case 'cardUp': focusCard(focusedCard - columns); break;
+        case 'cardDown': focusCard(focusedCard + columns); break;
+        case 'toggleSelect': if (canChangeGender) toggleSelected(focusedCard, false); break;
+        case 'setOption1':
+        case 'setOption2':
+        case 'setOption3':
+        case 'clearOption':
+          if (user && canChangeGender && shortcutGender(action) !== undefined) handleGenderUpdate(user.id, shortcutGender(action)!);
+          break;
+        case 'back': closeToDashboard(); break;
+      }
     }
   }
 
-  const genderOptions = ['Male', 'Female'];
+  // Re-registered every render so the handler always sees current state
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (mode === 'dashboard' || mode === 'photo-moderation' || mode === 'reports' || isRejecting || isEscalating || isComparing || showExport || isTypingTarget(e.target)) return;
+      const action = shortcutFor(shortcuts, e, MODE_SHORTCUTS[mode]);
+      if (!action) return;
+      e.preventDefault();
+      if (action === 'help' || (showShortcuts && action === 'back')) {
+        setShowShortcuts(prev => !prev);
+      } else if (!showShortcuts) {
+        runShortcut(action);
+      }
+    }
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const shortcutHelp = (
+    <>
+      <button
+        onClick={() => setShowShortcuts(true)}
+        className="fixed bottom-6 right-6 z-40 px-4 py-2 bg-gray-800/80 backdrop-blur-sm rounded-xl font-bold text-sm hover:bg-gray-700 transition-all duration-300 border border-gray-600 hover:border-amber-500"
+      >
+        {t('shortcuts.button', { key: keyLabel(shortcuts.help) })}
+      </button>
+      <AnimatePresence>
+        {showShortcuts && (
+          <ShortcutCheatSheet bindings={shortcuts} onChange={updateShortcuts} onClose={() => setShowShortcuts(false)} />
+        )}
+      </AnimatePresence>
+    </>
+  );
+
+  const queuePanel = (
+    <ActionQueuePanel
+      pendingCount={actionQueue.pendingCount}
+      problems={actionQueue.problems}
+      onRetry={actionQueue.retry}
+      onDismiss={actionQueue.dismiss}
+    />
+  );
 
   if (mode === 'dashboard') {
     return (
@@ -270,52 +924,171 @@ export default function Dashboard() {
           <div className="flex justify-between items-center mb-10">
             <div>
               <h1 className="text-5xl font-bold bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
-                MistMatch Admin
+                {t('dashboard.title')}
               </h1>
-              <p className="text-xl text-gray-400 mt-2">Welcome back, <span className="text-amber-300 font-bold">{adminName}</span></p>
+              <p className="text-xl text-gray-400 mt-2">{t('dashboard.welcome', { name: adminName })}</p>
+            </div>
+            <div className="flex items-center gap-4">
+              <LanguageSwitcher saveForAdmin />
+              <button
+                onClick={() => supabase.auth.signOut().then(() => router.push('/login'))}
+                className="bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 px-6 py-3 rounded-xl font-bold text-lg transition-all duration-300 shadow-lg hover:shadow-xl"
+              >
+                {t('dashboard.logout')}
+              </button>
+            </div>
+          </div>
+          <div className="flex flex-col items-center gap-4 mb-10">
+            <div className="flex flex-wrap justify-center gap-4">
+              {can(currentAdmin, 'verify') && (
+                <button
+                  onClick={startVerification}
+                  disabled={totalPending - claimedByOthers <= 0}
+                  className="group bg-gradient-to-r from-green-600 via-blue-600 to-purple-600 px-12 py-6 rounded-2xl font-bold text-2xl transition-all duration-300 hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed shadow-2xl hover:shadow-3xl"
+                >
+                  {t('dashboard.verifyUsers', { count: totalPending })}
+                </button>
+              )}
+              {can(currentAdmin, 'reviewEscalations') && (
+                <button
+                  onClick={startEscalationReview}
+                  disabled={escalatedCount === 0}
+                  className="group bg-gradient-to-r from-purple-600 to-fuchsia-700 px-8 py-6 rounded-2xl font-bold text-2xl transition-all duration-300 hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed shadow-2xl hover:shadow-3xl"
+                >
+                  {t('dashboard.escalated', { count: escalatedCount })}
+                </button>
+              )}
             </div>
+            {claimedByOthers > 0 && (
+              <p className="text-gray-400">{t('dashboard.claimedByOthers', { count: claimedByOthers })}</p>
+            )}
+            {can(currentAdmin, 'verify') && <QueueOrderPanel canEditRules={can(currentAdmin, 'manageQueueRules')} />}
             <button
-              onClick={() => supabase.auth.signOut().then(() => router.push('/login'))}
-              className="bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 px-6 py-3 rounded-xl font-bold text-lg transition-all duration-300 shadow-lg hover:shadow-xl"
+              onClick={openGenderGrid}
+              className="group bg-gradient-to-r from-cyan-600 via-blue-600 to-indigo-600 px-12 py-6 rounded-2xl font-bold text-2xl transition-all duration-300 hover:scale-105 shadow-2xl hover:shadow-3xl"
             >
-              Logout
+              {t('dashboard.verifyGenders')}
             </button>
-          </div>
-          <div className="flex flex-col items-center gap-4 mb-10">
+            {can(currentAdmin, 'moderatePhotos') && (
+              <button
+                onClick={openPhotoQueue}
+                className="group bg-gradient-to-r from-rose-600 via-pink-600 to-fuchsia-600 px-12 py-6 rounded-2xl font-bold text-2xl transition-all duration-300 hover:scale-105 shadow-2xl hover:shadow-3xl"
+              >
+                {t('dashboard.reviewPhotos')}
+              </button>
+            )}
+            {can(currentAdmin, 'handleReports') && (
+              <button
+                onClick={openReports}
+                className="group bg-gradient-to-r from-red-600 via-orange-600 to-amber-600 px-12 py-6 rounded-2xl font-bold text-2xl transition-all duration-300 hover:scale-105 shadow-2xl hover:shadow-3xl"
+              >
+                {t('dashboard.reviewReports')}
+              </button>
+            )}
             <button
-              onClick={() => { setMode('user-verification'); startVerification(); }}
-              disabled={queueUsers.length === 0}
-              className="group bg-gradient-to-r from-green-600 via-blue-600 to-purple-600 px-12 py-6 rounded-2xl font-bold text-2xl transition-all duration-300 hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed shadow-2xl hover:shadow-3xl"
+              onClick={() => router.push('/dashboard/audit')}
+              className="px-8 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
             >
-              Verify Users ({totalPending} pending)
+              {t('dashboard.auditLog')}
             </button>
             <button
-              onClick={() => setMode('gender-verification')}
-              className="group bg-gradient-to-r from-cyan-600 via-blue-600 to-indigo-600 px-12 py-6 rounded-2xl font-bold text-2xl transition-all duration-300 hover:scale-105 shadow-2xl hover:shadow-3xl"
+              onClick={() => router.push('/dashboard/suspensions')}
+              className="px-8 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
             >
-              Verify Genders
+              {t('dashboard.suspensions')}
             </button>
+            <button
+              onClick={() => router.push('/dashboard/stats')}
+              className="px-8 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
+            >
+              {t('dashboard.statistics')}
+            </button>
+            {can(currentAdmin, 'manageAdmins') && (
+              <button
+                onClick={() => router.push('/dashboard/admins')}
+                className="px-8 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
+              >
+                {t('dashboard.manageAdmins')}
+              </button>
+            )}
+            {can(currentAdmin, 'manageAttributes') && (
+              <button
+                onClick={() => router.push('/dashboard/attributes')}
+                className="px-8 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
+              >
+                {t('dashboard.attributeOptions')}
+              </button>
+            )}
           </div>
           {totalPending === 0 && (
             <div className="text-center text-gray-400 text-xl animate-pulse">
-              No pending user verifications at the moment. Great job!
+              {t('dashboard.nothingPending')}
+            </div>
+          )}
+
+          {recentlyDecided.length > 0 && (
+            <div className="bg-gray-800/50 backdrop-blur-sm p-6 rounded-2xl border border-gray-600/50 mt-10">
+              <h2 className="text-2xl font-bold text-amber-300 mb-4">{t('dashboard.recentlyDecided')}</h2>
+              <div className="divide-y divide-gray-700/50">
+                {recentlyDecided.map(record => (
+                  <div key={record.user.id} className="flex items-center justify-between gap-4 py-3">
+                    <div>
+                      <span className="font-bold">{record.user.name || t('common.anonymous')}</span>
+                      <span className={`ml-3 text-sm font-bold ${record.decision === 'verified' ? 'text-green-400' : 'text-red-400'}`}>
+                        {record.decision === 'verified'
+                          ? t('dashboard.approved')
+                          : t('dashboard.rejected', { reason: rejectionLabel(record.user.rejection_reason) })}
+                      </span>
+                      <span className="ml-3 text-sm text-gray-500">{timeAgo(record.decidedAt)}</span>
+                    </div>
+                    {can(currentAdmin, 'reverseDecisions') && (
+                      <button
+                        onClick={() => reopenUser(record)}
+                        className="px-4 py-2 bg-gray-700 rounded-lg font-bold text-sm hover:bg-gray-600 transition-all duration-300"
+                      >
+                        {t('dashboard.reopen')}
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
             </div>
           )}
         </div>
+        {queuePanel}
       </div>
     );
   }
 
+  if (mode === 'photo-moderation') {
+    return <PhotoQueueView onBack={closeToDashboard} />;
+  }
+
+  if (mode === 'reports') {
+    return <ReportQueueView onBack={closeToDashboard} />;
+  }
+
   if (mode === 'user-verification') {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black text-white p-8">
         <div className="max-w-7xl mx-auto">
           <button
-            onClick={() => { setIsUserVerifying(false); setMode('dashboard'); }}
+            onClick={stopVerification}
             className="mb-8 px-6 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
           >
-            ← Back to Dashboard
+            {t('common.backToDashboard')}
           </button>
+          {undoStack.length > 0 && (
+            <button
+              onClick={handleUndo}
+              className="mb-8 ml-4 px-6 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
+            >
+              {t(undoStack[0].decision === 'verified' ? 'verify.undoApprove' : 'verify.undoReject', {
+                name: undoStack[0].user.name || t('common.anonymous'),
+              })}
+              <span className="ml-2 text-gray-500 text-sm">({undoStack.length})</span>
+            </button>
+          )}
 
           <AnimatePresence mode="wait">
             {currentUser && (
@@ -331,22 +1104,22 @@ export default function Dashboard() {
                   {/* Left: Profile Photos */}
                   <div className="space-y-6">
                     <h2 className="text-4xl font-bold text-center mb-8 bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
-                      Profile Photos
+                      {t('verify.profilePhotos')}
                     </h2>
                     <div className="flex gap-6 overflow-x-auto pb-4 snap-x snap-mandatory">
-                      {currentUser.image_urls?.slice(0, 4).map((url, i) => (
-                        <div key={i} className="flex-none w-80 snap-center">
-                          <a href={url} target="_blank" rel="noopener noreferrer">
+                      {profilePhotos.map((url, i) => (
+                        <div key={i} id={`review-photo-${i}`} className="flex-none w-80 snap-center">
+                          <button onClick={() => openCompare(i)} className="block w-full cursor-zoom-in">
                             <ImageWithLoader
                               src={url}
-                              alt={`Profile ${i + 1}`}
-                              className="w-full h-96 rounded-2xl shadow-2xl overflow-hidden"
+                              alt={t('verify.profilePhotoAlt', { number: i + 1 })}
+                              className={`w-full h-96 rounded-2xl shadow-2xl overflow-hidden ${focusedPhotoIndex === i ? 'ring-4 ring-amber-400' : ''}`}
                             />
-                          </a>
+                          </button>
                         </div>
                       ))}
                       {(!currentUser.image_urls || currentUser.image_urls.length === 0) && (
-                        <p className="text-gray-500">No profile photos</p>
+                        <p className="text-gray-500">{t('verify.noProfilePhotos')}</p>
                       )}
                     </div>
                   </div>
@@ -354,17 +1127,30 @@ export default function Dashboard() {
                   {/* Right: Verification Photos + User Info */}
                   <div className="space-y-8">
                     <h2 className="text-4xl font-bold text-center mb-8 bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
-                      Verification Photos
+                      {t('verify.verificationPhotos')}
                     </h2>
+                    {!currentUser.verification_photos && (
+                      <p className="text-center text-amber-400 animate-pulse">{t('verify.loadingVerificationPhotos')}</p>
+                    )}
+                    {currentUser.verification_photos?.length === 0 && (
+                      <p className="text-center text-gray-500">{t('verify.noVerificationPhotos')}</p>
+                    )}
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                       {currentUser.verification_photos?.map((url, i) => (
-                        <a key={i} href={url} target="_blank" rel="noopener noreferrer" className="block">
+                        <button
+                          key={i}
+                          id={`review-photo-${profilePhotos.length + i}`}
+                          onClick={() => openCompare(profilePhotos.length + i)}
+                          className="block w-full cursor-zoom-in"
+                        >
                           <ImageWithLoader
                             src={url}
-                            alt={`Verification ${i + 1}`}
-                            className="w-full h-96 rounded-2xl shadow-2xl border-4 border-amber-500/50 overflow-hidden"
+                            alt={t('verify.verificationPhotoAlt', { number: i + 1 })}
+                            className={`w-full h-96 rounded-2xl shadow-2xl border-4 overflow-hidden ${
+                              focusedPhotoIndex === profilePhotos.length + i ? 'border-amber-300 ring-4 ring-amber-400' : 'border-amber-500/50'
+                            }`}
                           />
-                        </a>
+                        </button>
                       ))}
                     </div>
 
@@ -375,29 +1161,65 @@ export default function Dashboard() {
                       transition={{ delay: 0.2 }}
                       className="bg-gray-800/50 backdrop-blur-sm p-8 rounded-2xl border border-gray-600/50 space-y-6"
                     >
-                      <h3 className="text-3xl font-bold text-center text-amber-300">{currentUser.name || 'Anonymous'}</h3>
+                      <h3 className="text-3xl font-bold text-center text-amber-300">
+                        <Link href={`/dashboard/users/${currentUser.id}`} target="_blank" className="hover:underline">
+                          {currentUser.name || t('common.anonymous')}
+                        </Link>
+                      </h3>
                       <p className="text-2xl text-center text-gray-400">
-                        {currentUser.age} • {currentUser.gender || 'Not specified'} • {currentUser.country}
+                        {currentUser.age} • {genderLabel(currentUser.gender)}{currentUser.country && ` • ${country(currentUser.country)}`}
+                      </p>
+                      <p className="text-center text-gray-500">
+                        {timeAgo(currentUser.created_at, 'verify.signedUp')}
                       </p>
-                      <p className="text-lg text-center text-gray-500">ID: {currentUser.id}</p>
+                      <p className="text-lg text-center text-gray-500">
+                        {t('verify.id')}{' '}
+                        <Link href={`/dashboard/users/${currentUser.id}`} target="_blank" className="hover:text-amber-400">
+                          {currentUser.id}
+                        </Link>
+                      </p>
+                      <div className="text-center">
+                        <SuspensionBadge summary={suspensionSummaries[currentUser.id]} />
+                      </div>
+                      {currentUser.escalation && (
+                        <div className="p-4 rounded-xl bg-purple-900/40 border border-purple-500/50 text-center">
+                          <p className="text-purple-300 font-bold">
+                            {timeAgo(currentUser.escalation.created_at, 'verify.escalatedAt')}
+                          </p>
+                          <p className="text-gray-300">{currentUser.escalation.note}</p>
+                        </div>
+                      )}
+                      {currentUser.rejection_reason && (
+                        <p className="text-center text-red-400">
+                          {t('verify.previouslyRejected', { reason: rejectionLabel(currentUser.rejection_reason) })}
+                          {currentUser.rejection_note && ` — ${currentUser.rejection_note}`}
+                        </p>
+                      )}
+                      <DuplicatePanel key={currentUser.id} userId={currentUser.id} />
 
                       {/* Gender Change Dropdown */}
                       <div className="mt-6">
                         <label className="block text-lg font-medium text-gray-300 mb-3 text-center">
-                          Change Gender
+                          {t('verify.changeGender')}
                         </label>
                         <div className="relative max-w-xs mx-auto">
                           <select
-                            value={currentUser.gender || 'Male'}
-                            onChange={(e) => handleGenderChange(e.target.value)}
+                            value={currentUser.gender ?? ''}
+                            onChange={(e) => handleGenderChange(e.target.value || null)}
                             disabled={genderUpdateStatus === 'saving'}
                             className="w-full px-6 py-4 text-lg bg-gray-900/80 border border-gray-600 rounded-xl focus:outline-none focus:border-amber-500 transition-all appearance-none cursor-pointer"
                           >
-                            {genderOptions.map((opt) => (
-                              <option key={opt} value={opt}>
-                                {opt}
+                            <option value="">{t('gender.unset')}</option>
+                            {assignableGenders.map((opt) => (
+                              <option key={opt.value} value={opt.value}>
+                                {opt.label}
                               </option>
                             ))}
+                            {currentUser.gender && !assignableGenders.some(o => o.value === currentUser.gender) && (
+                              <option value={currentUser.gender} disabled>
+                                {genderLabel(currentUser.gender)}
+                              </option>
+                            )}
                           </select>
                           <div className="absolute inset-y-0 right-4 flex items-center pointer-events-none">
                             <svg className="w-6 h-6 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -407,13 +1229,13 @@ export default function Dashboard() {
                         </div>
 
                         {genderUpdateStatus === 'saving' && (
-                          <p className="mt-3 text-amber-400 text-center text-sm">Saving...</p>
+                          <p className="mt-3 text-amber-400 text-center text-sm">{t('common.saving')}</p>
                         )}
                         {genderUpdateStatus === 'success' && (
-                          <p className="mt-3 text-green-400 text-center text-sm animate-pulse">Gender updated!</p>
+                          <p className="mt-3 text-green-400 text-center text-sm animate-pulse">{t('verify.genderUpdated')}</p>
                         )}
                         {genderUpdateStatus === 'error' && (
-                          <p className="mt-3 text-red-400 text-center text-sm">Failed to update gender</p>
+                          <p className="mt-3 text-red-400 text-center text-sm">{t('verify.genderFailed')}</p>
                         )}
                       </div>
                     </motion.div>
@@ -428,149 +1250,341 @@ export default function Dashboard() {
                     onClick={() => handleDecision('verified')}
                     className="bg-gradient-to-r from-green-600 to-green-700 hover:from-green-700 hover:to-green-800 px-24 py-12 rounded-3xl font-bold text-5xl transition-all duration-300 shadow-2xl hover:shadow-3xl border border-green-500/50"
                   >
-                    APPROVE
+                    {t('verify.approve')}
                   </motion.button>
                   <motion.button
                     whileHover={{ scale: 1.05 }}
                     whileTap={{ scale: 0.95 }}
-                    onClick={() => handleDecision('rejected')}
+                    onClick={() => setIsRejecting(true)}
                     className="bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 px-24 py-12 rounded-3xl font-bold text-5xl transition-all duration-300 shadow-2xl hover:shadow-3xl border border-red-500/50"
                   >
-                    REJECT
+                    {t('verify.reject')}
                   </motion.button>
                 </div>
+                <div className="flex gap-6 justify-center">
+                  <button
+                    onClick={handleSkip}
+                    disabled={queueUsers.filter(u => u.id !== currentUser.id).length === 0}
+                    className="px-8 py-4 bg-gray-800/50 backdrop-blur-sm rounded-2xl font-bold text-xl hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {t('verify.skip')}
+                  </button>
+                  {canEscalate && (
+                    <button
+                      onClick={() => setIsEscalating(true)}
+                      className="px-8 py-4 bg-purple-900/50 backdrop-blur-sm rounded-2xl font-bold text-xl hover:bg-purple-800/50 transition-all duration-300 border border-purple-500/50 hover:border-purple-400"
+                    >
+                      {t('verify.escalate')}
+                    </button>
+                  )}
+                </div>
 
                 {/* Optional indicator when loading more */}
-                {queueUsers.length <= LOAD_MORE_THRESHOLD && hasMore && (
-                  <p className="text-center text-amber-400 animate-pulse mt-8">Loading more users...</p>
+                {queueSource === 'pending' && queueUsers.length <= LOAD_MORE_THRESHOLD && hasMore && (
+                  <p className="text-center text-amber-400 animate-pulse mt-8">{t('verify.loadingMore')}</p>
                 )}
               </motion.div>
             )}
           </AnimatePresence>
 
+          <AnimatePresence>
+            {isRejecting && currentUser && (
+              <RejectionReasonPicker
+                key={currentUser.id}
+                userName={currentUser.name || t('common.anonymous')}
+                onConfirm={(rejection) => handleDecision('rejected', rejection)}
+                onCancel={() => setIsRejecting(false)}
+              />
+            )}
+            {isComparing && currentUser && compareFrom && (
+              <PhotoCompareViewer
+                key={currentUser.id}
+                profilePhotos={profilePhotos}
+                verificationPhotos={currentUser.verification_photos ?? []}
+                initialProfile={compareFrom.index < profilePhotos.length ? compareFrom.index : 0}
+                initialVerification={compareFrom.index < profilePhotos.length ? 0 : compareFrom.index - profilePhotos.length}
+                onClose={() => setCompareFrom(null)}
+              />
+            )}
+            {isEscalating && currentUser && (
+              <EscalateDialog
+                key={currentUser.id}
+                userName={currentUser.name || t('common.anonymous')}
+                onConfirm={handleEscalate}
+                onCancel={() => setIsEscalating(false)}
+              />
+            )}
+          </AnimatePresence>
+
           {!currentUser && (
             <div className="text-center text-3xl text-gray-400 mt-20">
-              No more users to verify. Great job!
+              {t('verify.allDone')}
             </div>
           )}
         </div>
+        {shortcutHelp}
+        {queuePanel}
       </div>
     );
   }
 
   // Gender Verification Mode
-  const paginatedUsers = filteredGenderUsers.slice(
-    (currentPage - 1) * PAGE_SIZE,
-    currentPage * PAGE_SIZE
-  );
-  const totalPages = Math.ceil(filteredGenderUsers.length / PAGE_SIZE);
+  const filterInputClass = 'px-4 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-amber-500';
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black text-white p-8">
       <div className="max-w-7xl mx-auto">
         <button
-          onClick={() => setMode('dashboard')}
+          onClick={closeToDashboard}
           className="mb-8 px-6 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
         >
-          ← Back to Dashboard
+          {t('common.backToDashboard')}
         </button>
 
         <div className="mb-8">
           <h1 className="text-4xl font-bold text-center mb-6 bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
-            Gender Verification
+            {t('grid.title')}
           </h1>
-          <div className="flex justify-center gap-6">
+          <p className="text-center text-gray-400 mb-6">
+            {t('grid.matching', { count: genderTotal })} • {t('grid.withoutGender', { count: totalUnknown })}
+            {can(currentAdmin, 'export') && (
+              <>
+                {' • '}
+                <button onClick={() => setShowExport(true)} className="font-bold text-amber-400 hover:text-amber-300">
+                  {t('grid.export')}
+                </button>
+              </>
+            )}
+          </p>
+          <div className="flex flex-wrap justify-center gap-6">
             <div>
-              <label className="block text-sm font-medium text-gray-400 mb-2">Filter by Gender</label>
+              <label className="block text-sm font-medium text-gray-400 mb-2">{t('grid.search')}</label>
+              <input
+                key={`q-${gridFilters.q}`}
+                defaultValue={gridFilters.q}
+                onBlur={(e) => updateGridFilters({ q: e.target.value })}
+                onKeyDown={(e) => e.key === 'Enter' && updateGridFilters({ q: e.currentTarget.value })}
+                placeholder={t('grid.searchPlaceholder')}
+                className={filterInputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">{t('grid.filterGender')}</label>
               <select
-                value={genderFilter}
-                onChange={(e) => { setGenderFilter(e.target.value as any); }}
-                className="px-4 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-amber-500"
+                value={gridFilters.gender}
+                onChange={(e) => updateGridFilters({ gender: e.target.value })}
+                className={filterInputClass}
               >
-                <option value="all">All</option>
-                <option value="unknown">Unknown</option>
-                <option value="Male">Male</option>
-                <option value="Female">Female</option>
+                <option value="all">{t('grid.all')}</option>
+                <option value="unknown">{t('gender.unset')}</option>
+                {genderOptions.map(o => (
+                  <option key={o.value} value={o.value}>{genderLabel(o.value)}</option>
+                ))}
               </select>
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-400 mb-2">Sort by Date</label>
+              <label className="block text-sm font-medium text-gray-400 mb-2">{t('grid.verification')}</label>
               <select
-                value={sortOrder}
-                onChange={(e) => { setSortOrder(e.target.value as any); }}
-                className="px-4 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-amber-500"
+                value={gridFilters.status}
+                onChange={(e) => updateGridFilters({ status: e.target.value as UserFilters['status'] })}
+                className={filterInputClass}
               >
-                <option value="desc">Newest First</option>
-                <option value="asc">Oldest First</option>
+                <option value="all">{t('grid.all')}</option>
+                <option value="pending">{t('status.pending')}</option>
+                <option value="verified">{t('status.verified')}</option>
+                <option value="unverified">{t('status.unverified')}</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">{t('grid.country')}</label>
+              <input
+                key={`country-${gridFilters.country}`}
+                defaultValue={gridFilters.country}
+                onBlur={(e) => updateGridFilters({ country: e.target.value })}
+                onKeyDown={(e) => e.key === 'Enter' && updateGridFilters({ country: e.currentTarget.value })}
+                placeholder={t('grid.any')}
+                className={`${filterInputClass} w-32`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">{t('grid.age')}</label>
+              <div className="flex items-center gap-2">
+                <input
+                  key={`minAge-${gridFilters.minAge}`}
+                  type="number"
+                  min={0}
+                  defaultValue={gridFilters.minAge}
+                  onBlur={(e) => updateGridFilters({ minAge: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && updateGridFilters({ minAge: e.currentTarget.value })}
+                  placeholder={t('grid.min')}
+                  className={`${filterInputClass} w-20`}
+                />
+                <span className="text-gray-500">–</span>
+                <input
+                  key={`maxAge-${gridFilters.maxAge}`}
+                  type="number"
+                  min={0}
+                  defaultValue={gridFilters.maxAge}
+                  onBlur={(e) => updateGridFilters({ maxAge: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && updateGridFilters({ maxAge: e.currentTarget.value })}
+                  placeholder={t('grid.max')}
+                  className={`${filterInputClass} w-20`}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">{t('grid.signedUp')}</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="date"
+                  value={gridFilters.from}
+                  onChange={(e) => updateGridFilters({ from: e.target.value })}
+                  className={filterInputClass}
+                />
+                <span className="text-gray-500">–</span>
+                <input
+                  type="date"
+                  value={gridFilters.to}
+                  onChange={(e) => updateGridFilters({ to: e.target.value })}
+                  className={filterInputClass}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">{t('grid.sortByDate')}</label>
+              <select
+                value={gridFilters.sort}
+                onChange={(e) => updateGridFilters({ sort: e.target.value as UserFilters['sort'] })}
+                className={filterInputClass}
+              >
+                <option value="desc">{t('grid.newestFirst')}</option>
+                <option value="asc">{t('grid.oldestFirst')}</option>
               </select>
             </div>
           </div>
         </div>
 
+        <AnimatePresence>
+          {showExport && (
+            <ExportDialog filterParams={searchParams} total={genderTotal} onClose={() => setShowExport(false)} />
+          )}
+        </AnimatePresence>
+
+        {/* Bulk actions */}
+        {canChangeGender && (
+          <div className="sticky top-4 z-30 mb-8 flex flex-wrap items-center justify-center gap-4 bg-gray-900/90 backdrop-blur-sm p-4 rounded-2xl border border-gray-600/50">
+            <label className="flex items-center gap-2 text-gray-300 font-bold cursor-pointer">
+              <input
+                type="checkbox"
+                checked={genderUsers.length > 0 && genderUsers.every(u => selectedIds.has(u.id))}
+                onChange={toggleSelectAllOnPage}
+                className="w-5 h-5 accent-amber-500"
+              />
+              {t('grid.selectAll')}
+            </label>
+            <span className="text-gray-400">{t('grid.selected', { count: selectedIds.size })}</span>
+            {assignableGenders.map(option => (
+              <button
+                key={option.value}
+                onClick={() => handleBulkGenderUpdate(option.value)}
+                disabled={selectedIds.size === 0 || bulkStatus.state === 'saving'}
+                className={`px-5 py-2 rounded-xl font-bold ${optionColorClasses(option.color).button} hover:brightness-110 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed`}
+              >
+                {t('grid.setOption', { label: option.label })}
+              </button>
+            ))}
+            <button
+              onClick={() => handleBulkGenderUpdate(null)}
+              disabled={selectedIds.size === 0 || bulkStatus.state === 'saving'}
+              className="px-5 py-2 rounded-xl font-bold bg-gray-700 hover:bg-gray-600 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('grid.clearGender')}
+            </button>
+            {bulkStatus.state !== 'idle' && (
+              <span
+                className={`text-sm ${
+                  bulkStatus.state === 'error' ? 'text-red-400' : bulkStatus.state === 'saving' ? 'text-amber-400 animate-pulse' : 'text-green-400'
+                }`}
+              >
+                {bulkStatus.message}
+              </span>
+            )}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-          {paginatedUsers.map((user) => (
+          {genderUsers.map((user, index) => (
             <motion.div
               key={user.id}
+              id={`gender-card-${index}`}
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
-              className="bg-gray-800/50 backdrop-blur-sm p-6 rounded-2xl border border-gray-600/50 space-y-4"
+              onClick={() => setFocusedCard(index)}
+              className={`relative bg-gray-800/50 backdrop-blur-sm p-6 rounded-2xl border space-y-4 ${
+                index === focusedCard ? 'border-amber-400 ring-2 ring-amber-400' : 'border-gray-600/50'
+              } ${selectedIds.has(user.id) ? 'bg-amber-900/20' : ''}`}
             >
+              {canChangeGender && (
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(user.id)}
+                  readOnly
+                  onClick={(e) => toggleSelected(index, e.shiftKey)}
+                  aria-label={t('grid.selectUser', { name: user.name || t('common.anonymous') })}
+                  className="absolute top-4 left-4 w-5 h-5 accent-amber-500 cursor-pointer"
+                />
+              )}
               <h3 className="text-2xl font-bold text-center text-amber-300">
-                {user.name || 'Anonymous'}
+                {user.name || t('common.anonymous')}
               </h3>
               <p className="text-xl text-center text-gray-400">
-                {user.age} • {user.country}
+                {user.age}{user.country && ` • ${country(user.country)}`}
+              </p>
+              <p className="text-sm text-center text-gray-500">
+                {timeAgo(user.created_at, 'verify.signedUp')}
               </p>
+              <div className="text-center">
+                <SuspensionBadge summary={suspensionSummaries[user.id]} />
+              </div>
               <div className="flex justify-center">
-                <span
-                  className={`px-4 py-2 rounded-full text-sm font-bold ${
-                    !user.gender
-                      ? 'bg-gray-600 text-gray-300'
-                      : user.gender === 'Male'
-                      ? 'bg-blue-500 text-white'
-                      : 'bg-pink-500 text-white'
-                  }`}
-                >
-                  {user.gender || 'Unknown'}
+                <span className={`px-4 py-2 rounded-full text-sm font-bold ${optionBadgeClass(genderOptions, user.gender)}`}>
+                  {genderLabel(user.gender)}
                 </span>
               </div>
               <div className="flex justify-center gap-2 flex-wrap">
-                {user.image_urls?.slice(0, 4).map((url, i) => (
-                  <div key={i} className="w-24 h-24 rounded-lg overflow-hidden shadow-md">
-                    <ImageWithLoader
-                      src={url}
-                      alt={`Photo ${i + 1}`}
-                      className="w-full h-full"
-                    />
-                  </div>
-                )) || (
+                {user.image_urls?.length ? (
+                  user.image_urls.slice(0, 4).map((url, i) => (
+                    <div key={i} className="w-24 h-24 rounded-lg overflow-hidden shadow-md">
+                      <ImageWithLoader
+                        src={url}
+                        alt={t('grid.photoAlt', { number: i + 1 })}
+                        className="w-full h-full"
+                      />
+                    </div>
+                  ))
+                ) : (
                   <div className="w-24 h-24 bg-gray-700 rounded-lg flex items-center justify-center text-gray-500 text-sm">
-                    No Photo
+                    {t('grid.noPhoto')}
                   </div>
                 )}
               </div>
-              <div className="flex justify-center gap-6 mt-6">
-                <button
-                  onClick={() => handleGenderUpdate(user.id, 'Male')}
-                  className={`px-8 py-4 rounded-2xl font-bold text-lg transition-all duration-300 ${
-                    user.gender === 'Male'
-                      ? 'bg-blue-600 text-white shadow-lg hover:shadow-xl'
-                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                  }`}
-                >
-                  Male
-                </button>
-                <button
-                  onClick={() => handleGenderUpdate(user.id, 'Female')}
-                  className={`px-8 py-4 rounded-2xl font-bold text-lg transition-all duration-300 ${
-                    user.gender === 'Female'
-                      ? 'bg-pink-600 text-white shadow-lg hover:shadow-xl'
-                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                  }`}
-                >
-                  Female
-                </button>
-              </div>
+              {canChangeGender && (
+                <div className="flex justify-center gap-4 mt-6 flex-wrap">
+                  {assignableGenders.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => handleGenderUpdate(user.id, option.value)}
+                      className={`px-8 py-4 rounded-2xl font-bold text-lg transition-all duration-300 ${
+                        user.gender === option.value
+                          ? `${optionColorClasses(option.color).button} shadow-lg hover:shadow-xl`
+                          : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              )}
             </motion.div>
           ))}
         </div>
@@ -578,31 +1592,42 @@ export default function Dashboard() {
         {totalPages > 0 && (
           <div className="flex justify-center items-center gap-4 mt-12">
             <button
-              onClick={() => setCurrentPage((prev) => Math.max(1, prev - 1))}
+              onClick={() => updateGridFilters({ page: Math.max(1, currentPage - 1) })}
               disabled={currentPage === 1}
               className="px-6 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              Previous
+              {t('grid.previous')}
             </button>
             <span className="text-xl text-gray-400">
-              Page {currentPage} of {totalPages}
+              {t('grid.page', { page: currentPage, total: totalPages })}
             </span>
             <button
-              onClick={() => setCurrentPage((prev) => Math.min(totalPages, prev + 1))}
+              onClick={() => updateGridFilters({ page: Math.min(totalPages, currentPage + 1) })}
               disabled={currentPage === totalPages}
               className="px-6 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              Next
+              {t('grid.next')}
             </button>
           </div>
         )}
 
-        {filteredGenderUsers.length === 0 && (
+        {genderUsers.length === 0 && (
           <div className="text-center text-3xl text-gray-400 mt-20">
-            No users to verify gender for with current filters.
+            {t('grid.empty')}
           </div>
         )}
       </div>
+      {shortcutHelp}
+      {queuePanel}
     </div>
   );
-}
\ No newline at end of file
+}
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function DashboardPage() {
+  return (
+    <Suspense>
+      <Dashboard />
+    </Suspense>
+  );
+}
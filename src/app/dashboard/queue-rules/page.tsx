@@ -0,0 +1,206 @@
+'use client';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { MessageKey } from '@/lib/i18n';
+import { moderationRequest } from '@/lib/moderation-api';
+import { MAX_RULE_WEIGHT, PRIORITY_RULE_KINDS, PriorityRule, PriorityRuleKind } from '@/lib/queue-order';
+import { can } from '@/lib/roles';
+import { useCurrentAdmin } from '@/lib/use-current-admin';
+import { useI18n } from '@/lib/use-i18n';
+
+type ActionStatus = { state: 'idle' | 'saving' | 'done' | 'error'; message: string };
+
+async function fetchRules() {
+  return moderationRequest<{ rules: PriorityRule[] }>('queue/rules', undefined, 'GET');
+}
+
+// Labels the value input; kinds without one match on their own
+const VALUE_LABELS: Partial<Record<PriorityRuleKind, MessageKey>> = {
+  country: 'queueRuleValue.country',
+  min_photos: 'queueRuleValue.min_photos',
+  waiting_days: 'queueRuleValue.waiting_days',
+};
+
+export default function QueueRulesPage() {
+  const [rules, setRules] = useState<PriorityRule[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [newRule, setNewRule] = useState<{ kind: PriorityRuleKind; value: string; weight: string }>({
+    kind: 'waiting_days',
+    value: '',
+    weight: '10',
+  });
+  const [status, setStatus] = useState<ActionStatus>({ state: 'idle', message: '' });
+  const currentAdmin = useCurrentAdmin();
+  const { t, formatDateTime } = useI18n();
+  const router = useRouter();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchRules().then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) setStatus({ state: 'error', message: error });
+      setRules(data?.rules ?? []);
+    });
+    return () => { cancelled = true; };
+  }, [reloadKey]);
+
+  async function runAction(message: string, path: string, body: unknown, method: 'POST' | 'DELETE' = 'POST') {
+    setStatus({ state: 'saving', message: t('common.inProgress', { action: message }) });
+    const { error } = await moderationRequest(path, body, method);
+    if (error) {
+      setStatus({ state: 'error', message: error });
+      return false;
+    }
+    setStatus({ state: 'done', message: t('common.actionDone', { action: message }) });
+    setReloadKey(prev => prev + 1);
+    return true;
+  }
+
+  async function addRule() {
+    if (await runAction(t('queueRules.adding'), 'queue/rules', { ...newRule, weight: Number(newRule.weight) })) {
+      setNewRule(prev => ({ ...prev, value: '' }));
+    }
+  }
+
+  const inputClass = 'px-4 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-amber-500';
+  const valueLabel = VALUE_LABELS[newRule.kind];
+
+  if (currentAdmin && !can(currentAdmin, 'manageQueueRules')) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black text-white flex items-center justify-center">
+        <p className="text-2xl text-gray-400">{t('queueRules.seniorOnly')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black text-white p-8">
+      <div className="max-w-7xl mx-auto">
+        <button
+          onClick={() => router.push('/dashboard')}
+          className="mb-8 px-6 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
+        >
+          {t('common.backToDashboard')}
+        </button>
+
+        <h1 className="text-4xl font-bold text-center mb-6 bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+          {t('queueRules.title')}
+        </h1>
+        <p className="text-center text-gray-400 mb-6">
+          {t('queueRules.hint')}
+        </p>
+
+        <div className="flex flex-wrap justify-center items-end gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">{t('queueRules.rule')}</label>
+            <select
+              value={newRule.kind}
+              onChange={(e) => setNewRule(prev => ({ ...prev, kind: e.target.value as PriorityRuleKind, value: '' }))}
+              className={inputClass}
+            >
+              {PRIORITY_RULE_KINDS.map(k => (
+                <option key={k.kind} value={k.kind}>{t(`queueRuleKind.${k.kind}`)}</option>
+              ))}
+            </select>
+          </div>
+          {valueLabel && (
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">{t(valueLabel)}</label>
+              <input
+                value={newRule.value}
+                onChange={(e) => setNewRule(prev => ({ ...prev, value: e.target.value }))}
+                className={`${inputClass} w-32`}
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">{t('queueRules.weight')}</label>
+            <input
+              type="number"
+              min={-MAX_RULE_WEIGHT}
+              max={MAX_RULE_WEIGHT}
+              value={newRule.weight}
+              onChange={(e) => setNewRule(prev => ({ ...prev, weight: e.target.value }))}
+              className={`${inputClass} w-24`}
+            />
+          </div>
+          <button
+            onClick={addRule}
+            disabled={(!!valueLabel && !newRule.value.trim()) || status.state === 'saving'}
+            className="px-6 py-2 bg-gradient-to-r from-amber-500 to-orange-600 rounded-xl font-bold transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('queueRules.add')}
+          </button>
+        </div>
+
+        {status.state !== 'idle' && (
+          <p
+            className={`text-center mb-4 ${
+              status.state === 'error' ? 'text-red-400' : status.state === 'saving' ? 'text-amber-400 animate-pulse' : 'text-green-400'
+            }`}
+          >
+            {status.message}
+          </p>
+        )}
+
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl border border-gray-600/50 overflow-x-auto mt-8">
+          <table className="w-full text-left">
+            <thead className="text-gray-400 text-sm uppercase">
+              <tr>
+                <th className="px-6 py-4">{t('queueRules.rule')}</th>
+                <th className="px-6 py-4">{t('queueRules.value')}</th>
+                <th className="px-6 py-4">{t('queueRules.weight')}</th>
+                <th className="px-6 py-4">{t('queueRules.added')}</th>
+                <th className="px-6 py-4"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">{t('queueRules.empty')}</td>
+                </tr>
+              )}
+              {rules.map(rule => (
+                <tr key={rule.id} className={`border-t border-gray-700/50 ${rule.active ? '' : 'opacity-50'}`}>
+                  <td className="px-6 py-4 text-amber-300">{t(`queueRuleKind.${rule.kind}`)}</td>
+                  <td className="px-6 py-4 text-gray-300">{rule.value ?? '—'}</td>
+                  <td className="px-6 py-4">
+                    <input
+                      type="number"
+                      min={-MAX_RULE_WEIGHT}
+                      max={MAX_RULE_WEIGHT}
+                      defaultValue={rule.weight}
+                      key={`${rule.id}-${rule.weight}`}
+                      onBlur={(e) => {
+                        const weight = Number(e.target.value);
+                        if (weight !== rule.weight) runAction(t('queueRules.changingWeight'), `queue/rules/${rule.id}`, { weight });
+                      }}
+                      className={`${inputClass} w-24`}
+                    />
+                  </td>
+                  <td className="px-6 py-4 text-gray-400 whitespace-nowrap">{formatDateTime(rule.created_at)}</td>
+                  <td className="px-6 py-4 text-right whitespace-nowrap space-x-2">
+                    <button
+                      onClick={() => runAction(rule.active ? t('queueRules.pausing') : t('queueRules.resuming'), `queue/rules/${rule.id}`, { active: !rule.active })}
+                      disabled={status.state === 'saving'}
+                      className="px-4 py-2 bg-gray-700 rounded-lg font-bold text-sm hover:bg-gray-600 transition-all duration-300 disabled:opacity-50"
+                    >
+                      {rule.active ? t('queueRules.pause') : t('queueRules.resume')}
+                    </button>
+                    <button
+                      onClick={() => runAction(t('queueRules.deleting'), `queue/rules/${rule.id}`, undefined, 'DELETE')}
+                      disabled={status.state === 'saving'}
+                      className="px-4 py-2 bg-red-900/60 rounded-lg font-bold text-sm hover:bg-red-800 transition-all duration-300 disabled:opacity-50"
+                    >
+                      {t('queueRules.delete')}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
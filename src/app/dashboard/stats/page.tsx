@@ -0,0 +1,322 @@
+'use client';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { CsvColumn, toCsv } from '@/lib/csv';
+import { moderationRequest } from '@/lib/moderation-api';
+import { MessageKey } from '@/lib/i18n';
+import { isRejectionReasonCode } from '@/lib/rejection-reasons';
+import { can } from '@/lib/roles';
+import { ModerationStats, STATS_BUCKETS, StatsBucket } from '@/lib/stats';
+import { useCurrentAdmin } from '@/lib/use-current-admin';
+import { useI18n } from '@/lib/use-i18n';
+import PhotoHashBackfill from '../_components/PhotoHashBackfill';
+
+const DEFAULT_RANGE_DAYS = 30;
+
+type StatsFilters = { from: string; to: string; bucket: StatsBucket };
+
+function isoDate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function defaultFilters(): StatsFilters {
+  const from = new Date();
+  from.setUTCDate(from.getUTCDate() - (DEFAULT_RANGE_DAYS - 1));
+  return { from: isoDate(from), to: isoDate(new Date()), bucket: 'day' };
+}
+
+async function fetchStats(filters: StatsFilters) {
+  const params = new URLSearchParams(filters);
+  return moderationRequest<ModerationStats>(`stats?${params}`, undefined, 'GET');
+}
+
+function downloadFile(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Scaled to the unit that keeps the number readable: minutes, then hours, then days
+function durationMessage(hours: number): [MessageKey, number] {
+  if (hours < 1) return ['stats.minutes', Math.round(hours * 60)];
+  if (hours < 48) return ['stats.hours', Math.round(hours * 10) / 10];
+  return ['stats.days', Math.round((hours / 24) * 10) / 10];
+}
+
+function ChartCard({ title, onExport, children }: { title: string; onExport?: () => void; children: React.ReactNode }) {
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl border border-gray-600/50 p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-bold text-amber-300">{title}</h2>
+        {onExport && (
+          <button onClick={onExport} className="px-3 py-1 bg-gray-700 rounded-lg text-sm font-bold hover:bg-gray-600 transition-all">
+            CSV
+          </button>
+        )}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+// Vertical bars over time; each series is stacked in the order given.
+function ColumnChart({ points, series }: {
+  points: { label: string; values: number[] }[];
+  series: { name: string; className: string }[];
+}) {
+  const { t } = useI18n();
+  const max = Math.max(1, ...points.map(p => p.values.reduce((sum, v) => sum + v, 0)));
+  if (points.length === 0) return <p className="text-gray-500">{t('stats.noData')}</p>;
+
+  return (
+    <div>
+      <div className="flex items-end gap-1 h-48">
+        {points.map(point => (
+          <div
+            key={point.label}
+            className="flex-1 min-w-[4px] flex flex-col-reverse h-full"
+            title={`${point.label}: ${point.values.map((v, i) => `${series[i].name} ${v}`).join(', ')}`}
+          >
+            {point.values.map((value, i) => (
+              <div key={series[i].name} className={series[i].className} style={{ height: `${(value / max) * 100}%` }} />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mt-2">
+        <span>{points[0].label}</span>
+        <span>{points[points.length - 1].label}</span>
+      </div>
+      <div className="flex gap-4 mt-4 text-sm">
+        {series.map(s => (
+          <span key={s.name} className="flex items-center gap-2 text-gray-300">
+            <span className={`inline-block w-3 h-3 rounded-sm ${s.className}`} /> {s.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function BarList({ rows }: { rows: { label: string; value: number; detail?: string }[] }) {
+  const { t } = useI18n();
+  const max = Math.max(1, ...rows.map(r => r.value));
+  if (rows.length === 0) return <p className="text-gray-500">{t('stats.noData')}</p>;
+
+  return (
+    <div className="space-y-3">
+      {rows.map(row => (
+        <div key={row.label}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="text-gray-300 truncate">{row.label}</span>
+            <span className="text-gray-400 ml-4 whitespace-nowrap">{row.detail ?? row.value}</span>
+          </div>
+          <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-gradient-to-r from-amber-400 to-orange-500" style={{ width: `${(row.value / max) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function StatsPage() {
+  const [filters, setFilters] = useState<StatsFilters>(defaultFilters);
+  const [stats, setStats] = useState<ModerationStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const currentAdmin = useCurrentAdmin();
+  const { locale, t } = useI18n();
+  const router = useRouter();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchStats(filters).then(({ data, error }) => {
+      if (cancelled) return;
+      setStats(data);
+      setError(error);
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [filters]);
+
+  function updateFilter<K extends keyof StatsFilters>(key: K, value: StatsFilters[K]) {
+    setIsLoading(true);
+    setFilters(prev => ({ ...prev, [key]: value }));
+  }
+
+  function bucketLabel(bucket: string) {
+    const date = new Date(bucket).toLocaleDateString(locale, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+    return filters.bucket === 'week' ? t('stats.weekOf', { date }) : date;
+  }
+
+  function formatHours(hours: number | null) {
+    if (hours === null) return '—';
+    const [key, value] = durationMessage(hours);
+    return t(key, { value });
+  }
+
+  function rejectionLabel(reason: string) {
+    return isRejectionReasonCode(reason) ? t(`rejectionReason.${reason}`) : reason;
+  }
+
+  function exportCsv<T>(name: string, columns: CsvColumn<T>[], rows: T[]) {
+    downloadFile(`${name}-${filters.from}-to-${filters.to}.csv`, toCsv(columns, rows), 'text/csv');
+  }
+
+  const approved = stats?.decisions.reduce((sum, d) => sum + d.approved, 0) ?? 0;
+  const rejected = stats?.decisions.reduce((sum, d) => sum + d.rejected, 0) ?? 0;
+  const approvalRate = approved + rejected > 0 ? `${Math.round((approved / (approved + rejected)) * 100)}%` : '—';
+  const inputClass = 'px-4 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-amber-500';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black text-white p-8">
+      <div className="max-w-7xl mx-auto">
+        <button
+          onClick={() => router.push('/dashboard')}
+          className="mb-8 px-6 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
+        >
+          {t('common.backToDashboard')}
+        </button>
+
+        <h1 className="text-4xl font-bold text-center mb-6 bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+          {t('stats.title')}
+        </h1>
+
+        <div className="flex flex-wrap justify-center items-end gap-6 mb-8">
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">{t('common.from')}</label>
+            <input type="date" value={filters.from} onChange={(e) => e.target.value && updateFilter('from', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">{t('common.to')}</label>
+            <input type="date" value={filters.to} onChange={(e) => e.target.value && updateFilter('to', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">{t('stats.groupBy')}</label>
+            <select value={filters.bucket} onChange={(e) => updateFilter('bucket', e.target.value as StatsBucket)} className={inputClass}>
+              {STATS_BUCKETS.map(b => (
+                <option key={b} value={b}>{t(`statsBucket.${b}`)}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={() => stats && downloadFile(`moderation-stats-${filters.from}-to-${filters.to}.json`, JSON.stringify({ ...filters, ...stats }, null, 2), 'application/json')}
+            disabled={!stats}
+            className="px-6 py-2 bg-gray-800/50 rounded-xl font-bold hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('stats.exportJson')}
+          </button>
+        </div>
+
+        {isLoading && <p className="text-center text-amber-400 animate-pulse mb-8">{t('common.loading')}</p>}
+        {!isLoading && error && <p className="text-center text-red-400 mb-8">{error}</p>}
+
+        {stats && (
+          <div className={`space-y-6 ${isLoading ? 'opacity-50' : ''}`}>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+              {[
+                { label: t('stats.approved'), value: approved },
+                { label: t('stats.rejected'), value: rejected },
+                { label: t('stats.approvalRate'), value: approvalRate },
+                { label: t('stats.medianTime'), value: formatHours(stats.timeToDecision.medianHours) },
+              ].map(card => (
+                <div key={card.label} className="bg-gray-800/50 backdrop-blur-sm rounded-2xl border border-gray-600/50 p-6 text-center">
+                  <p className="text-3xl font-bold text-amber-400">{card.value}</p>
+                  <p className="text-gray-400 mt-2">{card.label}</p>
+                </div>
+              ))}
+            </div>
+
+            <ChartCard
+              title={t('stats.decisions')}
+              onExport={() => exportCsv('decisions', [
+                { header: 'bucket', value: d => d.bucket },
+                { header: 'approved', value: d => d.approved },
+                { header: 'rejected', value: d => d.rejected },
+                { header: 'undone', value: d => d.undone },
+              ], stats.decisions)}
+            >
+              <ColumnChart
+                points={stats.decisions.map(d => ({ label: bucketLabel(d.bucket), values: [d.approved, d.rejected] }))}
+                series={[{ name: t('stats.approved'), className: 'bg-green-500' }, { name: t('stats.rejected'), className: 'bg-red-500' }]}
+              />
+            </ChartCard>
+
+            <ChartCard
+              title={t('stats.backlog')}
+              onExport={() => exportCsv('backlog', [
+                { header: 'bucket', value: b => b.bucket },
+                { header: 'pending', value: b => b.pending },
+              ], stats.backlog)}
+            >
+              <ColumnChart
+                points={stats.backlog.map(b => ({ label: bucketLabel(b.bucket), values: [b.pending] }))}
+                series={[{ name: t('stats.pendingAtEnd'), className: 'bg-amber-500' }]}
+              />
+            </ChartCard>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <ChartCard
+                title={t('stats.rejectionReasons')}
+                onExport={() => exportCsv('rejection-reasons', [
+                  { header: 'reason', value: r => r.reason },
+                  { header: 'count', value: r => r.count },
+                ], stats.rejectionReasons)}
+              >
+                <BarList rows={stats.rejectionReasons.map(r => ({ label: rejectionLabel(r.reason), value: r.count }))} />
+              </ChartCard>
+
+              <ChartCard
+                title={t('stats.moderators')}
+                onExport={() => exportCsv('moderators', [
+                  { header: 'admin_id', value: m => m.adminId },
+                  { header: 'email', value: m => m.email },
+                  { header: 'approved', value: m => m.approved },
+                  { header: 'rejected', value: m => m.rejected },
+                ], stats.moderators)}
+              >
+                <BarList
+                  rows={stats.moderators.map(m => ({
+                    label: m.email || m.adminId,
+                    value: m.approved + m.rejected,
+                    detail: t('stats.moderatorDecisions', { approved: m.approved, rejected: m.rejected }),
+                  }))}
+                />
+              </ChartCard>
+
+              <ChartCard
+                title={t('stats.byGender')}
+                onExport={() => exportCsv('verified-by-gender', [
+                  { header: 'gender', value: g => g.gender },
+                  { header: 'count', value: g => g.count },
+                ], stats.verifiedByGender)}
+              >
+                <BarList rows={stats.verifiedByGender.map(g => ({ label: g.gender, value: g.count }))} />
+              </ChartCard>
+
+              <ChartCard
+                title={t('stats.byCountry')}
+                onExport={() => exportCsv('verified-by-country', [
+                  { header: 'country', value: c => c.country },
+                  { header: 'count', value: c => c.count },
+                ], stats.verifiedByCountry)}
+              >
+                <BarList rows={stats.verifiedByCountry.map(c => ({ label: c.country, value: c.count }))} />
+              </ChartCard>
+            </div>
+
+            <p className="text-center text-gray-500 text-sm">
+              {t('stats.footnote', { average: formatHours(stats.timeToDecision.averageHours) })}
+            </p>
+          </div>
+        )}
+
+        {can(currentAdmin, 'backfillPhotoHashes') && <PhotoHashBackfill />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { moderationRequest } from '@/lib/moderation-api';
+import { can } from '@/lib/roles';
+import { suspensionState } from '@/lib/suspensions';
+import type { SuspendedUser } from '@/lib/types';
+import { useCurrentAdmin } from '@/lib/use-current-admin';
+import { useI18n } from '@/lib/use-i18n';
+
+type ActionStatus = { state: 'idle' | 'saving' | 'done' | 'error'; message: string };
+
+const SEARCH_DEBOUNCE = 300;
+
+async function fetchSuspensions(search: string) {
+  const params = new URLSearchParams();
+  if (search.trim()) params.set('search', search.trim());
+  return moderationRequest<{ suspensions: SuspendedUser[] }>(`suspensions?${params}`, undefined, 'GET');
+}
+
+export default function SuspensionsPage() {
+  const [suspensions, setSuspensions] = useState<SuspendedUser[]>([]);
+  const [search, setSearch] = useState('');
+  const [reloadKey, setReloadKey] = useState(0);
+  const [status, setStatus] = useState<ActionStatus>({ state: 'idle', message: '' });
+  const currentAdmin = useCurrentAdmin();
+  const { t, formatDateTime, country } = useI18n();
+  const router = useRouter();
+
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      fetchSuspensions(search).then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) setStatus({ state: 'error', message: error });
+        setSuspensions(data?.suspensions ?? []);
+      });
+    }, SEARCH_DEBOUNCE);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [search, reloadKey]);
+
+  async function lift(suspension: SuspendedUser) {
+    setStatus({ state: 'saving', message: t('suspensions.lifting') });
+    const { error } = await moderationRequest(`suspensions/${suspension.id}`, {});
+    if (error) {
+      setStatus({ state: 'error', message: error });
+      return;
+    }
+    setStatus({ state: 'done', message: t('suspensions.lifted', { name: suspension.user.name || t('common.anonymous') }) });
+    setReloadKey(prev => prev + 1);
+  }
+
+  const canLift = can(currentAdmin, 'suspendUsers');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black text-white p-8">
+      <div className="max-w-7xl mx-auto">
+        <button
+          onClick={() => router.push('/dashboard')}
+          className="mb-8 px-6 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
+        >
+          {t('common.backToDashboard')}
+        </button>
+
+        <h1 className="text-4xl font-bold text-center mb-6 bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+          {t('suspensions.title')}
+        </h1>
+        <p className="text-center text-gray-400 mb-6">
+          {t('suspensions.hint')}
+        </p>
+
+        <div className="flex justify-center mb-4">
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('suspensions.searchPlaceholder')}
+            className="w-full max-w-md px-4 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-amber-500"
+          />
+        </div>
+
+        {status.state !== 'idle' && (
+          <p
+            className={`text-center mb-4 ${
+              status.state === 'error' ? 'text-red-400' : status.state === 'saving' ? 'text-amber-400 animate-pulse' : 'text-green-400'
+            }`}
+          >
+            {status.message}
+          </p>
+        )}
+
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl border border-gray-600/50 overflow-x-auto mt-8">
+          <table className="w-full text-left">
+            <thead className="text-gray-400 text-sm uppercase">
+              <tr>
+                <th className="px-6 py-4">{t('suspensions.user')}</th>
+                <th className="px-6 py-4">{t('suspensions.status')}</th>
+                <th className="px-6 py-4">{t('common.from')}</th>
+                <th className="px-6 py-4">{t('suspensions.until')}</th>
+                <th className="px-6 py-4">{t('suspensions.reason')}</th>
+                <th className="px-6 py-4"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {suspensions.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    {search.trim() ? t('suspensions.noMatches') : t('suspensions.empty')}
+                  </td>
+                </tr>
+              )}
+              {suspensions.map(suspension => (
+                <tr key={suspension.id} className="border-t border-gray-700/50">
+                  <td className="px-6 py-4">
+                    <Link href={`/dashboard/users/${suspension.user.id}`} className="font-bold text-amber-300 hover:text-amber-200">
+                      {suspension.user.name || t('common.anonymous')}
+                    </Link>
+                    <p className="text-sm text-gray-500">{suspension.user.age}{suspension.user.country && ` • ${country(suspension.user.country)}`}</p>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={suspension.ends_at ? 'text-orange-300' : 'text-red-400 font-bold'}>
+                      {suspension.ends_at ? t('suspensions.suspended') : t('suspensions.banned')}
+                    </span>
+                    <span className="text-gray-500"> • {t(`suspensionState.${suspensionState(suspension)}`)}</span>
+                  </td>
+                  <td className="px-6 py-4 text-gray-400 whitespace-nowrap">{formatDateTime(suspension.starts_at)}</td>
+                  <td className="px-6 py-4 text-gray-400 whitespace-nowrap">
+                    {suspension.ends_at ? formatDateTime(suspension.ends_at) : t('suspensions.permanent')}
+                  </td>
+                  <td className="px-6 py-4 text-gray-300">{suspension.reason}</td>
+                  <td className="px-6 py-4 text-right">
+                    {canLift && (
+                      <button
+                        onClick={() => lift(suspension)}
+                        disabled={status.state === 'saving'}
+                        className="px-4 py-2 bg-gray-700 rounded-lg font-bold text-sm hover:bg-gray-600 transition-all duration-300 disabled:opacity-50 whitespace-nowrap"
+                      >
+                        {t('suspensions.liftNow')}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
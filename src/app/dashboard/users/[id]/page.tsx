@@ -0,0 +1,455 @@
+'use client';
+import { useParams, useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { AnimatePresence } from 'framer-motion';
+import { findOption } from '@/lib/attribute-options';
+import { moderationRequest } from '@/lib/moderation-api';
+import type { PhotoRemovalReason } from '@/lib/photo-reasons';
+import { RejectionReasonCode } from '@/lib/rejection-reasons';
+import { can } from '@/lib/roles';
+import {
+  SUSPENSION_DURATIONS,
+  Suspension,
+  isCurrentSuspension,
+  suspensionEnd,
+  suspensionState,
+} from '@/lib/suspensions';
+import { UserDetail } from '@/lib/types';
+import { useAttributeOptions } from '@/lib/use-attribute-options';
+import { useCurrentAdmin } from '@/lib/use-current-admin';
+import { useI18n } from '@/lib/use-i18n';
+import { VERIFICATION_PHOTO_REFRESH_MS } from '@/lib/verification-photo-links';
+import DuplicatePanel from '../../_components/DuplicatePanel';
+import PhotoRemovalDialog from '../../_components/PhotoRemovalDialog';
+
+type ActionStatus = { state: 'idle' | 'saving' | 'done' | 'error'; message: string };
+
+async function fetchUserDetail(id: string) {
+  return moderationRequest<UserDetail>(`users/${id}`, undefined, 'GET');
+}
+
+export default function UserDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const [detail, setDetail] = useState<UserDetail | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [form, setForm] = useState({ name: '', age: '', country: '' });
+  const [resetReason, setResetReason] = useState('');
+  const [suspendForm, setSuspendForm] = useState({ reason: '', days: '7', startsAt: '' }); // days is 'permanent' for a ban
+  const [liftReason, setLiftReason] = useState('');
+  const [removingPhoto, setRemovingPhoto] = useState<string | null>(null);
+  const [status, setStatus] = useState<ActionStatus>({ state: 'idle', message: '' });
+  const currentAdmin = useCurrentAdmin();
+  const genderOptions = useAttributeOptions('gender');
+  const { t, formatDateTime } = useI18n();
+  const router = useRouter();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchUserDetail(id).then(({ data, error }) => {
+      if (cancelled) return;
+      setDetail(data);
+      setLoadError(error);
+      if (data) {
+        setForm({ name: data.user.name ?? '', age: data.user.age?.toString() ?? '', country: data.user.country ?? '' });
+      }
+    });
+    return () => { cancelled = true; };
+  }, [id, reloadKey]);
+
+  // The verification photo links are short-lived, so they are re-signed while the page stays open
+  useEffect(() => {
+    const interval = setInterval(() => {
+      fetchUserDetail(id).then(({ data }) => {
+        if (data) setDetail(prev => prev && { ...prev, verificationPhotos: data.verificationPhotos });
+      });
+    }, VERIFICATION_PHOTO_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [id]);
+
+  async function runAction(message: string, request: () => Promise<{ error: string | null }>) {
+    setStatus({ state: 'saving', message: t('common.inProgress', { action: message }) });
+    const { error } = await request();
+    if (error) {
+      setStatus({ state: 'error', message: error });
+      return;
+    }
+    setStatus({ state: 'done', message: t('userDetail.saved', { action: message }) });
+    setReloadKey(prev => prev + 1);
+  }
+
+  function saveProfile() {
+    const age = form.age.trim() ? Number(form.age) : null;
+    if (age !== null && !Number.isInteger(age)) {
+      setStatus({ state: 'error', message: t('userDetail.ageNotWhole') });
+      return;
+    }
+    runAction(t('userDetail.updatingProfile'), () => moderationRequest(`users/${id}`, { name: form.name, age, country: form.country }));
+  }
+
+  function changeGender(gender: string | null) {
+    const label = findOption(genderOptions, gender)?.label;
+    runAction(label ? t('userDetail.settingGender', { label }) : t('userDetail.clearingGender'), () => moderationRequest('gender', { userId: id, gender }));
+  }
+
+  function resetVerification() {
+    runAction(t('userDetail.resetting'), () => moderationRequest(`users/${id}/reset`, { reason: resetReason }));
+    setResetReason('');
+  }
+
+  async function suspend() {
+    const startsAt = suspendForm.startsAt ? new Date(suspendForm.startsAt) : new Date();
+    const endsAt = suspensionEnd(startsAt, suspendForm.days === 'permanent' ? null : Number(suspendForm.days));
+    await runAction(endsAt ? t('userDetail.suspending') : t('userDetail.banning'), () =>
+      moderationRequest('suspensions', {
+        userId: id,
+        reason: suspendForm.reason,
+        startsAt: suspendForm.startsAt ? startsAt.toISOString() : undefined,
+        endsAt: endsAt?.toISOString() ?? null,
+      })
+    );
+    setSuspendForm(prev => ({ ...prev, reason: '', startsAt: '' }));
+  }
+
+  function liftSuspension(suspensionId: string) {
+    runAction(t('userDetail.lifting'), () => moderationRequest(`suspensions/${suspensionId}`, { reason: liftReason }));
+    setLiftReason('');
+  }
+
+  function removePhoto(url: string, reason: PhotoRemovalReason, note: string) {
+    setRemovingPhoto(null);
+    runAction(t('userDetail.removingPhoto'), () => moderationRequest(`users/${id}/photos`, { url, reason, note }, 'DELETE'));
+  }
+
+  function suspensionWindow(suspension: Suspension) {
+    const start = formatDateTime(suspension.starts_at);
+    return suspension.ends_at
+      ? t('userDetail.window', { start, end: formatDateTime(suspension.ends_at) })
+      : t('userDetail.permanentFrom', { start });
+  }
+
+  function formatValue(value: unknown) {
+    if (value === null || value === undefined || value === '') return '—';
+    if (Array.isArray(value)) return t('userDetail.items', { count: value.length });
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  }
+
+  function rejectionLabel(code: RejectionReasonCode | null) {
+    return code ? t(`rejectionReason.${code}`) : t('common.unknown');
+  }
+
+  const inputClass = 'w-full px-4 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-amber-500';
+  const sectionClass = 'bg-gray-800/50 backdrop-blur-sm rounded-2xl border border-gray-600/50 p-6';
+
+  if (!detail) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black text-white flex items-center justify-center">
+        {loadError ? (
+          <p className="text-2xl text-red-400">{loadError}</p>
+        ) : (
+          <div className="text-2xl text-amber-400 animate-pulse">{t('userDetail.loading')}</div>
+        )}
+      </div>
+    );
+  }
+
+  const { user } = detail;
+  const canEdit = can(currentAdmin, 'editProfiles');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black text-white p-8">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <button
+          onClick={() => router.push('/dashboard')}
+          className="px-6 py-3 bg-gray-800/50 backdrop-blur-sm rounded-xl font-bold text-lg hover:bg-gray-700/50 transition-all duration-300 border border-gray-600 hover:border-amber-500"
+        >
+          {t('common.backToDashboard')}
+        </button>
+
+        <div className="text-center">
+          <h1 className="text-4xl font-bold mb-2 bg-gradient-to-r from-amber-400 to-orange-500 bg-clip-text text-transparent">
+            {user.name || t('common.anonymous')}
+          </h1>
+          <p className="text-gray-500 font-mono">{user.id}</p>
+          {status.state !== 'idle' && (
+            <p
+              className={`mt-4 ${
+                status.state === 'error' ? 'text-red-400' : status.state === 'saving' ? 'text-amber-400 animate-pulse' : 'text-green-400'
+              }`}
+            >
+              {status.message}
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className={sectionClass}>
+            <h2 className="text-xl font-bold text-amber-300 mb-4">{t('userDetail.record')}</h2>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-2">
+              {Object.entries(user).map(([key, value]) => (
+                <div key={key} className="contents">
+                  <dt className="text-gray-400 font-mono text-sm">{key}</dt>
+                  <dd className="text-gray-200 break-all">{formatValue(value)}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+
+          <div className="space-y-8">
+            <div className={`${sectionClass} space-y-4`}>
+              <h2 className="text-xl font-bold text-amber-300">{t('userDetail.editProfile')}</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {(['name', 'age', 'country'] as const).map(field => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-400 mb-2">{t(`userDetail.${field}`)}</label>
+                    <input
+                      type={field === 'age' ? 'number' : 'text'}
+                      value={form[field]}
+                      onChange={(e) => setForm(prev => ({ ...prev, [field]: e.target.value }))}
+                      disabled={!canEdit}
+                      className={`${inputClass} disabled:opacity-50`}
+                    />
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={saveProfile}
+                disabled={!canEdit || status.state === 'saving'}
+                className="px-6 py-2 bg-gradient-to-r from-amber-500 to-orange-600 rounded-xl font-bold transition-all duration-300 disabled:opacity-50"
+              >
+                {t('userDetail.saveProfile')}
+              </button>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">{t('userDetail.gender')}</label>
+                <select
+                  value={user.gender ?? ''}
+                  onChange={(e) => changeGender(e.target.value || null)}
+                  disabled={!can(currentAdmin, 'changeGender') || status.state === 'saving'}
+                  className={inputClass}
+                >
+                  <option value="">{t('gender.unset')}</option>
+                  {genderOptions.map(o => (
+                    <option key={o.value} value={o.value} disabled={!!o.archived_at}>
+                      {o.archived_at ? t('gender.archived', { label: o.label }) : o.label}
+                    </option>
+                  ))}
+                  {user.gender && !genderOptions.some(o => o.value === user.gender) && (
+                    <option value={user.gender} disabled>{user.gender}</option>
+                  )}
+                </select>
+              </div>
+            </div>
+
+            <div className={`${sectionClass} space-y-4`}>
+              <h2 className="text-xl font-bold text-amber-300">{t('userDetail.verification')}</h2>
+              <p className="text-gray-300">
+                {t('userDetail.status')}{' '}
+                <span className="font-bold">{user.is_verified ? t(`status.${user.is_verified}`) : t('common.unknown')}</span>
+                {user.rejection_reason && <> — {rejectionLabel(user.rejection_reason)}</>}
+              </p>
+              {user.resubmission_requested_at && (
+                <p className="text-amber-400">
+                  {t('userDetail.resubmissionRequested', { time: formatDateTime(user.resubmission_requested_at) })}
+                </p>
+              )}
+              <input
+                value={resetReason}
+                onChange={(e) => setResetReason(e.target.value)}
+                placeholder={t('userDetail.resetPlaceholder')}
+                className={inputClass}
+              />
+              <button
+                onClick={resetVerification}
+                disabled={!can(currentAdmin, 'reverseDecisions') || status.state === 'saving'}
+                className="px-6 py-2 bg-gray-700 rounded-xl font-bold hover:bg-gray-600 transition-all duration-300 disabled:opacity-50"
+              >
+                {t('userDetail.reset')}
+              </button>
+            </div>
+
+            <div className={`${sectionClass} space-y-4`}>
+              <h2 className="text-xl font-bold text-amber-300">{t('userDetail.suspensions')}</h2>
+              {detail.suspensions.length === 0 && <p className="text-gray-500">{t('userDetail.neverSuspended')}</p>}
+              <ul className="space-y-3">
+                {detail.suspensions.map(s => (
+                  <li key={s.id} className="border-b border-gray-700/50 pb-3 space-y-1">
+                    <p className="font-bold text-red-300">
+                      {s.ends_at ? t('userDetail.suspension') : t('userDetail.ban')} — {t(`suspensionState.${suspensionState(s)}`)}
+                    </p>
+                    <p className="text-sm text-gray-400">{suspensionWindow(s)}</p>
+                    <p className="text-sm text-gray-300">{s.reason}</p>
+                    {s.lifted_at && (
+                      <p className="text-sm text-gray-500">
+                        {t('userDetail.lifted', { time: formatDateTime(s.lifted_at) })}{s.lift_reason && ` — ${s.lift_reason}`}
+                      </p>
+                    )}
+                    {isCurrentSuspension(s) && can(currentAdmin, 'suspendUsers') && (
+                      <div className="flex gap-2 pt-1">
+                        <input
+                          value={liftReason}
+                          onChange={(e) => setLiftReason(e.target.value)}
+                          placeholder={t('userDetail.liftPlaceholder')}
+                          className={inputClass}
+                        />
+                        <button
+                          onClick={() => liftSuspension(s.id)}
+                          disabled={status.state === 'saving'}
+                          className="px-4 py-2 bg-gray-700 rounded-lg font-bold text-sm hover:bg-gray-600 transition-all duration-300 disabled:opacity-50 whitespace-nowrap"
+                        >
+                          {t('userDetail.lift')}
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              {can(currentAdmin, 'suspendUsers') && !detail.suspensions.some(isCurrentSuspension) && (
+                <div className="space-y-3">
+                  <input
+                    value={suspendForm.reason}
+                    onChange={(e) => setSuspendForm(prev => ({ ...prev, reason: e.target.value }))}
+                    placeholder={t('userDetail.reasonPlaceholder')}
+                    className={inputClass}
+                  />
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-400 mb-2">{t('userDetail.length')}</label>
+                      <select
+                        value={suspendForm.days}
+                        onChange={(e) => setSuspendForm(prev => ({ ...prev, days: e.target.value }))}
+                        className={inputClass}
+                      >
+                        {SUSPENSION_DURATIONS.map(d => (
+                          <option key={d.label} value={d.days ?? 'permanent'}>{t(`suspensionLength.${d.days ?? 'permanent'}`)}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-400 mb-2">{t('userDetail.startsAt')}</label>
+                      <input
+                        type="datetime-local"
+                        value={suspendForm.startsAt}
+                        onChange={(e) => setSuspendForm(prev => ({ ...prev, startsAt: e.target.value }))}
+                        className={inputClass}
+                      />
+                    </div>
+                  </div>
+                  <button
+                    onClick={suspend}
+                    disabled={!suspendForm.reason.trim() || status.state === 'saving'}
+                    className="px-6 py-2 bg-gradient-to-r from-red-600 to-red-700 rounded-xl font-bold transition-all duration-300 disabled:opacity-50"
+                  >
+                    {suspendForm.days === 'permanent' ? t('userDetail.banPermanently') : t('userDetail.suspend')}
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className={sectionClass}>
+          <h2 className="text-xl font-bold text-amber-300 mb-4">{t('userDetail.profilePhotos', { count: user.image_urls?.length ?? 0 })}</h2>
+          {(!user.image_urls || user.image_urls.length === 0) && <p className="text-gray-500">{t('verify.noProfilePhotos')}</p>}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {user.image_urls?.map((url, i) => (
+              <div key={url} className="space-y-2">
+                <a href={url} target="_blank" rel="noopener noreferrer">
+                  <img src={url} alt={t('verify.profilePhotoAlt', { number: i + 1 })} className="w-full rounded-xl border border-gray-600" />
+                </a>
+                {canEdit && (
+                  <button
+                    onClick={() => setRemovingPhoto(url)}
+                    disabled={status.state === 'saving'}
+                    className="w-full px-4 py-2 bg-red-700/80 rounded-lg font-bold text-sm hover:bg-red-600 transition-all duration-300 disabled:opacity-50"
+                  >
+                    {t('userDetail.removePhoto')}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className={sectionClass}>
+          <h2 className="text-xl font-bold text-amber-300 mb-4">{t('userDetail.verificationPhotos', { count: detail.verificationPhotos.length })}</h2>
+          {detail.verificationPhotos.length === 0 && <p className="text-gray-500">{t('verify.noVerificationPhotos')}</p>}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {detail.verificationPhotos.map((url, i) => (
+              <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                <img src={url} alt={t('verify.verificationPhotoAlt', { number: i + 1 })} className="w-full rounded-xl border border-gray-600" />
+              </a>
+            ))}
+          </div>
+        </div>
+
+        <div className={sectionClass}>
+          <h2 className="text-xl font-bold text-amber-300 mb-4">{t('userDetail.duplicates')}</h2>
+          <DuplicatePanel key={user.id} userId={user.id} />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className={sectionClass}>
+            <h2 className="text-xl font-bold text-amber-300 mb-4">{t('userDetail.history')}</h2>
+            {detail.audit.length === 0 && <p className="text-gray-500">{t('userDetail.noHistory')}</p>}
+            <ul className="space-y-3">
+              {detail.audit.map(entry => (
+                <li key={entry.id} className="border-b border-gray-700/50 pb-3">
+                  <p className="font-bold">{t(`auditAction.${entry.action}`)}</p>
+                  <p className="text-sm text-gray-400">
+                    {formatDateTime(entry.created_at)} • {entry.admin_email || entry.admin_id}
+                  </p>
+                  <p className="text-sm text-gray-300 break-all">
+                    {entry.old_value ?? '—'} → {entry.new_value ?? '—'}
+                    {entry.reason && <span className="text-gray-500"> ({entry.reason})</span>}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="space-y-8">
+            <div className={sectionClass}>
+              <h2 className="text-xl font-bold text-amber-300 mb-4">{t('userDetail.rejections')}</h2>
+              {detail.rejections.length === 0 && <p className="text-gray-500">{t('userDetail.neverRejected')}</p>}
+              <ul className="space-y-3">
+                {detail.rejections.map(r => (
+                  <li key={r.id} className="border-b border-gray-700/50 pb-3">
+                    <p className="font-bold text-red-300">{rejectionLabel(r.reason)}</p>
+                    <p className="text-sm text-gray-400">{formatDateTime(r.created_at)}</p>
+                    {r.note && <p className="text-sm text-gray-300">{r.note}</p>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className={sectionClass}>
+              <h2 className="text-xl font-bold text-amber-300 mb-4">{t('userDetail.escalations')}</h2>
+              {detail.escalations.length === 0 && <p className="text-gray-500">{t('userDetail.neverEscalated')}</p>}
+              <ul className="space-y-3">
+                {detail.escalations.map(e => (
+                  <li key={e.id} className="border-b border-gray-700/50 pb-3">
+                    <p className="font-bold text-purple-300">{e.resolved_at ? t('userDetail.escalationResolved') : t('userDetail.escalationOpen')}</p>
+                    <p className="text-sm text-gray-400">{formatDateTime(e.created_at)}</p>
+                    <p className="text-sm text-gray-300">{e.note}</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <AnimatePresence>
+        {removingPhoto && (
+          <PhotoRemovalDialog
+            photoUrl={removingPhoto}
+            userName={user.name || t('common.anonymous')}
+            onConfirm={(reason, note) => removePhoto(removingPhoto, reason, note)}
+            onCancel={() => setRemovingPhoto(null)}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -1,19 +1,18 @@
 'use client';
 
-import { createClient } from '@supabase/supabase-js';
 import { useRouter } from 'next/navigation';
 import { useEffect } from 'react';
 import { GoogleOAuthProvider, GoogleLogin } from '@react-oauth/google';
-
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+import { isLocale, storeLocale } from '@/lib/i18n';
+import { supabase } from '@/lib/supabase/client';
+import { useI18n } from '@/lib/use-i18n';
+import LanguageSwitcher from '../_components/LanguageSwitcher';
 
 const GOOGLE_CLIENT_ID = process.env.NEXT_PUBLIC_GOOGLE_CLIENT_ID!;
 
 export default function LoginPage() {
   const router = useRouter();
+  const { t } = useI18n();
 
   // Auto-redirect if already logged in
   useEffect(() => {
@@ -35,13 +34,19 @@ export default function LoginPage() {
   const checkAdminAndRedirect = async (userId: string) => {
     const { data } = await supabase
       .from('admins')
-      .select('id')
+      .select('id, locale')
       .eq('id', userId)
+      .is('deactivated_at', null)
       .single();
 
+    // The admin's saved language wins over whatever this browser had
+    if (isLocale(data?.locale)) storeLocale(data.locale);
+
+    // Full navigation (not router.push) so the proxy sees the freshly written session cookie
     if (data) {
-      // This line ALWAYS works
       window.location.replace('/dashboard');
+    } else {
+      window.location.replace('/not-authorised');
     }
   };
 
@@ -59,15 +64,18 @@ export default function LoginPage() {
       <div className="min-h-screen bg-gray-950 flex items-center justify-center">
         <div className="bg-gray-900 p-12 rounded-2xl shadow-2xl">
           <h1 className="text-4xl font-bold text-amber-400 text-center mb-10">
-            Admin Login
+            {t('login.title')}
           </h1>
           <div className="flex justify-center">
             <GoogleLogin
               onSuccess={handleSuccess}
-              onError={() => alert('Google login failed')}
+              onError={() => alert(t('login.failed'))}
               useOneTap
             />
           </div>
+          <div className="flex justify-center mt-8">
+            <LanguageSwitcher />
+          </div>
         </div>
       </div>
     </GoogleOAuthProvider>
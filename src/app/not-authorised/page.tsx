@@ -0,0 +1,30 @@
+'use client';
+
+import { supabase } from '@/lib/supabase/client';
+import { useI18n } from '@/lib/use-i18n';
+
+export default function NotAuthorisedPage() {
+  const { t } = useI18n();
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut();
+    window.location.replace('/login');
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-950 flex items-center justify-center">
+      <div className="bg-gray-900 p-12 rounded-2xl shadow-2xl max-w-md text-center space-y-6">
+        <h1 className="text-4xl font-bold text-red-400">{t('notAuthorised.title')}</h1>
+        <p className="text-gray-400 text-lg">
+          {t('notAuthorised.body')}
+        </p>
+        <button
+          onClick={handleSignOut}
+          className="bg-gradient-to-r from-amber-500 to-orange-600 px-6 py-3 rounded-xl font-bold text-lg transition-all duration-300 shadow-lg hover:shadow-xl"
+        >
+          {t('notAuthorised.switchAccount')}
+        </button>
+      </div>
+    </div>
+  );
+}
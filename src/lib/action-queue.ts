@@ -0,0 +1,82 @@
+import { moderationRequest } from './moderation-api';
+
+// Moderation writes that go through the client-side action queue instead of being sent directly.
+export type QueuedActionKind = 'approve' | 'reject' | 'gender';
+
+export type QueuedAction = {
+  id: string;
+  kind: QueuedActionKind;
+  path: 'decision' | 'gender';
+  body: Record<string, unknown>; // Carries `expected`, so a replay after a reload can't overwrite someone else's change
+  userId: string;
+  userName: string | null;
+  state: 'pending' | 'failed' | 'conflict';
+  attempts: number;
+  error: string | null;
+  nextAttemptAt: number; // Epoch ms; later for each transient failure
+  createdAt: string;
+};
+
+// Resolved once an action stops being pending: sent, given up on, rejected as a conflict, or cancelled by undo
+export type QueueOutcome = { state: 'done' | 'failed' | 'conflict' | 'cancelled'; error: string | null };
+
+const STORAGE_KEY = 'mistmatch.pendingActions';
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY = 2000; // Doubles on every attempt: 2s, 4s, 8s, 16s
+
+// Per admin, so whoever signs in next on this browser never replays someone else's decisions
+function storageKey(adminId: string) {
+  return `${STORAGE_KEY}.${adminId}`;
+}
+
+export function loadQueuedActions(adminId: string): QueuedAction[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(adminId)) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveQueuedActions(adminId: string, actions: QueuedAction[]) {
+  if (actions.length === 0) localStorage.removeItem(storageKey(adminId));
+  else localStorage.setItem(storageKey(adminId), JSON.stringify(actions));
+}
+
+export function createQueuedAction(
+  kind: QueuedActionKind,
+  user: { id: string; name: string | null },
+  body: Record<string, unknown>
+): QueuedAction {
+  return {
+    id: crypto.randomUUID(),
+    kind,
+    path: kind === 'gender' ? 'gender' : 'decision',
+    body: { ...body, userId: user.id },
+    userId: user.id,
+    userName: user.name,
+    state: 'pending',
+    attempts: 0,
+    error: null,
+    nextAttemptAt: 0,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// No response, timeouts, rate limiting and server errors may well succeed on a later attempt
+function isTransient(status: number) {
+  return status === 0 || status === 408 || status === 429 || status >= 500;
+}
+
+// Sends one action; returns null once it has landed, or the action updated for its next state
+export async function sendQueuedAction(action: QueuedAction): Promise<QueuedAction | null> {
+  const { error, status } = await moderationRequest(action.path, action.body);
+  if (!error) return null;
+
+  const attempts = action.attempts + 1;
+  if (status === 409) return { ...action, attempts, error, state: 'conflict' };
+  if (isTransient(status) && attempts < MAX_ATTEMPTS) {
+    return { ...action, attempts, error, nextAttemptAt: Date.now() + RETRY_BASE_DELAY * 2 ** (attempts - 1) };
+  }
+  return { ...action, attempts, error, state: 'failed' };
+}
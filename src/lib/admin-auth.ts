@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { CurrentAdmin, Permission, can } from './roles';
+import { supabaseAdmin } from './supabase/admin';
+import { createSupabaseServerClient } from './supabase/server';
+
+type AdminCheck =
+  | { admin: CurrentAdmin; response: null }
+  | { admin: null; response: NextResponse };
+
+function deny(status: 401 | 403, error: string): AdminCheck {
+  return { admin: null, response: NextResponse.json({ error }, { status }) };
+}
+
+// Resolves the caller from the session cookie and confirms they are an active admin whose role grants `permission`.
+// The proxy already checks membership; route handlers repeat it so they are never exposed on their own.
+export async function requireAdmin(permission?: Permission): Promise<AdminCheck> {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return deny(401, 'Not signed in');
+
+  const { data: admin } = await supabaseAdmin
+    .from('admins')
+    .select('role')
+    .eq('id', user.id)
+    .is('deactivated_at', null)
+    .maybeSingle();
+  if (!admin) return deny(403, 'Not an admin');
+
+  const current: CurrentAdmin = { id: user.id, email: user.email ?? null, role: admin.role };
+  if (permission && !can(current, permission)) return deny(403, 'Your role does not allow this');
+
+  return { admin: current, response: null };
+}
+
+export async function readJson(request: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === 'object' && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+export function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
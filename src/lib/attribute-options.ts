@@ -0,0 +1,81 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Profile attributes whose values come from attribute_options. `column` is the users column holding the value.
+// Gender is the only profile field with a fixed set of values; name, age and country are free-form and are edited
+// directly. Another pick-list field needs its users column and an entry here, and the options page picks it up.
+export const ATTRIBUTES = [
+  { attribute: 'gender', column: 'gender', label: 'Gender' },
+] as const;
+
+export type AttributeName = (typeof ATTRIBUTES)[number]['attribute'];
+
+// Tailwind needs complete class names in the source, so every colour spells its classes out
+export const OPTION_COLORS = {
+  gray: { badge: 'bg-gray-600 text-gray-100', button: 'bg-gray-500 text-white', swatch: 'bg-gray-500' },
+  blue: { badge: 'bg-blue-500 text-white', button: 'bg-blue-600 text-white', swatch: 'bg-blue-500' },
+  pink: { badge: 'bg-pink-500 text-white', button: 'bg-pink-600 text-white', swatch: 'bg-pink-500' },
+  purple: { badge: 'bg-purple-500 text-white', button: 'bg-purple-600 text-white', swatch: 'bg-purple-500' },
+  green: { badge: 'bg-green-500 text-white', button: 'bg-green-600 text-white', swatch: 'bg-green-500' },
+  amber: { badge: 'bg-amber-500 text-black', button: 'bg-amber-600 text-white', swatch: 'bg-amber-500' },
+  red: { badge: 'bg-red-500 text-white', button: 'bg-red-600 text-white', swatch: 'bg-red-500' },
+  cyan: { badge: 'bg-cyan-500 text-black', button: 'bg-cyan-600 text-white', swatch: 'bg-cyan-500' },
+} as const;
+
+export type OptionColor = keyof typeof OPTION_COLORS;
+
+// Shown for users with no value at all; never stored
+export const UNSET_BADGE_CLASS = 'bg-gray-800 text-gray-400 border border-dashed border-gray-500';
+
+export type AttributeOption = {
+  attribute: AttributeName;
+  value: string;
+  label: string;
+  color: OptionColor;
+  sort_order: number;
+  archived_at: string | null;
+};
+
+export const RESERVED_OPTION_VALUES = ['all', 'unknown']; // Used by the grid's gender filter
+
+export function isAttributeName(value: unknown): value is AttributeName {
+  return ATTRIBUTES.some(a => a.attribute === value);
+}
+
+export function isOptionColor(value: unknown): value is OptionColor {
+  return typeof value === 'string' && value in OPTION_COLORS;
+}
+
+// Archived options included; callers that assign values should filter them out
+export async function fetchAttributeOptions(client: SupabaseClient, attribute: AttributeName): Promise<AttributeOption[]> {
+  const { data, error } = await client
+    .from('attribute_options')
+    .select('attribute, value, label, color, sort_order, archived_at')
+    .eq('attribute', attribute)
+    .order('sort_order')
+    .order('label');
+  if (error) {
+    console.error(`Error loading ${attribute} options:`, error);
+    return [];
+  }
+  return (data || []) as AttributeOption[];
+}
+
+export function isAssignable(options: AttributeOption[], value: unknown): value is string {
+  return options.some(o => o.value === value && !o.archived_at);
+}
+
+// A stored value with no matching option is shown as-is rather than hidden
+export function findOption(options: AttributeOption[], value: string | null) {
+  if (value === null) return null;
+  return options.find(o => o.value === value) ?? { value, label: value, color: 'gray' as const, archived_at: null };
+}
+
+// Classes for an option's colour; anything not in OPTION_COLORS is drawn gray rather than breaking the page
+export function optionColorClasses(color: string) {
+  return OPTION_COLORS[isOptionColor(color) ? color : 'gray'];
+}
+
+export function optionBadgeClass(options: AttributeOption[], value: string | null) {
+  const option = findOption(options, value);
+  return option ? optionColorClasses(option.color).badge : UNSET_BADGE_CLASS;
+}
@@ -0,0 +1,31 @@
+import type { AuditAction } from './audit';
+import { supabaseAdmin } from './supabase/admin';
+
+type AuditRecord = {
+  admin: { id: string; email: string | null };
+  targetUserId: string;
+  action: AuditAction;
+  oldValue: string | null;
+  newValue: string | null;
+  reason?: string | null;
+};
+
+// Failures are logged rather than thrown: the moderation write has already happened by the time this runs.
+// Pass an array to record a bulk action in a single insert.
+export async function recordAudit(records: AuditRecord | AuditRecord[]) {
+  const rows = (Array.isArray(records) ? records : [records]).map(
+    ({ admin, targetUserId, action, oldValue, newValue, reason }) => ({
+      admin_id: admin.id,
+      admin_email: admin.email,
+      target_user_id: targetUserId,
+      action,
+      old_value: oldValue,
+      new_value: newValue,
+      reason: reason ?? null,
+    })
+  );
+  if (rows.length === 0) return;
+
+  const { error } = await supabaseAdmin.from('moderation_audit_log').insert(rows);
+  if (error) console.error('Error writing audit log:', error);
+}
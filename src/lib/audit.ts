@@ -0,0 +1,81 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const AUDIT_ACTIONS = [
+  { action: 'approve', label: 'Approved' },
+  { action: 'reject', label: 'Rejected' },
+  { action: 'gender_change', label: 'Gender changed' },
+  { action: 'undo', label: 'Decision undone' },
+  { action: 'escalate', label: 'Escalated' },
+  { action: 'profile_edit', label: 'Profile edited' },
+  { action: 'verification_reset', label: 'Verification reset' },
+  { action: 'photo_remove', label: 'Profile photo removed' },
+  { action: 'photo_approve', label: 'Profile photo approved' },
+  { action: 'report_dismiss', label: 'Reports dismissed' },
+  { action: 'user_warn', label: 'User warned' },
+  { action: 'verification_revoke', label: 'Verification revoked' },
+  { action: 'user_suspend', label: 'User suspended' },
+  { action: 'suspension_lift', label: 'Suspension lifted' },
+  { action: 'admin_invite', label: 'Admin invited' },
+  { action: 'admin_role_change', label: 'Admin role changed' },
+  { action: 'admin_deactivate', label: 'Admin deactivated' },
+  { action: 'admin_reactivate', label: 'Admin reactivated' },
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]['action'];
+
+export type AuditEntry = {
+  id: number;
+  admin_id: string;
+  admin_email: string | null;
+  target_user_id: string;
+  action: AuditAction;
+  old_value: string | null;
+  new_value: string | null;
+  reason: string | null;
+  created_at: string;
+};
+
+export type AuditFilters = {
+  admin: string; // Email fragment
+  action: string;
+  userId: string;
+  from: string; // yyyy-mm-dd, inclusive
+  to: string;
+};
+
+export const EMPTY_AUDIT_FILTERS: AuditFilters = { admin: '', action: 'all', userId: '', from: '', to: '' };
+
+export function parseAuditFilters(params: URLSearchParams): AuditFilters {
+  return {
+    admin: params.get('admin') ?? '',
+    action: params.get('action') ?? 'all',
+    userId: params.get('userId') ?? '',
+    from: params.get('from') ?? '',
+    to: params.get('to') ?? '',
+  };
+}
+
+export function auditFiltersToParams(filters: AuditFilters) {
+  const params = new URLSearchParams();
+  (Object.keys(EMPTY_AUDIT_FILTERS) as (keyof AuditFilters)[]).forEach(key => {
+    const value = filters[key].trim();
+    if (value && value !== EMPTY_AUDIT_FILTERS[key]) params.set(key, value);
+  });
+  return params;
+}
+
+type AuditQuery = ReturnType<ReturnType<SupabaseClient['from']>['select']>;
+
+export function applyAuditFilters(query: AuditQuery, filters: AuditFilters): AuditQuery {
+  if (filters.admin.trim()) query = query.ilike('admin_email', `%${filters.admin.trim()}%`);
+  if (filters.action !== 'all') query = query.eq('action', filters.action);
+  if (filters.userId.trim()) query = query.eq('target_user_id', filters.userId.trim());
+  if (filters.from) query = query.gte('created_at', new Date(filters.from).toISOString());
+  // The "to" date is inclusive, so compare against the start of the following day
+  if (filters.to) {
+    const end = new Date(filters.to);
+    end.setDate(end.getDate() + 1);
+    query = query.lt('created_at', end.toISOString());
+  }
+  return query;
+}
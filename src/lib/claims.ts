@@ -0,0 +1,45 @@
+import { supabaseAdmin } from './supabase/admin';
+import type { QueueStats } from './types';
+
+export const CLAIM_LEASE_MINUTES = 15;
+
+export async function fetchQueueStats(adminId: string): Promise<QueueStats> {
+  const { data, error } = await supabaseAdmin.rpc('verification_queue_stats', { p_admin_id: adminId }).single();
+  if (error || !data) {
+    console.error('Error loading queue stats:', error);
+    return { totalPending: 0, claimedByOthers: 0, escalated: 0 };
+  }
+  const stats = data as { total_pending: number; claimed_by_others: number; escalated: number };
+  return {
+    totalPending: Number(stats.total_pending),
+    claimedByOthers: Number(stats.claimed_by_others),
+    escalated: Number(stats.escalated),
+  };
+}
+
+// Returns the id of another admin holding a live claim on this user, if any.
+export async function findForeignClaim(userId: string, adminId: string) {
+  const { data } = await supabaseAdmin
+    .from('verification_claims')
+    .select('admin_id')
+    .eq('user_id', userId)
+    .neq('admin_id', adminId)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+  return data?.admin_id as string | undefined;
+}
+
+export async function claimUser(userId: string, adminId: string) {
+  const { error } = await supabaseAdmin.from('verification_claims').upsert({
+    user_id: userId,
+    admin_id: adminId,
+    claimed_at: new Date().toISOString(),
+    expires_at: new Date(Date.now() + CLAIM_LEASE_MINUTES * 60_000).toISOString(),
+  });
+  if (error) console.error('Error claiming user:', error);
+}
+
+export async function releaseClaim(userId: string) {
+  const { error } = await supabaseAdmin.from('verification_claims').delete().eq('user_id', userId);
+  if (error) console.error('Error releasing claim:', error);
+}
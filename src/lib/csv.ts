@@ -0,0 +1,20 @@
+export type CsvColumn<T> = { header: string; value: (row: T) => unknown };
+
+// Text that a spreadsheet would run as a formula when the file is opened
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quotes fields containing separators, quotes or newlines, per RFC 4180. User-supplied text that
+// looks like a formula gets a leading apostrophe so spreadsheets show it instead of evaluating it.
+export function csvField(value: unknown) {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvRow(fields: unknown[]) {
+  return fields.map(csvField).join(',') + '\r\n';
+}
+
+export function toCsv<T>(columns: CsvColumn<T>[], rows: T[]) {
+  return csvRow(columns.map(c => c.header)) + rows.map(row => csvRow(columns.map(c => c.value(row)))).join('');
+}
@@ -0,0 +1,65 @@
+import { csvRow } from './csv';
+import type { ExportFormat } from './export';
+
+const EXPORT_CHUNK_SIZE = 1000; // PostgREST's default row cap
+
+type Page = PromiseLike<{ data: unknown[] | null; error: unknown }>;
+
+// Walks a query in fixed-size ranges. The query needs a stable order (e.g. created_at, then id).
+export async function* paginate<T>(fetchPage: (from: number, to: number) => Page): AsyncGenerator<T[]> {
+  for (let from = 0; ; from += EXPORT_CHUNK_SIZE) {
+    const { data, error } = await fetchPage(from, from + EXPORT_CHUNK_SIZE - 1);
+    if (error) throw error;
+    if (data?.length) yield data as T[];
+    if (!data || data.length < EXPORT_CHUNK_SIZE) return;
+  }
+}
+
+// Streams records out as each page arrives, so large exports start downloading straight away
+// and the route never holds the whole result set in memory.
+export function streamExport(
+  fileName: string,
+  format: ExportFormat,
+  columns: readonly string[],
+  pages: AsyncGenerator<Record<string, unknown>[]>
+) {
+  const encoder = new TextEncoder();
+  let written = 0;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(format === 'csv' ? csvRow([...columns]) : '['));
+    },
+    async pull(controller) {
+      try {
+        const { value: records, done } = await pages.next();
+        if (done) {
+          if (format === 'json') controller.enqueue(encoder.encode(']'));
+          controller.close();
+          return;
+        }
+        const text = records
+          .map(record => (format === 'csv'
+            ? csvRow(columns.map(c => record[c]))
+            : `${written++ === 0 ? '' : ','}\n${JSON.stringify(record)}`))
+          .join('');
+        controller.enqueue(encoder.encode(text));
+      } catch (err) {
+        // Headers are already sent, so the best we can do is cut the download short
+        console.error(`Error exporting ${fileName}:`, err);
+        controller.error(err);
+      }
+    },
+    async cancel() {
+      await pages.return(undefined);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${fileName}.${format}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
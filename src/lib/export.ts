@@ -0,0 +1,40 @@
+export const EXPORT_FORMATS = ['csv', 'json'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const USER_EXPORT_COLUMNS = [
+  { column: 'id', label: 'ID' },
+  { column: 'name', label: 'Name' },
+  { column: 'age', label: 'Age' },
+  { column: 'gender', label: 'Gender' },
+  { column: 'country', label: 'Country' },
+  { column: 'is_verified', label: 'Verification status' },
+  { column: 'created_at', label: 'Signed up' },
+  { column: 'profile_photo_count', label: 'Profile photos' },
+  { column: 'verification_photo_count', label: 'Verification photos' },
+] as const;
+
+export type UserExportColumn = (typeof USER_EXPORT_COLUMNS)[number]['column'];
+
+export const AUDIT_EXPORT_COLUMNS = [
+  'id',
+  'created_at',
+  'admin_id',
+  'admin_email',
+  'action',
+  'target_user_id',
+  'old_value',
+  'new_value',
+  'reason',
+] as const;
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+// Unknown names are dropped; no list at all means every column.
+export function parseUserExportColumns(value: string | null): UserExportColumn[] {
+  if (!value) return USER_EXPORT_COLUMNS.map(c => c.column);
+  const requested = value.split(',');
+  return USER_EXPORT_COLUMNS.map(c => c.column).filter(column => requested.includes(column));
+}
@@ -0,0 +1,102 @@
+import { de } from './messages/de';
+import { en } from './messages/en';
+import { es } from './messages/es';
+
+export const LOCALES = [
+  { locale: 'en', label: 'English' },
+  { locale: 'de', label: 'Deutsch' },
+  { locale: 'es', label: 'Español' },
+] as const;
+
+export type Locale = (typeof LOCALES)[number]['locale'];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Read by the root layout so the first render is already in the admin's language
+export const LOCALE_COOKIE = 'mistmatch.locale';
+
+// A plain string, or one form per plural category chosen by the `count` parameter
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+export type MessageKey = keyof typeof en;
+
+export type Catalog = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Catalog> = { en, de, es };
+
+// Browser only. The cookie outlives the session so the login page is already in the right language.
+export function storeLocale(locale: Locale) {
+  document.cookie = `${LOCALE_COOKIE}=${locale}; path=/; max-age=${60 * 60 * 24 * 365}; samesite=lax`;
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some(l => l.locale === value);
+}
+
+// Saved choice first, then the browser's preferred languages, then English
+export function resolveLocale(saved: string | undefined, acceptLanguage: string | null): Locale {
+  if (isLocale(saved)) return saved;
+  for (const part of (acceptLanguage ?? '').split(',')) {
+    const language = part.split(';')[0].trim().split('-')[0].toLowerCase();
+    if (isLocale(language)) return language;
+  }
+  return DEFAULT_LOCALE;
+}
+
+// Missing translations fall back to English so a new string never renders as its key
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}) {
+  const message = CATALOGS[locale][key] ?? en[key];
+  const text = typeof message === 'string'
+    ? message
+    : message[new Intl.PluralRules(locale).select(Number(params.count ?? 0))] ?? message.other;
+  return text.replace(/\{(\w+)\}/g, (match, name) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? value.toLocaleString(locale) : value;
+  });
+}
+
+export function formatDateTime(locale: Locale, iso: string) {
+  return new Date(iso).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 60 * 60],
+  ['month', 30 * 24 * 60 * 60],
+  ['week', 7 * 24 * 60 * 60],
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60],
+];
+
+// "3 hours ago", "yesterday", "in 2 days"; anything under a minute is "now"
+export function formatRelativeTime(locale: Locale, iso: string, now: number) {
+  const seconds = (new Date(iso).getTime() - now) / 1000;
+  const format = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+  for (const [unit, size] of RELATIVE_UNITS) {
+    if (Math.abs(seconds) >= size) return format.format(Math.round(seconds / size), unit);
+  }
+  return format.format(0, 'second');
+}
+
+function isRegionCode(value: string) {
+  return /^[A-Za-z]{2}$/.test(value);
+}
+
+// ISO 3166 alpha-2 codes become localized names; anything else is shown as stored
+export function countryName(locale: Locale, country: string) {
+  if (!isRegionCode(country)) return country;
+  try {
+    return new Intl.DisplayNames([locale], { type: 'region', fallback: 'code' }).of(country.toUpperCase()) ?? country;
+  } catch {
+    return country;
+  }
+}
+
+// Pairs the code's letters as regional indicator symbols, which render as the country's flag
+export function countryFlag(country: string) {
+  if (!isRegionCode(country)) return '';
+  return String.fromCodePoint(...[...country.toUpperCase()].map(c => 0x1f1e6 + c.charCodeAt(0) - 65));
+}
@@ -0,0 +1,500 @@
+import type { Catalog } from '../i18n';
+
+export const de: Catalog = {
+  'common.anonymous': 'Anonym',
+  'common.backToDashboard': '← Zurück zum Dashboard',
+  'common.cancel': 'Abbrechen',
+  'common.close': 'Schließen',
+  'common.language': 'Sprache',
+  'common.unknown': 'Unbekannt',
+  'common.saving': 'Wird gespeichert...',
+  'common.failedToLoad': 'Laden fehlgeschlagen',
+
+  'login.title': 'Admin-Anmeldung',
+  'login.failed': 'Google-Anmeldung fehlgeschlagen',
+
+  'status.pending': 'Ausstehend',
+  'status.verified': 'Verifiziert',
+  'status.unverified': 'Nicht verifiziert',
+
+  'gender.unset': 'Nicht gesetzt',
+  'gender.archived': '{label} (archiviert)',
+
+  'rejectionReason.face_not_visible': 'Gesicht nicht erkennbar',
+  'rejectionReason.profile_mismatch': 'Passt nicht zu den Profilfotos',
+  'rejectionReason.wrong_pose': 'Falsche Pose',
+  'rejectionReason.suspected_fake': 'Verdacht auf Fälschung',
+  'rejectionReason.underage': 'Minderjährig',
+  'rejectionReason.other': 'Sonstiges',
+
+  'reject.title': '{name} ablehnen',
+  'reject.hint': 'Wähle einen Grund. Die Person erfährt, was sie korrigieren muss.',
+  'reject.notePlaceholder': 'Optionale Notiz für die Person',
+  'reject.notePlaceholderRequired': 'Beschreibe das Problem (erforderlich)',
+  'reject.confirm': 'Ablehnung bestätigen',
+
+  'escalate.title': '{name} eskalieren',
+  'escalate.hint': 'Die Person verlässt die normale Warteschlange, bis eine leitende Moderation entscheidet.',
+  'escalate.placeholder': 'Worauf soll die leitende Moderation achten? (erforderlich)',
+  'escalate.confirm': 'Eskalieren',
+  'escalate.failed': 'Eskalation fehlgeschlagen: {error}',
+
+  'dashboard.title': 'MistMatch Admin',
+  'dashboard.welcome': 'Willkommen zurück, {name}',
+  'dashboard.logout': 'Abmelden',
+  'dashboard.verifyUsers': 'Nutzer verifizieren ({count} ausstehend)',
+  'dashboard.escalated': 'Eskaliert ({count})',
+  'dashboard.claimedByOthers': {
+    one: '{count} wird gerade von einer anderen Moderation bearbeitet',
+    other: '{count} werden gerade von anderen Moderationen bearbeitet',
+  },
+  'dashboard.verifyGenders': 'Geschlechter prüfen',
+  'dashboard.reviewPhotos': 'Profilfotos prüfen',
+  'dashboard.reviewReports': 'Nutzermeldungen bearbeiten',
+  'dashboard.suspensions': 'Gesperrte Nutzer',
+  'dashboard.auditLog': 'Audit-Protokoll',
+  'dashboard.statistics': 'Statistiken',
+  'dashboard.manageAdmins': 'Admins verwalten',
+  'dashboard.attributeOptions': 'Attributoptionen',
+  'dashboard.nothingPending': 'Derzeit keine ausstehenden Verifizierungen. Gute Arbeit!',
+  'dashboard.recentlyDecided': 'Zuletzt entschieden',
+  'dashboard.approved': 'Angenommen',
+  'dashboard.rejected': 'Abgelehnt: {reason}',
+  'dashboard.reopen': 'Erneut öffnen',
+
+  'queueOrder.label': 'Reihenfolge',
+  'queueOrder.countriesPlaceholder': 'Ländercodes, z. B. DE, AT',
+  'queueOrder.save': 'Speichern',
+  'queueOrder.saved': 'Reihenfolge gespeichert',
+  'queueOrder.rules': 'Prioritätsregeln:',
+  'queueOrder.noRules': 'Keine Prioritätsregeln',
+  'queueOrder.editRules': 'Regeln bearbeiten',
+  'queueStrategy.oldest_first': 'Älteste Registrierungen zuerst',
+  'queueStrategy.newest_first': 'Neueste Registrierungen zuerst',
+  'queueStrategy.resubmissions_first': 'Erneute Einreichungen zuerst',
+  'queueStrategy.countries_first': 'Meine Länder zuerst',
+  'queueStrategy.most_photos': 'Meiste Profilfotos zuerst',
+  'queueRule.country': 'Aus {value}',
+  'queueRule.resubmission': 'Erneute Einreichungen',
+  'queueRule.min_photos': '{value}+ Profilfotos',
+  'queueRule.waiting_days': 'Wartet seit {value}+ Tagen',
+
+  'verify.undoApprove': '↶ Annahme von {name} rückgängig machen',
+  'verify.undoReject': '↶ Ablehnung von {name} rückgängig machen',
+  'verify.profilePhotos': 'Profilfotos',
+  'verify.profilePhotoAlt': 'Profil {number}',
+  'verify.noProfilePhotos': 'Keine Profilfotos',
+  'verify.verificationPhotos': 'Verifizierungsfotos',
+  'verify.verificationPhotoAlt': 'Verifizierung {number}',
+  'verify.loadingVerificationPhotos': 'Verifizierungsfotos werden geladen...',
+  'verify.noVerificationPhotos': 'Keine Verifizierungsfotos',
+  'verify.id': 'ID:',
+  'verify.signedUp': 'Registriert {time}',
+  'verify.escalatedAt': 'Eskaliert {time}',
+  'verify.previouslyRejected': 'Bereits abgelehnt: {reason}',
+  'verify.changeGender': 'Geschlecht ändern',
+  'verify.genderUpdated': 'Geschlecht aktualisiert!',
+  'verify.genderFailed': 'Geschlecht konnte nicht aktualisiert werden',
+  'verify.approve': 'ANNEHMEN',
+  'verify.reject': 'ABLEHNEN',
+  'verify.skip': 'Überspringen',
+  'verify.escalate': 'Eskalieren',
+  'verify.loadingMore': 'Weitere Nutzer werden geladen...',
+  'verify.allDone': 'Keine Nutzer mehr zu verifizieren. Gute Arbeit!',
+
+  'grid.title': 'Geschlechterprüfung',
+  'grid.matching': { one: '{count} passender Nutzer', other: '{count} passende Nutzer' },
+  'grid.withoutGender': '{count} ohne Geschlecht',
+  'grid.export': 'Exportieren',
+  'grid.search': 'Suche',
+  'grid.searchPlaceholder': 'Name oder Nutzer-ID',
+  'grid.filterGender': 'Nach Geschlecht filtern',
+  'grid.all': 'Alle',
+  'grid.verification': 'Verifizierung',
+  'grid.country': 'Land',
+  'grid.any': 'Alle',
+  'grid.age': 'Alter',
+  'grid.min': 'Min',
+  'grid.max': 'Max',
+  'grid.signedUp': 'Registriert',
+  'grid.sortByDate': 'Nach Datum sortieren',
+  'grid.newestFirst': 'Neueste zuerst',
+  'grid.oldestFirst': 'Älteste zuerst',
+  'grid.selectAll': 'Alle auf dieser Seite auswählen',
+  'grid.selected': '{count} ausgewählt',
+  'grid.setOption': '{label} setzen',
+  'grid.clearGender': 'Geschlecht entfernen',
+  'grid.selectUser': '{name} auswählen',
+  'grid.photoAlt': 'Foto {number}',
+  'grid.noPhoto': 'Kein Foto',
+  'grid.previous': 'Zurück',
+  'grid.next': 'Weiter',
+  'grid.page': 'Seite {page} von {total}',
+  'grid.empty': 'Keine Nutzer für die aktuellen Filter.',
+
+  'bulk.updating': { one: '{count} Nutzer wird aktualisiert…', other: '{count} Nutzer werden aktualisiert…' },
+  'bulk.failed': 'Sammelaktualisierung fehlgeschlagen',
+  'bulk.updated': { one: '{count} Nutzer aktualisiert', other: '{count} Nutzer aktualisiert' },
+  'bulk.unchanged': '{count} bereits {gender}',
+  'bulk.unchangedNoGender': '{count} bereits ohne Geschlecht',
+  'bulk.conflicted': { one: '{count} wurde inzwischen von jemand anderem geändert und bleibt unverändert', other: '{count} wurden inzwischen von jemand anderem geändert und bleiben unverändert' },
+  'bulk.missing': '{count} existieren nicht mehr',
+
+  'queue.saving': { one: '{count} Änderung wird gespeichert…', other: '{count} Änderungen werden gespeichert…' },
+  'queue.failed': '{action} für {name} konnte nicht gespeichert werden',
+  'queue.conflict': '{action} für {name} wurde nicht gespeichert: Die Person wurde inzwischen geändert',
+  'queue.retry': 'Erneut versuchen',
+  'queue.openUser': 'Nutzer öffnen',
+  'queue.dismiss': 'Verwerfen',
+  'queueAction.approve': 'Annahme',
+  'queueAction.reject': 'Ablehnung',
+  'queueAction.gender': 'Geschlechtsänderung',
+
+  'export.title': { one: '{count} Nutzer exportieren', other: '{count} Nutzer exportieren' },
+  'export.hint': 'Alle Nutzer, die den aktuellen Filtern entsprechen, nicht nur diese Seite.',
+  'export.download': 'Herunterladen',
+  'exportColumn.id': 'ID',
+  'exportColumn.name': 'Name',
+  'exportColumn.age': 'Alter',
+  'exportColumn.gender': 'Geschlecht',
+  'exportColumn.country': 'Land',
+  'exportColumn.is_verified': 'Verifizierungsstatus',
+  'exportColumn.created_at': 'Registriert',
+  'exportColumn.profile_photo_count': 'Profilfotos',
+  'exportColumn.verification_photo_count': 'Verifizierungsfotos',
+
+  'compare.verification': 'Verifizierung',
+  'compare.profile': 'Profil',
+  'compare.thumbnailAlt': '{title} Vorschau {number}',
+  'compare.rotateLeft': 'Nach links drehen',
+  'compare.rotateRight': 'Nach rechts drehen',
+  'compare.brightness': 'Helligkeit',
+  'compare.noPhotos': 'Keine Fotos',
+  'compare.reset': 'Zurücksetzen',
+  'compare.link': 'Zoom & Verschieben koppeln',
+  'compare.help': 'Scrollen zum Zoomen • Ziehen zum Verschieben • ←/→ Profilfoto • ↑/↓ Verifizierungsfoto • Esc zum Schließen',
+
+  'duplicates.failed': 'Duplikatprüfung fehlgeschlagen: {error}',
+  'duplicates.checking': 'Suche nach doppelten Konten...',
+  'duplicates.none': 'Keine möglichen doppelten Konten gefunden',
+  'duplicates.count': { one: '{count} mögliches doppeltes Konto', other: '{count} mögliche doppelte Konten' },
+  'duplicates.identical': 'Identisches Foto ({sources})',
+  'duplicates.similar': 'Ähnliches Foto, Abstand {distance} ({sources})',
+  'duplicates.sameProfile': 'Gleicher Name, gleiches Alter und Land',
+  'duplicates.profile': 'Profil',
+  'duplicates.verification': 'Verifizierung',
+
+  'photos.title': 'Profilfoto-Prüfung',
+  'photos.waiting': { one: '{count} Foto wartet auf Prüfung', other: '{count} Fotos warten auf Prüfung' },
+  'photos.allDone': 'Keine neuen Profilfotos zu prüfen. Gute Arbeit!',
+  'photos.added': 'Hinzugefügt {time}',
+  'photos.approve': 'Annehmen',
+  'photos.remove': 'Entfernen',
+  'photos.removeTitle': 'Foto von {name} entfernen',
+  'photos.notePlaceholder': 'Optionale Notiz für das Audit-Protokoll',
+  'photos.confirmRemove': 'Foto entfernen',
+  'photoReason.nudity': 'Nacktheit oder sexuelle Inhalte',
+  'photoReason.not_a_person': 'Kein Foto einer Person',
+  'photoReason.contact_info': 'Enthält Kontaktdaten',
+  'photoReason.offensive': 'Anstößig oder gewalttätig',
+  'photoReason.low_quality': 'Zu unscharf oder dunkel',
+  'photoReason.other': 'Sonstiges',
+  'reports.title': 'Nutzermeldungen',
+  'reports.waiting': { one: '{count} gemeldeter Nutzer wartet', other: '{count} gemeldete Nutzer warten' },
+  'reports.allDone': 'Keine offenen Meldungen. Gute Arbeit!',
+  'reports.openCount': { one: '{count} offene Meldung', other: '{count} offene Meldungen' },
+  'reports.lastReported': 'Zuletzt gemeldet {time}',
+  'reports.review': 'Prüfen',
+  'reports.backToList': '← Zurück zu den Meldungen',
+  'reports.loading': 'Meldungen werden geladen...',
+  'reports.openReports': 'Offene Meldungen',
+  'reports.pastReports': 'Frühere Meldungen',
+  'reports.reportedBy': 'Von {name}, {time}',
+  'reports.deletedReporter': 'einem gelöschten Konto',
+  'reports.noMessage': 'Keine Nachricht',
+  'reports.resolvedAs': '{resolution} {time}',
+  'reports.notePlaceholder': 'Notiz für den Nutzer — Pflicht, außer beim Verwerfen',
+  'reports.dismiss': 'Verwerfen',
+  'reports.warn': 'Nutzer verwarnen',
+  'reports.revoke': 'Verifizierung entziehen',
+  'reports.revokeReason': 'Grund für den Entzug…',
+  'reports.suspend': 'Sperren',
+  'reportCategory.fake_profile': 'Fake-Profil',
+  'reportCategory.harassment': 'Belästigung',
+  'reportCategory.spam': 'Spam',
+  'reportCategory.inappropriate_content': 'Unangemessene Inhalte',
+  'reportCategory.underage': 'Minderjährig',
+  'reportCategory.scam': 'Betrug',
+  'reportCategory.other': 'Sonstiges',
+  'reportResolution.dismissed': 'Verworfen',
+  'reportResolution.warned': 'Nutzer verwarnt',
+  'reportResolution.verification_revoked': 'Verifizierung entzogen',
+  'reportResolution.suspended': 'Nutzer gesperrt',
+  'suspension.banned': 'Dauerhaft gesperrt',
+  'suspension.suspendedUntil': 'Gesperrt bis {date}',
+  'suspension.history': { one: 'Schon einmal gesperrt', other: 'Schon {count}-mal gesperrt' },
+  'reports.suspendFor': 'Sperren für',
+  'suspensionLength.1': '1 Tag',
+  'suspensionLength.3': '3 Tage',
+  'suspensionLength.7': '1 Woche',
+  'suspensionLength.30': '30 Tage',
+  'suspensionLength.90': '90 Tage',
+  'suspensionLength.permanent': 'Dauerhafte Sperre',
+
+  'shortcuts.button': '⌨ Tastenkürzel ({key})',
+  'shortcuts.title': 'Tastenkürzel',
+  'shortcuts.reset': 'Auf Standard zurücksetzen',
+  'shortcuts.hint': 'Klicke auf eine Taste, um sie neu zu belegen, und drücke dann die neue Taste. Im Ablehnungsdialog wählst du mit 1–6 einen Grund und bestätigst mit Enter.',
+  'shortcuts.conflict': '{key} ist bereits für „{action}“ belegt. Wähle eine andere Taste oder belege diese zuerst neu.',
+  'shortcutGroup.verification': 'Verifizierung',
+  'shortcutGroup.genderGrid': 'Geschlechterraster',
+  'shortcutGroup.general': 'Allgemein',
+  'shortcut.approve': 'Annehmen',
+  'shortcut.reject': 'Ablehnen (Grund wählen)',
+  'shortcut.skip': 'Ans Ende der Warteschlange',
+  'shortcut.escalate': 'An leitende Moderation eskalieren',
+  'shortcut.undo': 'Letzte Entscheidung rückgängig machen',
+  'shortcut.prevPhoto': 'Vorheriges Foto',
+  'shortcut.nextPhoto': 'Nächstes Foto',
+  'shortcut.openPhoto': 'Foto nebeneinander vergleichen',
+  'shortcut.prevCard': 'Vorherige Karte',
+  'shortcut.nextCard': 'Nächste Karte',
+  'shortcut.cardUp': 'Karte darüber',
+  'shortcut.cardDown': 'Karte darunter',
+  'shortcut.toggleSelect': 'Karte aus-/abwählen',
+  'shortcut.setOption1': 'Geschlecht: erste Option',
+  'shortcut.setOption2': 'Geschlecht: zweite Option',
+  'shortcut.setOption3': 'Geschlecht: dritte Option',
+  'shortcut.clearOption': 'Geschlecht: nicht gesetzt',
+  'shortcut.back': 'Zurück zum Dashboard',
+  'shortcut.help': 'Tastenkürzel ein-/ausblenden',
+
+  'common.loading': 'Wird geladen…',
+  'common.from': 'Von',
+  'common.to': 'Bis',
+  'common.exportFormat': '{format} exportieren',
+  'common.inProgress': '{action}…',
+  'common.actionDone': '{action} — erledigt',
+
+  'notAuthorised.title': 'Keine Berechtigung',
+  'notAuthorised.body': 'Dein Konto ist angemeldet, aber kein Admin dieses Portals. Bitte einen bestehenden Admin, dir Zugriff zu geben, oder melde dich mit einem anderen Konto an.',
+  'notAuthorised.switchAccount': 'Mit einem anderen Konto anmelden',
+
+  'audit.title': 'Moderations-Protokoll',
+  'audit.admin': 'Admin',
+  'audit.adminPlaceholder': 'E-Mail enthält…',
+  'audit.action': 'Aktion',
+  'audit.userId': 'Nutzer-ID',
+  'audit.userIdPlaceholder': 'Genaue Nutzer-ID',
+  'audit.all': 'Alle',
+  'audit.when': 'Wann',
+  'audit.user': 'Nutzer',
+  'audit.change': 'Änderung',
+  'audit.reason': 'Grund',
+  'audit.onlyThisUser': 'Nur diesen Nutzer anzeigen',
+  'audit.empty': 'Keine Protokolleinträge für diese Filter.',
+  'auditAction.approve': 'Freigegeben',
+  'auditAction.reject': 'Abgelehnt',
+  'auditAction.gender_change': 'Geschlecht geändert',
+  'auditAction.undo': 'Entscheidung rückgängig gemacht',
+  'auditAction.escalate': 'Eskaliert',
+  'auditAction.profile_edit': 'Profil bearbeitet',
+  'auditAction.verification_reset': 'Verifizierung zurückgesetzt',
+  'auditAction.photo_remove': 'Profilfoto entfernt',
+  'auditAction.photo_approve': 'Profilfoto freigegeben',
+  'auditAction.report_dismiss': 'Meldungen verworfen',
+  'auditAction.user_warn': 'Nutzer verwarnt',
+  'auditAction.verification_revoke': 'Verifizierung entzogen',
+  'auditAction.user_suspend': 'Nutzer gesperrt',
+  'auditAction.suspension_lift': 'Sperre aufgehoben',
+  'auditAction.admin_invite': 'Admin eingeladen',
+  'auditAction.admin_role_change': 'Admin-Rolle geändert',
+  'auditAction.admin_deactivate': 'Admin deaktiviert',
+  'auditAction.admin_reactivate': 'Admin reaktiviert',
+
+  'stats.title': 'Moderationsstatistik',
+  'stats.groupBy': 'Gruppieren nach',
+  'stats.exportJson': 'JSON exportieren',
+  'stats.weekOf': 'Woche vom {date}',
+  'stats.noData': 'Keine Daten',
+  'stats.approved': 'Freigegeben',
+  'stats.rejected': 'Abgelehnt',
+  'stats.approvalRate': 'Freigabequote',
+  'stats.medianTime': 'Median bis zur Entscheidung',
+  'stats.decisions': 'Entscheidungen',
+  'stats.backlog': 'Offener Rückstand',
+  'stats.pendingAtEnd': 'Ausstehend am Ende des Zeitraums',
+  'stats.rejectionReasons': 'Ablehnungsgründe',
+  'stats.moderators': 'Moderatoren',
+  'stats.moderatorDecisions': '{approved} freigegeben · {rejected} abgelehnt',
+  'stats.byGender': 'Verifizierte Nutzer nach Geschlecht (im Zeitraum registriert)',
+  'stats.byCountry': 'Verifizierte Nutzer nach Land (Top 20)',
+  'stats.footnote': 'Durchschnittliche Zeit von der Registrierung bis zur Entscheidung: {average}. Zeiträume sind in UTC; rückgängig gemachte Entscheidungen zählen weiterhin in dem Zeitraum, in dem sie getroffen wurden.',
+  'stats.minutes': '{value} Min.',
+  'stats.hours': '{value} Std.',
+  'stats.days': '{value} Tage',
+  'statsBucket.day': 'Tag',
+  'statsBucket.week': 'Woche',
+
+  'admins.title': 'Admins verwalten',
+  'admins.ownersOnly': 'Nur Inhaber können Admins verwalten.',
+  'admins.inviteByEmail': 'Per E-Mail einladen',
+  'admins.role': 'Rolle',
+  'admins.sendInvite': 'Einladung senden',
+  'admins.admin': 'Admin',
+  'admins.added': 'Hinzugefügt',
+  'admins.status': 'Status',
+  'admins.ownRole': 'Du kannst deine eigene Rolle nicht ändern',
+  'admins.active': 'Aktiv',
+  'admins.deactivatedAt': 'Deaktiviert am {date}',
+  'admins.reactivate': 'Reaktivieren',
+  'admins.deactivate': 'Deaktivieren',
+  'admins.permission': 'Berechtigung',
+  'admins.inviting': '{email} wird eingeladen',
+  'admins.changingRole': 'Rolle von {email} wird geändert',
+  'admins.reactivating': '{email} wird reaktiviert',
+  'admins.deactivating': '{email} wird deaktiviert',
+  'photoHashes.title': 'Foto-Fingerabdrücke',
+  'photoHashes.hint': 'Die Duplikatsuche findet nur Fotos mit Fingerabdruck, und der entsteht, wenn ein Nutzer zur Verifizierung übernommen wird. Führe dies einmal aus, um alle anderen zu erfassen, etwa Nutzer, die vor der Duplikatsuche verifiziert wurden.',
+  'photoHashes.run': 'Fotos bestehender Nutzer erfassen',
+  'photoHashes.progress': { one: 'Fotos werden erfasst… {count} Nutzer geprüft', other: 'Fotos werden erfasst… {count} Nutzer geprüft' },
+  'photoHashes.done': { one: 'Foto-Fingerabdrücke vollständig — {count} Nutzer geprüft', other: 'Foto-Fingerabdrücke vollständig — {count} Nutzer geprüft' },
+  'photoHashes.failed': 'Erfassung fehlgeschlagen',
+  'role.viewer': 'Betrachter',
+  'role.moderator': 'Moderator',
+  'role.senior_moderator': 'Senior-Moderator',
+  'role.owner': 'Inhaber',
+  'permission.verify': 'Nutzer verifizieren',
+  'permission.changeGender': 'Geschlecht ändern',
+  'permission.moderatePhotos': 'Profilfotos moderieren',
+  'permission.handleReports': 'Nutzermeldungen bearbeiten',
+  'permission.suspendUsers': 'Nutzer sperren und bannen',
+  'permission.reviewEscalations': 'Eskalationen prüfen',
+  'permission.reverseDecisions': 'Entscheidungen rückgängig machen',
+  'permission.editProfiles': 'Profile bearbeiten',
+  'permission.export': 'Daten exportieren',
+  'permission.manageAdmins': 'Admins verwalten',
+  'permission.manageAttributes': 'Attributoptionen verwalten',
+  'permission.manageQueueRules': 'Prioritätsregeln der Warteschlange verwalten',
+  'permission.backfillPhotoHashes': 'Bestehende Fotos für die Duplikatsuche erfassen',
+
+  'userDetail.loading': 'Nutzer wird geladen…',
+  'userDetail.saved': '{action} — gespeichert',
+  'userDetail.record': 'Datensatz',
+  'userDetail.items': { one: '{count} Eintrag', other: '{count} Einträge' },
+  'userDetail.editProfile': 'Profil bearbeiten',
+  'userDetail.name': 'Name',
+  'userDetail.age': 'Alter',
+  'userDetail.country': 'Land',
+  'userDetail.ageNotWhole': 'Das Alter muss eine ganze Zahl sein',
+  'userDetail.saveProfile': 'Profil speichern',
+  'userDetail.gender': 'Geschlecht',
+  'userDetail.updatingProfile': 'Profil wird aktualisiert',
+  'userDetail.settingGender': 'Geschlecht wird auf {label} gesetzt',
+  'userDetail.clearingGender': 'Geschlecht wird entfernt',
+  'userDetail.verification': 'Verifizierung',
+  'userDetail.status': 'Status:',
+  'userDetail.resubmissionRequested': 'Neue Fotos angefordert {time}',
+  'userDetail.resetPlaceholder': 'Warum neue Fotos nötig sind (optional)',
+  'userDetail.reset': 'Auf ausstehend zurücksetzen und neue Fotos anfordern',
+  'userDetail.resetting': 'Verifizierung wird zurückgesetzt',
+  'userDetail.suspensions': 'Sperren',
+  'userDetail.neverSuspended': 'Nie gesperrt',
+  'userDetail.suspension': 'Sperre',
+  'userDetail.ban': 'Bann',
+  'userDetail.window': '{start} – {end}',
+  'userDetail.permanentFrom': '{start}, dauerhaft',
+  'userDetail.lifted': 'Aufgehoben {time}',
+  'userDetail.liftPlaceholder': 'Warum sie aufgehoben wird (optional)',
+  'userDetail.lift': 'Aufheben',
+  'userDetail.lifting': 'Sperre wird aufgehoben',
+  'userDetail.reasonPlaceholder': 'Grund (erforderlich)',
+  'userDetail.length': 'Dauer',
+  'userDetail.startsAt': 'Beginn (leer für sofort)',
+  'userDetail.suspend': 'Sperren',
+  'userDetail.banPermanently': 'Dauerhaft bannen',
+  'userDetail.suspending': 'Nutzer wird gesperrt',
+  'userDetail.banning': 'Nutzer wird gebannt',
+  'userDetail.profilePhotos': 'Profilfotos ({count})',
+  'userDetail.removePhoto': 'Foto entfernen',
+  'userDetail.removingPhoto': 'Foto wird entfernt',
+  'userDetail.verificationPhotos': 'Verifizierungsfotos ({count})',
+  'userDetail.duplicates': 'Mögliche Duplikate',
+  'userDetail.history': 'Moderationsverlauf',
+  'userDetail.noHistory': 'Keine Moderationsaktionen erfasst',
+  'userDetail.rejections': 'Ablehnungen',
+  'userDetail.neverRejected': 'Nie abgelehnt',
+  'userDetail.escalations': 'Eskalationen',
+  'userDetail.neverEscalated': 'Nie eskaliert',
+  'userDetail.escalationOpen': 'Offen',
+  'userDetail.escalationResolved': 'Erledigt',
+  'suspensionState.scheduled': 'Geplant',
+  'suspensionState.active': 'Aktiv',
+  'suspensionState.expired': 'Beendet',
+  'suspensionState.lifted': 'Vorzeitig aufgehoben',
+
+  'attributes.title': 'Attributoptionen',
+  'attributes.ownersOnly': 'Nur Inhaber können Attributoptionen verwalten.',
+  'attributes.hint': 'Archivierte Optionen können nicht mehr vergeben werden, Nutzer, die sie haben, behalten sie aber. Gespeicherte Werte ändern sich nie; benenne stattdessen die Bezeichnung um.',
+  'attributes.order': 'Reihenfolge',
+  'attributes.value': 'Gespeicherter Wert',
+  'attributes.label': 'Bezeichnung',
+  'attributes.color': 'Farbe',
+  'attributes.preview': 'Vorschau',
+  'attributes.moveUp': '{label} nach oben verschieben',
+  'attributes.moveDown': '{label} nach unten verschieben',
+  'attributes.save': 'Speichern',
+  'attributes.archive': 'Archivieren',
+  'attributes.restore': 'Wiederherstellen',
+  'attributes.valuePlaceholder': 'z. B. Nicht-binär',
+  'attributes.newLabel': 'Bezeichnung (standardmäßig der Wert)',
+  'attributes.add': 'Option hinzufügen',
+  'attributes.moving': '{label} wird verschoben',
+  'attributes.adding': '{label} wird hinzugefügt',
+  'attributes.renaming': '{label} wird umbenannt',
+  'attributes.recolouring': 'Farbe von {label} wird geändert',
+  'attributes.archiving': '{label} wird archiviert',
+  'attributes.restoring': '{label} wird wiederhergestellt',
+  'attribute.gender': 'Geschlecht',
+
+  'queueRules.title': 'Prioritätsregeln der Warteschlange',
+  'queueRules.seniorOnly': 'Nur Senior-Moderatoren können Prioritätsregeln verwalten.',
+  'queueRules.hint': 'Jeder ausstehende Nutzer erhält die Summe der Gewichte aller aktiven Regeln, auf die er passt. Höhere Werte werden in jeder Warteschlange zuerst übernommen; die eigene Reihenfolge entscheidet nur bei gleichen Werten. Negative Gewichte schieben Nutzer nach hinten.',
+  'queueRules.rule': 'Regel',
+  'queueRules.value': 'Wert',
+  'queueRules.weight': 'Gewicht',
+  'queueRules.added': 'Hinzugefügt',
+  'queueRules.add': 'Regel hinzufügen',
+  'queueRules.empty': 'Noch keine Regeln — jede Warteschlange folgt ihrer eigenen Reihenfolge.',
+  'queueRules.pause': 'Pausieren',
+  'queueRules.resume': 'Fortsetzen',
+  'queueRules.delete': 'Löschen',
+  'queueRules.adding': 'Regel wird hinzugefügt',
+  'queueRules.changingWeight': 'Gewicht wird geändert',
+  'queueRules.pausing': 'Regel wird pausiert',
+  'queueRules.resuming': 'Regel wird fortgesetzt',
+  'queueRules.deleting': 'Regel wird gelöscht',
+  'queueRuleKind.country': 'Aus Land',
+  'queueRuleKind.resubmission': 'Erneute Einreichung (zuvor abgelehnt oder zurückgesetzt)',
+  'queueRuleKind.min_photos': 'Mindestens N Profilfotos',
+  'queueRuleKind.waiting_days': 'Vor mindestens N Tagen registriert',
+  'queueRuleValue.country': 'Ländercode',
+  'queueRuleValue.min_photos': 'Fotos',
+  'queueRuleValue.waiting_days': 'Tage',
+
+  'suspensions.title': 'Gesperrte Nutzer',
+  'suspensions.hint': 'Laufende und geplante Sperren und Banns. Zeitlich begrenzte Sperren verschwinden von selbst aus dieser Liste, wenn sie enden; sperre oder banne jemanden über seine Nutzerseite.',
+  'suspensions.searchPlaceholder': 'Nach Name oder Nutzer-ID suchen',
+  'suspensions.user': 'Nutzer',
+  'suspensions.status': 'Status',
+  'suspensions.until': 'Bis',
+  'suspensions.reason': 'Grund',
+  'suspensions.noMatches': 'Keine gesperrten Nutzer passen zu dieser Suche',
+  'suspensions.empty': 'Niemand ist gesperrt',
+  'suspensions.suspended': 'Gesperrt',
+  'suspensions.banned': 'Gebannt',
+  'suspensions.permanent': 'Dauerhaft',
+  'suspensions.liftNow': 'Jetzt aufheben',
+  'suspensions.lifting': 'Sperre wird aufgehoben…',
+  'suspensions.lifted': 'Aufgehoben für {name}',
+};
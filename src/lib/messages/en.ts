@@ -0,0 +1,501 @@
+import type { Message } from '../i18n';
+
+// Source catalog: every key used by the UI is defined here first, other languages translate these
+export const en = {
+  'common.anonymous': 'Anonymous',
+  'common.backToDashboard': '← Back to Dashboard',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.language': 'Language',
+  'common.unknown': 'Unknown',
+  'common.saving': 'Saving...',
+  'common.failedToLoad': 'Failed to load',
+
+  'login.title': 'Admin Login',
+  'login.failed': 'Google login failed',
+
+  'status.pending': 'Pending',
+  'status.verified': 'Verified',
+  'status.unverified': 'Unverified',
+
+  'gender.unset': 'Not set',
+  'gender.archived': '{label} (archived)',
+
+  'rejectionReason.face_not_visible': 'Face not visible',
+  'rejectionReason.profile_mismatch': "Doesn't match profile photos",
+  'rejectionReason.wrong_pose': 'Wrong pose',
+  'rejectionReason.suspected_fake': 'Suspected fake',
+  'rejectionReason.underage': 'Underage',
+  'rejectionReason.other': 'Other',
+
+  'reject.title': 'Reject {name}',
+  'reject.hint': 'Choose why. The user will be told what to fix.',
+  'reject.notePlaceholder': 'Optional note for the user',
+  'reject.notePlaceholderRequired': 'Describe the problem (required)',
+  'reject.confirm': 'Confirm Reject',
+
+  'escalate.title': 'Escalate {name}',
+  'escalate.hint': 'The user leaves the normal queue until a senior moderator decides.',
+  'escalate.placeholder': 'What should the senior reviewer look at? (required)',
+  'escalate.confirm': 'Escalate',
+  'escalate.failed': 'Could not escalate: {error}',
+
+  'dashboard.title': 'MistMatch Admin',
+  'dashboard.welcome': 'Welcome back, {name}',
+  'dashboard.logout': 'Logout',
+  'dashboard.verifyUsers': 'Verify Users ({count} pending)',
+  'dashboard.escalated': 'Escalated ({count})',
+  'dashboard.claimedByOthers': {
+    one: '{count} currently claimed by another moderator',
+    other: '{count} currently claimed by other moderators',
+  },
+  'dashboard.verifyGenders': 'Verify Genders',
+  'dashboard.reviewPhotos': 'Review Profile Photos',
+  'dashboard.reviewReports': 'Handle User Reports',
+  'dashboard.suspensions': 'Suspended Users',
+  'dashboard.auditLog': 'Audit Log',
+  'dashboard.statistics': 'Statistics',
+  'dashboard.manageAdmins': 'Manage Admins',
+  'dashboard.attributeOptions': 'Attribute Options',
+  'dashboard.nothingPending': 'No pending user verifications at the moment. Great job!',
+  'dashboard.recentlyDecided': 'Recently Decided',
+  'dashboard.approved': 'Approved',
+  'dashboard.rejected': 'Rejected: {reason}',
+  'dashboard.reopen': 'Re-open',
+
+  'queueOrder.label': 'Queue order',
+  'queueOrder.countriesPlaceholder': 'Country codes, e.g. DE, AT',
+  'queueOrder.save': 'Save',
+  'queueOrder.saved': 'Queue order saved',
+  'queueOrder.rules': 'Priority rules:',
+  'queueOrder.noRules': 'No priority rules',
+  'queueOrder.editRules': 'Edit rules',
+  'queueStrategy.oldest_first': 'Oldest signups first',
+  'queueStrategy.newest_first': 'Newest signups first',
+  'queueStrategy.resubmissions_first': 'Resubmissions first',
+  'queueStrategy.countries_first': 'My countries first',
+  'queueStrategy.most_photos': 'Most profile photos first',
+  'queueRule.country': 'From {value}',
+  'queueRule.resubmission': 'Resubmissions',
+  'queueRule.min_photos': '{value}+ profile photos',
+  'queueRule.waiting_days': 'Waiting {value}+ days',
+
+  'verify.undoApprove': '↶ Undo approve of {name}',
+  'verify.undoReject': '↶ Undo reject of {name}',
+  'verify.profilePhotos': 'Profile Photos',
+  'verify.profilePhotoAlt': 'Profile {number}',
+  'verify.noProfilePhotos': 'No profile photos',
+  'verify.verificationPhotos': 'Verification Photos',
+  'verify.verificationPhotoAlt': 'Verification {number}',
+  'verify.loadingVerificationPhotos': 'Loading verification photos...',
+  'verify.noVerificationPhotos': 'No verification photos',
+  'verify.id': 'ID:',
+  'verify.signedUp': 'Signed up {time}',
+  'verify.escalatedAt': 'Escalated {time}',
+  'verify.previouslyRejected': 'Previously rejected: {reason}',
+  'verify.changeGender': 'Change Gender',
+  'verify.genderUpdated': 'Gender updated!',
+  'verify.genderFailed': 'Failed to update gender',
+  'verify.approve': 'APPROVE',
+  'verify.reject': 'REJECT',
+  'verify.skip': 'Skip',
+  'verify.escalate': 'Escalate',
+  'verify.loadingMore': 'Loading more users...',
+  'verify.allDone': 'No more users to verify. Great job!',
+
+  'grid.title': 'Gender Verification',
+  'grid.matching': { one: '{count} matching user', other: '{count} matching users' },
+  'grid.withoutGender': '{count} without gender',
+  'grid.export': 'Export',
+  'grid.search': 'Search',
+  'grid.searchPlaceholder': 'Name or user ID',
+  'grid.filterGender': 'Filter by Gender',
+  'grid.all': 'All',
+  'grid.verification': 'Verification',
+  'grid.country': 'Country',
+  'grid.any': 'Any',
+  'grid.age': 'Age',
+  'grid.min': 'Min',
+  'grid.max': 'Max',
+  'grid.signedUp': 'Signed up',
+  'grid.sortByDate': 'Sort by Date',
+  'grid.newestFirst': 'Newest First',
+  'grid.oldestFirst': 'Oldest First',
+  'grid.selectAll': 'Select all on page',
+  'grid.selected': '{count} selected',
+  'grid.setOption': 'Set {label}',
+  'grid.clearGender': 'Clear Gender',
+  'grid.selectUser': 'Select {name}',
+  'grid.photoAlt': 'Photo {number}',
+  'grid.noPhoto': 'No Photo',
+  'grid.previous': 'Previous',
+  'grid.next': 'Next',
+  'grid.page': 'Page {page} of {total}',
+  'grid.empty': 'No users to verify gender for with current filters.',
+
+  'bulk.updating': { one: 'Updating {count} user…', other: 'Updating {count} users…' },
+  'bulk.failed': 'Bulk update failed',
+  'bulk.updated': { one: 'Updated {count} user', other: 'Updated {count} users' },
+  'bulk.unchanged': '{count} already {gender}',
+  'bulk.unchangedNoGender': '{count} already without gender',
+  'bulk.conflicted': { one: '{count} changed by someone else meanwhile, left as they are', other: '{count} changed by someone else meanwhile, left as they are' },
+  'bulk.missing': '{count} no longer exist',
+
+  'queue.saving': { one: 'Saving {count} change…', other: 'Saving {count} changes…' },
+  'queue.failed': "Couldn't save {action} for {name}",
+  'queue.conflict': "Didn't save {action} for {name}: the user changed in the meantime",
+  'queue.retry': 'Retry',
+  'queue.openUser': 'Open user',
+  'queue.dismiss': 'Dismiss',
+  'queueAction.approve': 'approval',
+  'queueAction.reject': 'rejection',
+  'queueAction.gender': 'gender change',
+
+  'export.title': { one: 'Export {count} user', other: 'Export {count} users' },
+  'export.hint': 'Every user matching the current filters, not just this page.',
+  'export.download': 'Download',
+  'exportColumn.id': 'ID',
+  'exportColumn.name': 'Name',
+  'exportColumn.age': 'Age',
+  'exportColumn.gender': 'Gender',
+  'exportColumn.country': 'Country',
+  'exportColumn.is_verified': 'Verification status',
+  'exportColumn.created_at': 'Signed up',
+  'exportColumn.profile_photo_count': 'Profile photos',
+  'exportColumn.verification_photo_count': 'Verification photos',
+
+  'compare.verification': 'Verification',
+  'compare.profile': 'Profile',
+  'compare.thumbnailAlt': '{title} thumbnail {number}',
+  'compare.rotateLeft': 'Rotate left',
+  'compare.rotateRight': 'Rotate right',
+  'compare.brightness': 'Brightness',
+  'compare.noPhotos': 'No photos',
+  'compare.reset': 'Reset',
+  'compare.link': 'Link zoom & pan',
+  'compare.help': 'Scroll to zoom • drag to pan • ←/→ profile photo • ↑/↓ verification photo • Esc to close',
+
+  'duplicates.failed': 'Duplicate check failed: {error}',
+  'duplicates.checking': 'Checking for duplicate accounts...',
+  'duplicates.none': 'No possible duplicate accounts found',
+  'duplicates.count': { one: '{count} possible duplicate account', other: '{count} possible duplicate accounts' },
+  'duplicates.identical': 'Identical photo ({sources})',
+  'duplicates.similar': 'Similar photo, distance {distance} ({sources})',
+  'duplicates.sameProfile': 'Same name, age and country',
+  'duplicates.profile': 'profile',
+  'duplicates.verification': 'verification',
+
+  'photos.title': 'Profile Photo Review',
+  'photos.waiting': { one: '{count} photo waiting for review', other: '{count} photos waiting for review' },
+  'photos.allDone': 'No new profile photos to review. Great job!',
+  'photos.added': 'Added {time}',
+  'photos.approve': 'Approve',
+  'photos.remove': 'Remove',
+  'photos.removeTitle': 'Remove photo of {name}',
+  'photos.notePlaceholder': 'Optional note for the audit log',
+  'photos.confirmRemove': 'Remove photo',
+  'photoReason.nudity': 'Nudity or sexual content',
+  'photoReason.not_a_person': 'Not a photo of a person',
+  'photoReason.contact_info': 'Contains contact info',
+  'photoReason.offensive': 'Offensive or violent',
+  'photoReason.low_quality': 'Too blurry or dark',
+  'photoReason.other': 'Other',
+  'reports.title': 'User Reports',
+  'reports.waiting': { one: '{count} reported user waiting', other: '{count} reported users waiting' },
+  'reports.allDone': 'No open reports. Great job!',
+  'reports.openCount': { one: '{count} open report', other: '{count} open reports' },
+  'reports.lastReported': 'Last reported {time}',
+  'reports.review': 'Review',
+  'reports.backToList': '← Back to reports',
+  'reports.loading': 'Loading reports...',
+  'reports.openReports': 'Open reports',
+  'reports.pastReports': 'Earlier reports',
+  'reports.reportedBy': 'From {name}, {time}',
+  'reports.deletedReporter': 'a deleted account',
+  'reports.noMessage': 'No message',
+  'reports.resolvedAs': '{resolution} {time}',
+  'reports.notePlaceholder': 'Note for the user — required unless you dismiss',
+  'reports.dismiss': 'Dismiss',
+  'reports.warn': 'Warn user',
+  'reports.revoke': 'Revoke verification',
+  'reports.revokeReason': 'Reason for revoking…',
+  'reports.suspend': 'Suspend',
+  'reportCategory.fake_profile': 'Fake profile',
+  'reportCategory.harassment': 'Harassment',
+  'reportCategory.spam': 'Spam',
+  'reportCategory.inappropriate_content': 'Inappropriate content',
+  'reportCategory.underage': 'Underage',
+  'reportCategory.scam': 'Scam or fraud',
+  'reportCategory.other': 'Other',
+  'reportResolution.dismissed': 'Dismissed',
+  'reportResolution.warned': 'User warned',
+  'reportResolution.verification_revoked': 'Verification revoked',
+  'reportResolution.suspended': 'User suspended',
+  'suspension.banned': 'Banned',
+  'suspension.suspendedUntil': 'Suspended until {date}',
+  'suspension.history': { one: 'Suspended once before', other: 'Suspended {count} times before' },
+  'reports.suspendFor': 'Suspend for',
+  'suspensionLength.1': '1 day',
+  'suspensionLength.3': '3 days',
+  'suspensionLength.7': '1 week',
+  'suspensionLength.30': '30 days',
+  'suspensionLength.90': '90 days',
+  'suspensionLength.permanent': 'Permanent ban',
+
+  'shortcuts.button': '⌨ Shortcuts ({key})',
+  'shortcuts.title': 'Keyboard Shortcuts',
+  'shortcuts.reset': 'Reset to defaults',
+  'shortcuts.hint': 'Click a key to rebind it, then press the new key. In the reject picker, press 1–6 to pick a reason and Enter to confirm.',
+  'shortcuts.conflict': '{key} is already used for “{action}”. Pick another key or rebind that one first.',
+  'shortcutGroup.verification': 'Verification',
+  'shortcutGroup.genderGrid': 'Gender grid',
+  'shortcutGroup.general': 'General',
+  'shortcut.approve': 'Approve',
+  'shortcut.reject': 'Reject (choose reason)',
+  'shortcut.skip': 'Skip to end of queue',
+  'shortcut.escalate': 'Escalate for senior review',
+  'shortcut.undo': 'Undo last decision',
+  'shortcut.prevPhoto': 'Previous photo',
+  'shortcut.nextPhoto': 'Next photo',
+  'shortcut.openPhoto': 'Compare photo side by side',
+  'shortcut.prevCard': 'Previous card',
+  'shortcut.nextCard': 'Next card',
+  'shortcut.cardUp': 'Card above',
+  'shortcut.cardDown': 'Card below',
+  'shortcut.toggleSelect': 'Select / deselect card',
+  'shortcut.setOption1': 'Set gender: first option',
+  'shortcut.setOption2': 'Set gender: second option',
+  'shortcut.setOption3': 'Set gender: third option',
+  'shortcut.clearOption': 'Set gender: not set',
+  'shortcut.back': 'Back to dashboard',
+  'shortcut.help': 'Show / hide shortcuts',
+
+  'common.loading': 'Loading…',
+  'common.from': 'From',
+  'common.to': 'To',
+  'common.exportFormat': 'Export {format}',
+  'common.inProgress': '{action}…',
+  'common.actionDone': '{action} — done',
+
+  'notAuthorised.title': 'Not Authorised',
+  'notAuthorised.body': 'Your account is signed in but is not an admin of this portal. Ask an existing admin to grant you access, or sign in with a different account.',
+  'notAuthorised.switchAccount': 'Sign in with another account',
+
+  'audit.title': 'Moderation Audit Log',
+  'audit.admin': 'Admin',
+  'audit.adminPlaceholder': 'Email contains…',
+  'audit.action': 'Action',
+  'audit.userId': 'User ID',
+  'audit.userIdPlaceholder': 'Exact user id',
+  'audit.all': 'All',
+  'audit.when': 'When',
+  'audit.user': 'User',
+  'audit.change': 'Change',
+  'audit.reason': 'Reason',
+  'audit.onlyThisUser': 'Show only this user',
+  'audit.empty': 'No audit entries match these filters.',
+  'auditAction.approve': 'Approved',
+  'auditAction.reject': 'Rejected',
+  'auditAction.gender_change': 'Gender changed',
+  'auditAction.undo': 'Decision undone',
+  'auditAction.escalate': 'Escalated',
+  'auditAction.profile_edit': 'Profile edited',
+  'auditAction.verification_reset': 'Verification reset',
+  'auditAction.photo_remove': 'Profile photo removed',
+  'auditAction.photo_approve': 'Profile photo approved',
+  'auditAction.report_dismiss': 'Reports dismissed',
+  'auditAction.user_warn': 'User warned',
+  'auditAction.verification_revoke': 'Verification revoked',
+  'auditAction.user_suspend': 'User suspended',
+  'auditAction.suspension_lift': 'Suspension lifted',
+  'auditAction.admin_invite': 'Admin invited',
+  'auditAction.admin_role_change': 'Admin role changed',
+  'auditAction.admin_deactivate': 'Admin deactivated',
+  'auditAction.admin_reactivate': 'Admin reactivated',
+
+  'stats.title': 'Moderation Statistics',
+  'stats.groupBy': 'Group by',
+  'stats.exportJson': 'Export JSON',
+  'stats.weekOf': 'Week of {date}',
+  'stats.noData': 'No data',
+  'stats.approved': 'Approved',
+  'stats.rejected': 'Rejected',
+  'stats.approvalRate': 'Approval rate',
+  'stats.medianTime': 'Median time to decision',
+  'stats.decisions': 'Decisions',
+  'stats.backlog': 'Pending backlog',
+  'stats.pendingAtEnd': 'Pending at end of period',
+  'stats.rejectionReasons': 'Rejection reasons',
+  'stats.moderators': 'Moderators',
+  'stats.moderatorDecisions': '{approved} approved · {rejected} rejected',
+  'stats.byGender': 'Verified users by gender (signed up in range)',
+  'stats.byCountry': 'Verified users by country (top 20)',
+  'stats.footnote': 'Average time from sign-up to decision: {average}. Periods are in UTC; undone decisions still count in the period they were made.',
+  'stats.minutes': '{value} min',
+  'stats.hours': '{value} h',
+  'stats.days': '{value} days',
+  'statsBucket.day': 'Day',
+  'statsBucket.week': 'Week',
+
+  'admins.title': 'Manage Admins',
+  'admins.ownersOnly': 'Only owners can manage admins.',
+  'admins.inviteByEmail': 'Invite by email',
+  'admins.role': 'Role',
+  'admins.sendInvite': 'Send invite',
+  'admins.admin': 'Admin',
+  'admins.added': 'Added',
+  'admins.status': 'Status',
+  'admins.ownRole': 'You cannot change your own role',
+  'admins.active': 'Active',
+  'admins.deactivatedAt': 'Deactivated {date}',
+  'admins.reactivate': 'Reactivate',
+  'admins.deactivate': 'Deactivate',
+  'admins.permission': 'Permission',
+  'admins.inviting': 'Inviting {email}',
+  'admins.changingRole': "Changing {email}'s role",
+  'admins.reactivating': 'Reactivating {email}',
+  'admins.deactivating': 'Deactivating {email}',
+  'photoHashes.title': 'Photo fingerprints',
+  'photoHashes.hint': 'Duplicate checks only match photos that have been fingerprinted, which happens when a user is claimed for verification. Run this once to fingerprint everyone else, such as users verified before duplicate checks existed.',
+  'photoHashes.run': "Fingerprint existing users' photos",
+  'photoHashes.progress': { one: 'Fingerprinting photos… {count} user checked', other: 'Fingerprinting photos… {count} users checked' },
+  'photoHashes.done': { one: 'Photo fingerprints complete — {count} user checked', other: 'Photo fingerprints complete — {count} users checked' },
+  'photoHashes.failed': 'Backfill failed',
+  'role.viewer': 'Viewer',
+  'role.moderator': 'Moderator',
+  'role.senior_moderator': 'Senior moderator',
+  'role.owner': 'Owner',
+  'permission.verify': 'Verify users',
+  'permission.changeGender': 'Change gender',
+  'permission.moderatePhotos': 'Moderate profile photos',
+  'permission.handleReports': 'Handle user reports',
+  'permission.suspendUsers': 'Suspend and ban users',
+  'permission.reviewEscalations': 'Review escalations',
+  'permission.reverseDecisions': 'Reverse decisions',
+  'permission.editProfiles': 'Edit profiles',
+  'permission.export': 'Export data',
+  'permission.manageAdmins': 'Manage admins',
+  'permission.manageAttributes': 'Manage attribute options',
+  'permission.manageQueueRules': 'Manage queue priority rules',
+  'permission.backfillPhotoHashes': 'Fingerprint existing photos for duplicate checks',
+
+  'userDetail.loading': 'Loading user…',
+  'userDetail.saved': '{action} — saved',
+  'userDetail.record': 'Record',
+  'userDetail.items': { one: '{count} item', other: '{count} items' },
+  'userDetail.editProfile': 'Edit profile',
+  'userDetail.name': 'Name',
+  'userDetail.age': 'Age',
+  'userDetail.country': 'Country',
+  'userDetail.ageNotWhole': 'Age must be a whole number',
+  'userDetail.saveProfile': 'Save profile',
+  'userDetail.gender': 'Gender',
+  'userDetail.updatingProfile': 'Updating profile',
+  'userDetail.settingGender': 'Setting gender to {label}',
+  'userDetail.clearingGender': 'Clearing gender',
+  'userDetail.verification': 'Verification',
+  'userDetail.status': 'Status:',
+  'userDetail.resubmissionRequested': 'Resubmission requested {time}',
+  'userDetail.resetPlaceholder': 'Why new photos are needed (optional)',
+  'userDetail.reset': 'Reset to pending and ask for new photos',
+  'userDetail.resetting': 'Resetting verification',
+  'userDetail.suspensions': 'Suspensions',
+  'userDetail.neverSuspended': 'Never suspended',
+  'userDetail.suspension': 'Suspension',
+  'userDetail.ban': 'Ban',
+  'userDetail.window': '{start} – {end}',
+  'userDetail.permanentFrom': '{start}, permanent',
+  'userDetail.lifted': 'Lifted {time}',
+  'userDetail.liftPlaceholder': 'Why it is lifted (optional)',
+  'userDetail.lift': 'Lift',
+  'userDetail.lifting': 'Lifting suspension',
+  'userDetail.reasonPlaceholder': 'Reason (required)',
+  'userDetail.length': 'Length',
+  'userDetail.startsAt': 'Starts (empty for now)',
+  'userDetail.suspend': 'Suspend',
+  'userDetail.banPermanently': 'Ban permanently',
+  'userDetail.suspending': 'Suspending user',
+  'userDetail.banning': 'Banning user',
+  'userDetail.profilePhotos': 'Profile photos ({count})',
+  'userDetail.removePhoto': 'Remove photo',
+  'userDetail.removingPhoto': 'Removing photo',
+  'userDetail.verificationPhotos': 'Verification photos ({count})',
+  'userDetail.duplicates': 'Possible duplicates',
+  'userDetail.history': 'Moderation history',
+  'userDetail.noHistory': 'No moderation actions recorded',
+  'userDetail.rejections': 'Rejections',
+  'userDetail.neverRejected': 'Never rejected',
+  'userDetail.escalations': 'Escalations',
+  'userDetail.neverEscalated': 'Never escalated',
+  'userDetail.escalationOpen': 'Open',
+  'userDetail.escalationResolved': 'Resolved',
+  'suspensionState.scheduled': 'Scheduled',
+  'suspensionState.active': 'Active',
+  'suspensionState.expired': 'Ended',
+  'suspensionState.lifted': 'Lifted early',
+
+  'attributes.title': 'Attribute Options',
+  'attributes.ownersOnly': 'Only owners can manage attribute options.',
+  'attributes.hint': 'Archived options can no longer be assigned, but users who have them keep them. Stored values never change; rename the label instead.',
+  'attributes.order': 'Order',
+  'attributes.value': 'Stored value',
+  'attributes.label': 'Label',
+  'attributes.color': 'Colour',
+  'attributes.preview': 'Preview',
+  'attributes.moveUp': 'Move {label} up',
+  'attributes.moveDown': 'Move {label} down',
+  'attributes.save': 'Save',
+  'attributes.archive': 'Archive',
+  'attributes.restore': 'Restore',
+  'attributes.valuePlaceholder': 'e.g. Non-binary',
+  'attributes.newLabel': 'Label (defaults to the value)',
+  'attributes.add': 'Add option',
+  'attributes.moving': 'Moving {label}',
+  'attributes.adding': 'Adding {label}',
+  'attributes.renaming': 'Renaming {label}',
+  'attributes.recolouring': 'Recolouring {label}',
+  'attributes.archiving': 'Archiving {label}',
+  'attributes.restoring': 'Restoring {label}',
+  'attribute.gender': 'Gender',
+
+  'queueRules.title': 'Queue Priority Rules',
+  'queueRules.seniorOnly': 'Only senior moderators can manage queue priority rules.',
+  'queueRules.hint': "Each pending user scores the sum of the weights of the active rules they match. Higher scores are claimed first in every moderator's queue; their own queue order only decides between equal scores. Negative weights push users down.",
+  'queueRules.rule': 'Rule',
+  'queueRules.value': 'Value',
+  'queueRules.weight': 'Weight',
+  'queueRules.added': 'Added',
+  'queueRules.add': 'Add rule',
+  'queueRules.empty': 'No rules yet — every queue follows its own order.',
+  'queueRules.pause': 'Pause',
+  'queueRules.resume': 'Resume',
+  'queueRules.delete': 'Delete',
+  'queueRules.adding': 'Adding rule',
+  'queueRules.changingWeight': 'Changing weight',
+  'queueRules.pausing': 'Pausing rule',
+  'queueRules.resuming': 'Resuming rule',
+  'queueRules.deleting': 'Deleting rule',
+  'queueRuleKind.country': 'From country',
+  'queueRuleKind.resubmission': 'Resubmission (rejected or reset before)',
+  'queueRuleKind.min_photos': 'At least N profile photos',
+  'queueRuleKind.waiting_days': 'Signed up at least N days ago',
+  'queueRuleValue.country': 'Country code',
+  'queueRuleValue.min_photos': 'Photos',
+  'queueRuleValue.waiting_days': 'Days',
+
+  'suspensions.title': 'Suspended Users',
+  'suspensions.hint': 'Running and scheduled suspensions and bans. Timed suspensions drop off this list by themselves when they end; suspend or ban someone from their user page.',
+  'suspensions.searchPlaceholder': 'Search by name or user id',
+  'suspensions.user': 'User',
+  'suspensions.status': 'Status',
+  'suspensions.until': 'Until',
+  'suspensions.reason': 'Reason',
+  'suspensions.noMatches': 'No suspended users match this search',
+  'suspensions.empty': 'Nobody is suspended',
+  'suspensions.suspended': 'Suspended',
+  'suspensions.banned': 'Banned',
+  'suspensions.permanent': 'Permanent',
+  'suspensions.liftNow': 'Lift now',
+  'suspensions.lifting': 'Lifting suspension…',
+  'suspensions.lifted': 'Lifted for {name}',
+} satisfies Record<string, Message>;
@@ -0,0 +1,500 @@
+import type { Catalog } from '../i18n';
+
+export const es: Catalog = {
+  'common.anonymous': 'Anónimo',
+  'common.backToDashboard': '← Volver al panel',
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.language': 'Idioma',
+  'common.unknown': 'Desconocido',
+  'common.saving': 'Guardando...',
+  'common.failedToLoad': 'Error al cargar',
+
+  'login.title': 'Acceso de administración',
+  'login.failed': 'Error al iniciar sesión con Google',
+
+  'status.pending': 'Pendiente',
+  'status.verified': 'Verificado',
+  'status.unverified': 'No verificado',
+
+  'gender.unset': 'Sin definir',
+  'gender.archived': '{label} (archivado)',
+
+  'rejectionReason.face_not_visible': 'Cara no visible',
+  'rejectionReason.profile_mismatch': 'No coincide con las fotos del perfil',
+  'rejectionReason.wrong_pose': 'Pose incorrecta',
+  'rejectionReason.suspected_fake': 'Posible falsificación',
+  'rejectionReason.underage': 'Menor de edad',
+  'rejectionReason.other': 'Otro',
+
+  'reject.title': 'Rechazar a {name}',
+  'reject.hint': 'Elige el motivo. Se le dirá al usuario qué debe corregir.',
+  'reject.notePlaceholder': 'Nota opcional para el usuario',
+  'reject.notePlaceholderRequired': 'Describe el problema (obligatorio)',
+  'reject.confirm': 'Confirmar rechazo',
+
+  'escalate.title': 'Escalar a {name}',
+  'escalate.hint': 'El usuario sale de la cola normal hasta que decida un moderador sénior.',
+  'escalate.placeholder': '¿Qué debe revisar el moderador sénior? (obligatorio)',
+  'escalate.confirm': 'Escalar',
+  'escalate.failed': 'No se pudo escalar: {error}',
+
+  'dashboard.title': 'MistMatch Admin',
+  'dashboard.welcome': 'Hola de nuevo, {name}',
+  'dashboard.logout': 'Cerrar sesión',
+  'dashboard.verifyUsers': 'Verificar usuarios ({count} pendientes)',
+  'dashboard.escalated': 'Escalados ({count})',
+  'dashboard.claimedByOthers': {
+    one: '{count} reservado por otro moderador',
+    other: '{count} reservados por otros moderadores',
+  },
+  'dashboard.verifyGenders': 'Verificar géneros',
+  'dashboard.reviewPhotos': 'Revisar fotos de perfil',
+  'dashboard.reviewReports': 'Gestionar denuncias',
+  'dashboard.suspensions': 'Usuarios suspendidos',
+  'dashboard.auditLog': 'Registro de auditoría',
+  'dashboard.statistics': 'Estadísticas',
+  'dashboard.manageAdmins': 'Gestionar administradores',
+  'dashboard.attributeOptions': 'Opciones de atributos',
+  'dashboard.nothingPending': 'No hay verificaciones pendientes en este momento. ¡Buen trabajo!',
+  'dashboard.recentlyDecided': 'Decididos recientemente',
+  'dashboard.approved': 'Aprobado',
+  'dashboard.rejected': 'Rechazado: {reason}',
+  'dashboard.reopen': 'Reabrir',
+
+  'queueOrder.label': 'Orden de la cola',
+  'queueOrder.countriesPlaceholder': 'Códigos de país, p. ej. ES, MX',
+  'queueOrder.save': 'Guardar',
+  'queueOrder.saved': 'Orden de la cola guardado',
+  'queueOrder.rules': 'Reglas de prioridad:',
+  'queueOrder.noRules': 'Sin reglas de prioridad',
+  'queueOrder.editRules': 'Editar reglas',
+  'queueStrategy.oldest_first': 'Registros más antiguos primero',
+  'queueStrategy.newest_first': 'Registros más recientes primero',
+  'queueStrategy.resubmissions_first': 'Reenvíos primero',
+  'queueStrategy.countries_first': 'Mis países primero',
+  'queueStrategy.most_photos': 'Más fotos de perfil primero',
+  'queueRule.country': 'De {value}',
+  'queueRule.resubmission': 'Reenvíos',
+  'queueRule.min_photos': '{value}+ fotos de perfil',
+  'queueRule.waiting_days': 'Esperando {value}+ días',
+
+  'verify.undoApprove': '↶ Deshacer aprobación de {name}',
+  'verify.undoReject': '↶ Deshacer rechazo de {name}',
+  'verify.profilePhotos': 'Fotos del perfil',
+  'verify.profilePhotoAlt': 'Perfil {number}',
+  'verify.noProfilePhotos': 'Sin fotos de perfil',
+  'verify.verificationPhotos': 'Fotos de verificación',
+  'verify.verificationPhotoAlt': 'Verificación {number}',
+  'verify.loadingVerificationPhotos': 'Cargando fotos de verificación...',
+  'verify.noVerificationPhotos': 'Sin fotos de verificación',
+  'verify.id': 'ID:',
+  'verify.signedUp': 'Registrado {time}',
+  'verify.escalatedAt': 'Escalado {time}',
+  'verify.previouslyRejected': 'Rechazado anteriormente: {reason}',
+  'verify.changeGender': 'Cambiar género',
+  'verify.genderUpdated': '¡Género actualizado!',
+  'verify.genderFailed': 'No se pudo actualizar el género',
+  'verify.approve': 'APROBAR',
+  'verify.reject': 'RECHAZAR',
+  'verify.skip': 'Saltar',
+  'verify.escalate': 'Escalar',
+  'verify.loadingMore': 'Cargando más usuarios...',
+  'verify.allDone': 'No quedan usuarios por verificar. ¡Buen trabajo!',
+
+  'grid.title': 'Verificación de género',
+  'grid.matching': { one: '{count} usuario coincide', other: '{count} usuarios coinciden' },
+  'grid.withoutGender': '{count} sin género',
+  'grid.export': 'Exportar',
+  'grid.search': 'Buscar',
+  'grid.searchPlaceholder': 'Nombre o ID de usuario',
+  'grid.filterGender': 'Filtrar por género',
+  'grid.all': 'Todos',
+  'grid.verification': 'Verificación',
+  'grid.country': 'País',
+  'grid.any': 'Cualquiera',
+  'grid.age': 'Edad',
+  'grid.min': 'Mín',
+  'grid.max': 'Máx',
+  'grid.signedUp': 'Registro',
+  'grid.sortByDate': 'Ordenar por fecha',
+  'grid.newestFirst': 'Más recientes primero',
+  'grid.oldestFirst': 'Más antiguos primero',
+  'grid.selectAll': 'Seleccionar todos en la página',
+  'grid.selected': '{count} seleccionados',
+  'grid.setOption': 'Marcar {label}',
+  'grid.clearGender': 'Quitar género',
+  'grid.selectUser': 'Seleccionar a {name}',
+  'grid.photoAlt': 'Foto {number}',
+  'grid.noPhoto': 'Sin foto',
+  'grid.previous': 'Anterior',
+  'grid.next': 'Siguiente',
+  'grid.page': 'Página {page} de {total}',
+  'grid.empty': 'No hay usuarios con los filtros actuales.',
+
+  'bulk.updating': { one: 'Actualizando {count} usuario…', other: 'Actualizando {count} usuarios…' },
+  'bulk.failed': 'Error en la actualización masiva',
+  'bulk.updated': { one: '{count} usuario actualizado', other: '{count} usuarios actualizados' },
+  'bulk.unchanged': '{count} ya tenían {gender}',
+  'bulk.unchangedNoGender': '{count} ya estaban sin género',
+  'bulk.conflicted': { one: '{count} fue cambiado por otra persona mientras tanto y se deja como está', other: '{count} fueron cambiados por otra persona mientras tanto y se dejan como están' },
+  'bulk.missing': '{count} ya no existen',
+
+  'queue.saving': { one: 'Guardando {count} cambio…', other: 'Guardando {count} cambios…' },
+  'queue.failed': 'No se pudo guardar la {action} de {name}',
+  'queue.conflict': 'La {action} de {name} no se guardó: el usuario cambió mientras tanto',
+  'queue.retry': 'Reintentar',
+  'queue.openUser': 'Abrir usuario',
+  'queue.dismiss': 'Descartar',
+  'queueAction.approve': 'aprobación',
+  'queueAction.reject': 'rechazo',
+  'queueAction.gender': 'modificación de género',
+
+  'export.title': { one: 'Exportar {count} usuario', other: 'Exportar {count} usuarios' },
+  'export.hint': 'Todos los usuarios que coinciden con los filtros actuales, no solo esta página.',
+  'export.download': 'Descargar',
+  'exportColumn.id': 'ID',
+  'exportColumn.name': 'Nombre',
+  'exportColumn.age': 'Edad',
+  'exportColumn.gender': 'Género',
+  'exportColumn.country': 'País',
+  'exportColumn.is_verified': 'Estado de verificación',
+  'exportColumn.created_at': 'Registro',
+  'exportColumn.profile_photo_count': 'Fotos del perfil',
+  'exportColumn.verification_photo_count': 'Fotos de verificación',
+
+  'compare.verification': 'Verificación',
+  'compare.profile': 'Perfil',
+  'compare.thumbnailAlt': 'Miniatura de {title} {number}',
+  'compare.rotateLeft': 'Girar a la izquierda',
+  'compare.rotateRight': 'Girar a la derecha',
+  'compare.brightness': 'Brillo',
+  'compare.noPhotos': 'Sin fotos',
+  'compare.reset': 'Restablecer',
+  'compare.link': 'Vincular zoom y desplazamiento',
+  'compare.help': 'Rueda para zoom • arrastrar para mover • ←/→ foto del perfil • ↑/↓ foto de verificación • Esc para cerrar',
+
+  'duplicates.failed': 'Error al buscar duplicados: {error}',
+  'duplicates.checking': 'Buscando cuentas duplicadas...',
+  'duplicates.none': 'No se encontraron posibles cuentas duplicadas',
+  'duplicates.count': { one: '{count} posible cuenta duplicada', other: '{count} posibles cuentas duplicadas' },
+  'duplicates.identical': 'Foto idéntica ({sources})',
+  'duplicates.similar': 'Foto similar, distancia {distance} ({sources})',
+  'duplicates.sameProfile': 'Mismo nombre, edad y país',
+  'duplicates.profile': 'perfil',
+  'duplicates.verification': 'verificación',
+
+  'photos.title': 'Revisión de fotos de perfil',
+  'photos.waiting': { one: '{count} foto pendiente de revisión', other: '{count} fotos pendientes de revisión' },
+  'photos.allDone': 'No hay fotos de perfil nuevas por revisar. ¡Buen trabajo!',
+  'photos.added': 'Añadida {time}',
+  'photos.approve': 'Aprobar',
+  'photos.remove': 'Eliminar',
+  'photos.removeTitle': 'Eliminar foto de {name}',
+  'photos.notePlaceholder': 'Nota opcional para el registro de auditoría',
+  'photos.confirmRemove': 'Eliminar foto',
+  'photoReason.nudity': 'Desnudez o contenido sexual',
+  'photoReason.not_a_person': 'No es una foto de una persona',
+  'photoReason.contact_info': 'Contiene datos de contacto',
+  'photoReason.offensive': 'Ofensiva o violenta',
+  'photoReason.low_quality': 'Demasiado borrosa u oscura',
+  'photoReason.other': 'Otro',
+  'reports.title': 'Denuncias de usuarios',
+  'reports.waiting': { one: '{count} usuario denunciado en espera', other: '{count} usuarios denunciados en espera' },
+  'reports.allDone': 'No hay denuncias abiertas. ¡Buen trabajo!',
+  'reports.openCount': { one: '{count} denuncia abierta', other: '{count} denuncias abiertas' },
+  'reports.lastReported': 'Última denuncia {time}',
+  'reports.review': 'Revisar',
+  'reports.backToList': '← Volver a las denuncias',
+  'reports.loading': 'Cargando denuncias...',
+  'reports.openReports': 'Denuncias abiertas',
+  'reports.pastReports': 'Denuncias anteriores',
+  'reports.reportedBy': 'De {name}, {time}',
+  'reports.deletedReporter': 'una cuenta eliminada',
+  'reports.noMessage': 'Sin mensaje',
+  'reports.resolvedAs': '{resolution} {time}',
+  'reports.notePlaceholder': 'Nota para el usuario — obligatoria salvo al descartar',
+  'reports.dismiss': 'Descartar',
+  'reports.warn': 'Advertir al usuario',
+  'reports.revoke': 'Retirar verificación',
+  'reports.revokeReason': 'Motivo de la retirada…',
+  'reports.suspend': 'Suspender',
+  'reportCategory.fake_profile': 'Perfil falso',
+  'reportCategory.harassment': 'Acoso',
+  'reportCategory.spam': 'Spam',
+  'reportCategory.inappropriate_content': 'Contenido inapropiado',
+  'reportCategory.underage': 'Menor de edad',
+  'reportCategory.scam': 'Estafa o fraude',
+  'reportCategory.other': 'Otro',
+  'reportResolution.dismissed': 'Descartada',
+  'reportResolution.warned': 'Usuario advertido',
+  'reportResolution.verification_revoked': 'Verificación retirada',
+  'reportResolution.suspended': 'Usuario suspendido',
+  'suspension.banned': 'Expulsado',
+  'suspension.suspendedUntil': 'Suspendido hasta {date}',
+  'suspension.history': { one: 'Suspendido una vez antes', other: 'Suspendido {count} veces antes' },
+  'reports.suspendFor': 'Suspender durante',
+  'suspensionLength.1': '1 día',
+  'suspensionLength.3': '3 días',
+  'suspensionLength.7': '1 semana',
+  'suspensionLength.30': '30 días',
+  'suspensionLength.90': '90 días',
+  'suspensionLength.permanent': 'Expulsión permanente',
+
+  'shortcuts.button': '⌨ Atajos ({key})',
+  'shortcuts.title': 'Atajos de teclado',
+  'shortcuts.reset': 'Restablecer valores',
+  'shortcuts.hint': 'Haz clic en una tecla para reasignarla y pulsa la nueva. En el selector de rechazo, pulsa 1–6 para elegir un motivo y Enter para confirmar.',
+  'shortcuts.conflict': '{key} ya se usa para «{action}». Elige otra tecla o cambia primero esa.',
+  'shortcutGroup.verification': 'Verificación',
+  'shortcutGroup.genderGrid': 'Cuadrícula de género',
+  'shortcutGroup.general': 'General',
+  'shortcut.approve': 'Aprobar',
+  'shortcut.reject': 'Rechazar (elegir motivo)',
+  'shortcut.skip': 'Mover al final de la cola',
+  'shortcut.escalate': 'Escalar a revisión sénior',
+  'shortcut.undo': 'Deshacer la última decisión',
+  'shortcut.prevPhoto': 'Foto anterior',
+  'shortcut.nextPhoto': 'Foto siguiente',
+  'shortcut.openPhoto': 'Comparar fotos lado a lado',
+  'shortcut.prevCard': 'Tarjeta anterior',
+  'shortcut.nextCard': 'Tarjeta siguiente',
+  'shortcut.cardUp': 'Tarjeta de arriba',
+  'shortcut.cardDown': 'Tarjeta de abajo',
+  'shortcut.toggleSelect': 'Seleccionar / deseleccionar tarjeta',
+  'shortcut.setOption1': 'Género: primera opción',
+  'shortcut.setOption2': 'Género: segunda opción',
+  'shortcut.setOption3': 'Género: tercera opción',
+  'shortcut.clearOption': 'Género: sin definir',
+  'shortcut.back': 'Volver al panel',
+  'shortcut.help': 'Mostrar / ocultar atajos',
+
+  'common.loading': 'Cargando…',
+  'common.from': 'Desde',
+  'common.to': 'Hasta',
+  'common.exportFormat': 'Exportar {format}',
+  'common.inProgress': '{action}…',
+  'common.actionDone': '{action}: hecho',
+
+  'notAuthorised.title': 'Sin autorización',
+  'notAuthorised.body': 'Tu cuenta ha iniciado sesión pero no es administradora de este portal. Pide a un administrador existente que te dé acceso o inicia sesión con otra cuenta.',
+  'notAuthorised.switchAccount': 'Iniciar sesión con otra cuenta',
+
+  'audit.title': 'Registro de moderación',
+  'audit.admin': 'Administrador',
+  'audit.adminPlaceholder': 'El correo contiene…',
+  'audit.action': 'Acción',
+  'audit.userId': 'ID de usuario',
+  'audit.userIdPlaceholder': 'ID de usuario exacto',
+  'audit.all': 'Todas',
+  'audit.when': 'Cuándo',
+  'audit.user': 'Usuario',
+  'audit.change': 'Cambio',
+  'audit.reason': 'Motivo',
+  'audit.onlyThisUser': 'Mostrar solo este usuario',
+  'audit.empty': 'Ninguna entrada del registro coincide con estos filtros.',
+  'auditAction.approve': 'Aprobado',
+  'auditAction.reject': 'Rechazado',
+  'auditAction.gender_change': 'Género cambiado',
+  'auditAction.undo': 'Decisión deshecha',
+  'auditAction.escalate': 'Escalado',
+  'auditAction.profile_edit': 'Perfil editado',
+  'auditAction.verification_reset': 'Verificación restablecida',
+  'auditAction.photo_remove': 'Foto de perfil eliminada',
+  'auditAction.photo_approve': 'Foto de perfil aprobada',
+  'auditAction.report_dismiss': 'Denuncias descartadas',
+  'auditAction.user_warn': 'Usuario advertido',
+  'auditAction.verification_revoke': 'Verificación retirada',
+  'auditAction.user_suspend': 'Usuario suspendido',
+  'auditAction.suspension_lift': 'Suspensión levantada',
+  'auditAction.admin_invite': 'Administrador invitado',
+  'auditAction.admin_role_change': 'Rol de administrador cambiado',
+  'auditAction.admin_deactivate': 'Administrador desactivado',
+  'auditAction.admin_reactivate': 'Administrador reactivado',
+
+  'stats.title': 'Estadísticas de moderación',
+  'stats.groupBy': 'Agrupar por',
+  'stats.exportJson': 'Exportar JSON',
+  'stats.weekOf': 'Semana del {date}',
+  'stats.noData': 'Sin datos',
+  'stats.approved': 'Aprobados',
+  'stats.rejected': 'Rechazados',
+  'stats.approvalRate': 'Tasa de aprobación',
+  'stats.medianTime': 'Mediana hasta la decisión',
+  'stats.decisions': 'Decisiones',
+  'stats.backlog': 'Pendientes acumulados',
+  'stats.pendingAtEnd': 'Pendientes al final del periodo',
+  'stats.rejectionReasons': 'Motivos de rechazo',
+  'stats.moderators': 'Moderadores',
+  'stats.moderatorDecisions': '{approved} aprobados · {rejected} rechazados',
+  'stats.byGender': 'Usuarios verificados por género (registrados en el rango)',
+  'stats.byCountry': 'Usuarios verificados por país (top 20)',
+  'stats.footnote': 'Tiempo medio desde el registro hasta la decisión: {average}. Los periodos están en UTC; las decisiones deshechas siguen contando en el periodo en que se tomaron.',
+  'stats.minutes': '{value} min',
+  'stats.hours': '{value} h',
+  'stats.days': '{value} días',
+  'statsBucket.day': 'Día',
+  'statsBucket.week': 'Semana',
+
+  'admins.title': 'Gestionar administradores',
+  'admins.ownersOnly': 'Solo los propietarios pueden gestionar administradores.',
+  'admins.inviteByEmail': 'Invitar por correo',
+  'admins.role': 'Rol',
+  'admins.sendInvite': 'Enviar invitación',
+  'admins.admin': 'Administrador',
+  'admins.added': 'Añadido',
+  'admins.status': 'Estado',
+  'admins.ownRole': 'No puedes cambiar tu propio rol',
+  'admins.active': 'Activo',
+  'admins.deactivatedAt': 'Desactivado el {date}',
+  'admins.reactivate': 'Reactivar',
+  'admins.deactivate': 'Desactivar',
+  'admins.permission': 'Permiso',
+  'admins.inviting': 'Invitando a {email}',
+  'admins.changingRole': 'Cambiando el rol de {email}',
+  'admins.reactivating': 'Reactivando a {email}',
+  'admins.deactivating': 'Desactivando a {email}',
+  'photoHashes.title': 'Huellas de fotos',
+  'photoHashes.hint': 'La búsqueda de duplicados solo encuentra fotos con huella, que se crea cuando un usuario se reclama para verificarlo. Ejecútalo una vez para procesar a todos los demás, como los usuarios verificados antes de que existiera la búsqueda de duplicados.',
+  'photoHashes.run': 'Procesar las fotos de los usuarios existentes',
+  'photoHashes.progress': { one: 'Procesando fotos… {count} usuario revisado', other: 'Procesando fotos… {count} usuarios revisados' },
+  'photoHashes.done': { one: 'Huellas de fotos completas: {count} usuario revisado', other: 'Huellas de fotos completas: {count} usuarios revisados' },
+  'photoHashes.failed': 'El procesamiento falló',
+  'role.viewer': 'Observador',
+  'role.moderator': 'Moderador',
+  'role.senior_moderator': 'Moderador sénior',
+  'role.owner': 'Propietario',
+  'permission.verify': 'Verificar usuarios',
+  'permission.changeGender': 'Cambiar el género',
+  'permission.moderatePhotos': 'Moderar fotos de perfil',
+  'permission.handleReports': 'Gestionar denuncias',
+  'permission.suspendUsers': 'Suspender y bloquear usuarios',
+  'permission.reviewEscalations': 'Revisar escalados',
+  'permission.reverseDecisions': 'Revertir decisiones',
+  'permission.editProfiles': 'Editar perfiles',
+  'permission.export': 'Exportar datos',
+  'permission.manageAdmins': 'Gestionar administradores',
+  'permission.manageAttributes': 'Gestionar opciones de atributos',
+  'permission.manageQueueRules': 'Gestionar reglas de prioridad de la cola',
+  'permission.backfillPhotoHashes': 'Procesar fotos existentes para la búsqueda de duplicados',
+
+  'userDetail.loading': 'Cargando usuario…',
+  'userDetail.saved': '{action}: guardado',
+  'userDetail.record': 'Registro',
+  'userDetail.items': { one: '{count} elemento', other: '{count} elementos' },
+  'userDetail.editProfile': 'Editar perfil',
+  'userDetail.name': 'Nombre',
+  'userDetail.age': 'Edad',
+  'userDetail.country': 'País',
+  'userDetail.ageNotWhole': 'La edad debe ser un número entero',
+  'userDetail.saveProfile': 'Guardar perfil',
+  'userDetail.gender': 'Género',
+  'userDetail.updatingProfile': 'Actualizando el perfil',
+  'userDetail.settingGender': 'Cambiando el género a {label}',
+  'userDetail.clearingGender': 'Quitando el género',
+  'userDetail.verification': 'Verificación',
+  'userDetail.status': 'Estado:',
+  'userDetail.resubmissionRequested': 'Nuevas fotos solicitadas {time}',
+  'userDetail.resetPlaceholder': 'Por qué hacen falta fotos nuevas (opcional)',
+  'userDetail.reset': 'Volver a pendiente y pedir fotos nuevas',
+  'userDetail.resetting': 'Restableciendo la verificación',
+  'userDetail.suspensions': 'Suspensiones',
+  'userDetail.neverSuspended': 'Nunca suspendido',
+  'userDetail.suspension': 'Suspensión',
+  'userDetail.ban': 'Bloqueo',
+  'userDetail.window': '{start} – {end}',
+  'userDetail.permanentFrom': '{start}, permanente',
+  'userDetail.lifted': 'Levantada {time}',
+  'userDetail.liftPlaceholder': 'Por qué se levanta (opcional)',
+  'userDetail.lift': 'Levantar',
+  'userDetail.lifting': 'Levantando la suspensión',
+  'userDetail.reasonPlaceholder': 'Motivo (obligatorio)',
+  'userDetail.length': 'Duración',
+  'userDetail.startsAt': 'Inicio (vacío para ahora)',
+  'userDetail.suspend': 'Suspender',
+  'userDetail.banPermanently': 'Bloquear permanentemente',
+  'userDetail.suspending': 'Suspendiendo al usuario',
+  'userDetail.banning': 'Bloqueando al usuario',
+  'userDetail.profilePhotos': 'Fotos de perfil ({count})',
+  'userDetail.removePhoto': 'Eliminar foto',
+  'userDetail.removingPhoto': 'Eliminando la foto',
+  'userDetail.verificationPhotos': 'Fotos de verificación ({count})',
+  'userDetail.duplicates': 'Posibles duplicados',
+  'userDetail.history': 'Historial de moderación',
+  'userDetail.noHistory': 'No hay acciones de moderación registradas',
+  'userDetail.rejections': 'Rechazos',
+  'userDetail.neverRejected': 'Nunca rechazado',
+  'userDetail.escalations': 'Escalados',
+  'userDetail.neverEscalated': 'Nunca escalado',
+  'userDetail.escalationOpen': 'Abierto',
+  'userDetail.escalationResolved': 'Resuelto',
+  'suspensionState.scheduled': 'Programada',
+  'suspensionState.active': 'Activa',
+  'suspensionState.expired': 'Terminada',
+  'suspensionState.lifted': 'Levantada antes de tiempo',
+
+  'attributes.title': 'Opciones de atributos',
+  'attributes.ownersOnly': 'Solo los propietarios pueden gestionar las opciones de atributos.',
+  'attributes.hint': 'Las opciones archivadas ya no se pueden asignar, pero los usuarios que las tienen las conservan. Los valores guardados nunca cambian; cambia la etiqueta en su lugar.',
+  'attributes.order': 'Orden',
+  'attributes.value': 'Valor guardado',
+  'attributes.label': 'Etiqueta',
+  'attributes.color': 'Color',
+  'attributes.preview': 'Vista previa',
+  'attributes.moveUp': 'Subir {label}',
+  'attributes.moveDown': 'Bajar {label}',
+  'attributes.save': 'Guardar',
+  'attributes.archive': 'Archivar',
+  'attributes.restore': 'Restaurar',
+  'attributes.valuePlaceholder': 'p. ej. No binario',
+  'attributes.newLabel': 'Etiqueta (por defecto, el valor)',
+  'attributes.add': 'Añadir opción',
+  'attributes.moving': 'Moviendo {label}',
+  'attributes.adding': 'Añadiendo {label}',
+  'attributes.renaming': 'Renombrando {label}',
+  'attributes.recolouring': 'Cambiando el color de {label}',
+  'attributes.archiving': 'Archivando {label}',
+  'attributes.restoring': 'Restaurando {label}',
+  'attribute.gender': 'Género',
+
+  'queueRules.title': 'Reglas de prioridad de la cola',
+  'queueRules.seniorOnly': 'Solo los moderadores sénior pueden gestionar las reglas de prioridad de la cola.',
+  'queueRules.hint': 'Cada usuario pendiente suma los pesos de las reglas activas que cumple. Las puntuaciones más altas se reclaman primero en la cola de cada moderador; su propio orden solo decide entre puntuaciones iguales. Los pesos negativos bajan a los usuarios.',
+  'queueRules.rule': 'Regla',
+  'queueRules.value': 'Valor',
+  'queueRules.weight': 'Peso',
+  'queueRules.added': 'Añadida',
+  'queueRules.add': 'Añadir regla',
+  'queueRules.empty': 'Todavía no hay reglas: cada cola sigue su propio orden.',
+  'queueRules.pause': 'Pausar',
+  'queueRules.resume': 'Reanudar',
+  'queueRules.delete': 'Eliminar',
+  'queueRules.adding': 'Añadiendo la regla',
+  'queueRules.changingWeight': 'Cambiando el peso',
+  'queueRules.pausing': 'Pausando la regla',
+  'queueRules.resuming': 'Reanudando la regla',
+  'queueRules.deleting': 'Eliminando la regla',
+  'queueRuleKind.country': 'De un país',
+  'queueRuleKind.resubmission': 'Reenvío (rechazado o restablecido antes)',
+  'queueRuleKind.min_photos': 'Al menos N fotos de perfil',
+  'queueRuleKind.waiting_days': 'Registrado hace al menos N días',
+  'queueRuleValue.country': 'Código de país',
+  'queueRuleValue.min_photos': 'Fotos',
+  'queueRuleValue.waiting_days': 'Días',
+
+  'suspensions.title': 'Usuarios suspendidos',
+  'suspensions.hint': 'Suspensiones y bloqueos en curso y programados. Las suspensiones temporales desaparecen solas de esta lista al terminar; suspende o bloquea a alguien desde su página de usuario.',
+  'suspensions.searchPlaceholder': 'Buscar por nombre o ID de usuario',
+  'suspensions.user': 'Usuario',
+  'suspensions.status': 'Estado',
+  'suspensions.until': 'Hasta',
+  'suspensions.reason': 'Motivo',
+  'suspensions.noMatches': 'Ningún usuario suspendido coincide con esta búsqueda',
+  'suspensions.empty': 'No hay nadie suspendido',
+  'suspensions.suspended': 'Suspendido',
+  'suspensions.banned': 'Bloqueado',
+  'suspensions.permanent': 'Permanente',
+  'suspensions.liftNow': 'Levantar ahora',
+  'suspensions.lifting': 'Levantando la suspensión…',
+  'suspensions.lifted': 'Levantada para {name}',
+};
@@ -0,0 +1,20 @@
+// Calls a /api/moderation route (authenticated by the session cookie), returning the same { data, error } shape as supabase-js.
+// `status` is the HTTP status, or 0 when the request never got a response.
+export async function moderationRequest<T = unknown>(
+  path: string,
+  body?: unknown,
+  method: 'GET' | 'POST' | 'DELETE' = 'POST'
+): Promise<{ data: T | null; error: string | null; status: number }> {
+  try {
+    const res = await fetch(`/api/moderation/${path}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) return { data: null, error: json.error || `Request failed (${res.status})`, status: res.status };
+    return { data: json as T, error: null, status: res.status };
+  } catch (err) {
+    return { data: null, error: err instanceof Error ? err.message : 'Network error', status: 0 };
+  }
+}
@@ -0,0 +1,118 @@
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import { downloadProfilePhotoObject } from './profile-photos';
+import { supabaseAdmin } from './supabase/admin';
+import type { PhotoMatch, PhotoSource, User } from './types';
+import { downloadVerificationPhoto, listVerificationPhotoPaths } from './verification-photos';
+
+// Largest dHash Hamming distance still reported as the same picture. find_photo_matches cannot look further than 3.
+export const SIMILAR_PHOTO_DISTANCE = 3;
+
+type PhotoRef = { userId: string; source: PhotoSource; key: string };
+
+// 64-bit difference hash: shrink to 9x8 grey pixels and record whether each pixel is darker than its right
+// neighbour. Survives resizing, recompression and small colour changes. Returned as a signed bigint string for Postgres.
+async function differenceHash(image: Buffer) {
+  const pixels = await sharp(image)
+    .rotate()
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+  let hash = BigInt(0);
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      hash = (hash << BigInt(1)) | BigInt(pixels[y * 9 + x] < pixels[y * 9 + x + 1] ? 1 : 0);
+    }
+  }
+  return BigInt.asIntN(64, hash).toString();
+}
+
+async function loadPhoto(ref: PhotoRef): Promise<Buffer | null> {
+  return ref.source === 'verification' ? downloadVerificationPhoto(ref.key) : downloadProfilePhotoObject(ref.userId, ref.key);
+}
+
+async function hashPhoto(ref: PhotoRef) {
+  const image = await loadPhoto(ref);
+  if (!image) return null;
+  try {
+    return {
+      user_id: ref.userId,
+      source: ref.source,
+      photo_key: ref.key,
+      sha256: createHash('sha256').update(image).digest('hex'),
+      dhash: await differenceHash(image),
+    };
+  } catch (error) {
+    console.error(`Error hashing photo ${ref.key}:`, error);
+    return null;
+  }
+}
+
+// Hashes every profile and verification photo of these users that has not been hashed yet. Photos are
+// processed one at a time to keep memory flat; failures are logged and retried the next time the user is seen.
+export async function ensurePhotoHashes(users: Pick<User, 'id' | 'image_urls'>[]) {
+  if (users.length === 0) return;
+
+  const { data: existing, error } = await supabaseAdmin
+    .from('photo_hashes')
+    .select('user_id, photo_key')
+    .in('user_id', users.map(u => u.id));
+  if (error) {
+    console.error('Error loading photo hashes:', error);
+    return;
+  }
+  const known = new Set((existing || []).map(r => `${r.user_id}:${r.photo_key}`));
+
+  const refs: PhotoRef[] = [];
+  for (const user of users) {
+    for (const url of user.image_urls || []) refs.push({ userId: user.id, source: 'profile', key: url });
+    for (const path of await listVerificationPhotoPaths(user.id)) refs.push({ userId: user.id, source: 'verification', key: path });
+  }
+
+  for (const ref of refs) {
+    if (known.has(`${ref.userId}:${ref.key}`)) continue;
+    const row = await hashPhoto(ref);
+    if (!row) continue;
+    const { error: insertError } = await supabaseAdmin
+      .from('photo_hashes')
+      .upsert(row, { onConflict: 'user_id,photo_key', ignoreDuplicates: true });
+    if (insertError) console.error(`Error storing hash for ${ref.key}:`, insertError);
+  }
+}
+
+// Other users with a photo identical or similar to one of this user's, closest first.
+export async function findPhotoMatches(userId: string): Promise<PhotoMatch[]> {
+  const { data, error } = await supabaseAdmin.rpc('find_photo_matches', {
+    p_user_id: userId,
+    p_max_distance: SIMILAR_PHOTO_DISTANCE,
+  });
+  if (error) {
+    console.error('Error finding photo matches:', error);
+    return [];
+  }
+
+  const rows = (data || []) as { user_id: string; source: PhotoSource; matched_source: PhotoSource; identical: boolean; distance: number }[];
+  if (rows.length === 0) return [];
+
+  const { data: users, error: usersError } = await supabaseAdmin
+    .from('users')
+    .select('id, name, age, country, is_verified')
+    .in('id', [...new Set(rows.map(r => r.user_id))]);
+  if (usersError) {
+    console.error('Error loading matched users:', usersError);
+    return [];
+  }
+
+  const matches = new Map<string, PhotoMatch>();
+  for (const row of rows) {
+    const user = users?.find(u => u.id === row.user_id);
+    if (!user) continue;
+    const match: PhotoMatch = matches.get(row.user_id) ?? { user, kind: 'similar', distance: row.distance, sources: [] };
+    if (row.identical) match.kind = 'identical';
+    match.distance = Math.min(match.distance, row.identical ? 0 : row.distance);
+    match.sources.push({ theirs: row.source, ours: row.matched_source });
+    matches.set(row.user_id, match);
+  }
+  return [...matches.values()].sort((a, b) => a.distance - b.distance);
+}
@@ -0,0 +1,19 @@
+// Why a profile photo was taken down. Labels are for the audit log; the dashboard uses the translated photoReason.* keys.
+export const PHOTO_REMOVAL_REASONS = [
+  { code: 'nudity', label: 'Nudity or sexual content' },
+  { code: 'not_a_person', label: 'Not a photo of a person' },
+  { code: 'contact_info', label: 'Contains contact info' },
+  { code: 'offensive', label: 'Offensive or violent' },
+  { code: 'low_quality', label: 'Too blurry or dark' },
+  { code: 'other', label: 'Other' },
+] as const;
+
+export type PhotoRemovalReason = (typeof PHOTO_REMOVAL_REASONS)[number]['code'];
+
+export function isPhotoRemovalReason(value: unknown): value is PhotoRemovalReason {
+  return PHOTO_REMOVAL_REASONS.some(r => r.code === value);
+}
+
+export function photoRemovalReasonLabel(code: string | null) {
+  return PHOTO_REMOVAL_REASONS.find(r => r.code === code)?.label ?? code ?? 'Unknown';
+}
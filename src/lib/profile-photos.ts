@@ -0,0 +1,67 @@
+import { supabaseAdmin } from './supabase/admin';
+
+const PROFILE_PHOTO_BUCKET = 'profilephotos';
+const PUBLIC_OBJECT_PATH = '/storage/v1/object/public/';
+
+// The bucket and path behind a profile photo URL from our own storage; null for photos hosted anywhere else.
+function storageObjectFromUrl(url: string) {
+  try {
+    const parsed = new URL(url);
+    if (parsed.origin !== new URL(process.env.NEXT_PUBLIC_SUPABASE_URL!).origin) return null;
+    if (!parsed.pathname.startsWith(PUBLIC_OBJECT_PATH)) return null;
+    const [bucket, ...path] = parsed.pathname.slice(PUBLIC_OBJECT_PATH.length).split('/').map(decodeURIComponent);
+    return bucket && path.length > 0 ? { bucket, path: path.join('/') } : null;
+  } catch {
+    return null;
+  }
+}
+
+// The storage path behind one of this user's profile photos, or null unless the URL names a file in their own
+// folder of the profile photo bucket. Members write image_urls, so any other object it names (someone else's
+// photo, a verification photo) must never be touched on their behalf.
+function ownProfilePhotoPath(userId: string, url: string) {
+  const object = storageObjectFromUrl(url);
+  if (!object || object.bucket !== PROFILE_PHOTO_BUCKET) return null;
+  const segments = object.path.split('/');
+  if (segments[0] !== userId || segments.length < 2 || segments.some(s => !s || s === '.' || s === '..')) return null;
+  return object.path;
+}
+
+// Downloads one of this user's profile photos through the storage client. Anything but a file in their own folder
+// of the profile photo bucket is refused: image_urls is written by members, so following it would let them point
+// the server at any address, or at any object our service role can read.
+export async function downloadProfilePhotoObject(userId: string, url: string): Promise<Buffer | null> {
+  const path = ownProfilePhotoPath(userId, url);
+  if (!path) {
+    console.error(`Refusing to download profile photo outside ${userId}'s own folder: ${url}`);
+    return null;
+  }
+  const { data, error } = await supabaseAdmin.storage.from(PROFILE_PHOTO_BUCKET).download(path);
+  if (error || !data) {
+    console.error(`Error downloading profile photo ${url}:`, error);
+    return null;
+  }
+  return Buffer.from(await data.arrayBuffer());
+}
+
+// Deletes the stored file behind a removed profile photo. Files outside the user's own folder are left alone.
+// Failures are logged: the photo is already off the profile.
+async function deleteProfilePhotoObject(userId: string, url: string) {
+  const path = ownProfilePhotoPath(userId, url);
+  if (!path) return;
+  const { error } = await supabaseAdmin.storage.from(PROFILE_PHOTO_BUCKET).remove([path]);
+  if (error) console.error(`Error deleting profile photo ${url}:`, error);
+}
+
+// Takes a photo off the user's profile and deletes its stored file. The user may have deleted it themselves
+// in the meantime; the file still goes. The URL is removed in the database, so photos added meanwhile are kept.
+// False when the profile couldn't be updated, in which case the file is kept.
+export async function removeProfilePhoto(userId: string, url: string) {
+  const { error } = await supabaseAdmin.rpc('remove_profile_photo', { p_user_id: userId, p_url: url });
+  if (error) {
+    console.error('Error removing profile photo:', error);
+    return false;
+  }
+  await deleteProfilePhotoObject(userId, url);
+  return true;
+}
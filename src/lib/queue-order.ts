@@ -0,0 +1,51 @@
+// Verification queue strategies (chosen per admin) and shared priority rules, applied by claim_verification_batch.
+export const QUEUE_STRATEGIES = ['oldest_first', 'newest_first', 'resubmissions_first', 'countries_first', 'most_photos'] as const;
+
+export type QueueStrategy = (typeof QUEUE_STRATEGIES)[number];
+
+export const PRIORITY_RULE_KINDS = [
+  { kind: 'country', label: 'From country' },
+  { kind: 'resubmission', label: 'Resubmission (rejected or reset before)' },
+  { kind: 'min_photos', label: 'At least N profile photos' },
+  { kind: 'waiting_days', label: 'Signed up at least N days ago' },
+] as const;
+
+export type PriorityRuleKind = (typeof PRIORITY_RULE_KINDS)[number]['kind'];
+
+export type PriorityRule = {
+  id: string;
+  kind: PriorityRuleKind;
+  value: string | null;
+  weight: number; // Summed over matching active rules; higher sorts first
+  active: boolean;
+  created_at: string;
+};
+
+export type QueueOrder = {
+  strategy: QueueStrategy;
+  countries: string[];
+  rules: PriorityRule[]; // Active rules only
+};
+
+export const MAX_RULE_WEIGHT = 100;
+
+export function isQueueStrategy(value: unknown): value is QueueStrategy {
+  return QUEUE_STRATEGIES.includes(value as QueueStrategy);
+}
+
+export function isPriorityRuleKind(value: unknown): value is PriorityRuleKind {
+  return PRIORITY_RULE_KINDS.some(k => k.kind === value);
+}
+
+// "de, AT ch" -> ['DE', 'AT', 'CH']; anything that isn't a two-letter code is dropped
+export function parseCountryCodes(input: string) {
+  return [...new Set(input.toUpperCase().split(/[\s,;]+/).filter(code => /^[A-Z]{2}$/.test(code)))];
+}
+
+// The stored form of a rule's value, or undefined when it doesn't suit the kind
+export function normalizeRuleValue(kind: PriorityRuleKind, value: unknown): string | null | undefined {
+  if (kind === 'resubmission') return null;
+  const text = typeof value === 'number' ? String(value) : typeof value === 'string' ? value.trim() : '';
+  if (kind === 'country') return /^[A-Za-z]{2}$/.test(text) ? text.toUpperCase() : undefined;
+  return /^\d{1,4}$/.test(text) ? String(Number(text)) : undefined;
+}
@@ -0,0 +1,27 @@
+// What the member is told for each code lives in the rejection_reasons table, which the member app reads
+export const REJECTION_REASONS = [
+  { code: 'face_not_visible', label: 'Face not visible' },
+  { code: 'profile_mismatch', label: "Doesn't match profile photos" },
+  { code: 'wrong_pose', label: 'Wrong pose' },
+  { code: 'suspected_fake', label: 'Suspected fake' },
+  { code: 'underage', label: 'Underage' },
+  { code: 'other', label: 'Other' },
+] as const;
+
+export type RejectionReasonCode = (typeof REJECTION_REASONS)[number]['code'];
+
+export type Rejection = {
+  reason: RejectionReasonCode;
+  note: string | null;
+};
+
+export function isRejectionReasonCode(value: unknown): value is RejectionReasonCode {
+  return REJECTION_REASONS.some(r => r.code === value);
+}
+
+// A reject needs a reason, and "other" is meaningless to the user without a note.
+export function isCompleteRejection(rejection: Partial<Rejection>): rejection is Rejection {
+  if (!isRejectionReasonCode(rejection.reason)) return false;
+  if (rejection.reason === 'other') return !!rejection.note?.trim();
+  return true;
+}
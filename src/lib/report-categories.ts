@@ -0,0 +1,36 @@
+import type { AuditAction } from './audit';
+
+// What members can report each other for. Labels are for the audit log; the dashboard uses the translated reportCategory.* keys.
+export const REPORT_CATEGORIES = [
+  { code: 'fake_profile', label: 'Fake profile' },
+  { code: 'harassment', label: 'Harassment' },
+  { code: 'spam', label: 'Spam' },
+  { code: 'inappropriate_content', label: 'Inappropriate content' },
+  { code: 'underage', label: 'Underage' },
+  { code: 'scam', label: 'Scam or fraud' },
+  { code: 'other', label: 'Other' },
+] as const;
+
+export type ReportCategory = (typeof REPORT_CATEGORIES)[number]['code'];
+
+export function reportCategoryLabel(code: string | null) {
+  return REPORT_CATEGORIES.find(c => c.code === code)?.label ?? code ?? 'Unknown';
+}
+
+// How a moderator closed a user's open reports, and the audit action each one is logged as
+export const REPORT_RESOLUTIONS = [
+  { resolution: 'dismissed', action: 'report_dismiss', label: 'Dismissed' },
+  { resolution: 'warned', action: 'user_warn', label: 'User warned' },
+  { resolution: 'verification_revoked', action: 'verification_revoke', label: 'Verification revoked' },
+  { resolution: 'suspended', action: 'user_suspend', label: 'User suspended' },
+] as const;
+
+export type ReportResolution = (typeof REPORT_RESOLUTIONS)[number]['resolution'];
+
+export function reportResolutionAction(resolution: ReportResolution): AuditAction {
+  return REPORT_RESOLUTIONS.find(r => r.resolution === resolution)?.action ?? 'report_dismiss';
+}
+
+export function reportResolutionLabel(resolution: string | null) {
+  return REPORT_RESOLUTIONS.find(r => r.resolution === resolution)?.label ?? resolution ?? 'Open';
+}
@@ -0,0 +1,51 @@
+export const ADMIN_ROLES = [
+  { role: 'viewer', label: 'Viewer' },
+  { role: 'moderator', label: 'Moderator' },
+  { role: 'senior_moderator', label: 'Senior moderator' },
+  { role: 'owner', label: 'Owner' },
+] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number]['role'];
+
+// Which roles may do what. Viewing the dashboard, statistics, audit log and user details needs no permission.
+export const PERMISSIONS = {
+  verify: ['moderator', 'senior_moderator', 'owner'], // Claim, approve, reject, skip, escalate, undo own decisions
+  changeGender: ['moderator', 'senior_moderator', 'owner'],
+  moderatePhotos: ['moderator', 'senior_moderator', 'owner'], // Approve or remove photos in the profile photo queue
+  handleReports: ['moderator', 'senior_moderator', 'owner'], // Resolve member reports: dismiss, warn, revoke verification; suspending also needs suspendUsers
+  suspendUsers: ['senior_moderator', 'owner'], // Suspend or ban accounts and lift suspensions, also when resolving reports
+  reviewEscalations: ['senior_moderator', 'owner'],
+  reverseDecisions: ['senior_moderator', 'owner'], // Undo other admins' decisions, reset verification
+  editProfiles: ['senior_moderator', 'owner'],
+  export: ['senior_moderator', 'owner'],
+  manageAdmins: ['owner'],
+  manageAttributes: ['owner'], // Add, rename, recolour and archive profile attribute options
+  manageQueueRules: ['senior_moderator', 'owner'], // Priority rules that reorder everyone's verification queue
+  backfillPhotoHashes: ['senior_moderator', 'owner'], // Fingerprint existing users' photos so duplicate checks can match them
+} as const satisfies Record<string, readonly AdminRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export type CurrentAdmin = {
+  id: string;
+  email: string | null;
+  role: AdminRole;
+};
+
+export type AdminAccount = CurrentAdmin & {
+  invited_by: string | null;
+  created_at: string;
+  deactivated_at: string | null;
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return ADMIN_ROLES.some(r => r.role === value);
+}
+
+export function adminRoleLabel(role: string) {
+  return ADMIN_ROLES.find(r => r.role === role)?.label ?? role;
+}
+
+export function can(admin: { role: AdminRole } | null | undefined, permission: Permission) {
+  return !!admin && (PERMISSIONS[permission] as readonly AdminRole[]).includes(admin.role);
+}
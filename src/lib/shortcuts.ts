@@ -0,0 +1,92 @@
+// Labels are in the message catalogs as shortcut.<action>
+export const SHORTCUT_ACTIONS = [
+  { action: 'approve', group: 'Verification', defaultKey: 'a' },
+  { action: 'reject', group: 'Verification', defaultKey: 'r' },
+  { action: 'skip', group: 'Verification', defaultKey: 's' },
+  { action: 'escalate', group: 'Verification', defaultKey: 'e' },
+  { action: 'undo', group: 'Verification', defaultKey: 'z' },
+  { action: 'prevPhoto', group: 'Verification', defaultKey: 'ArrowLeft' },
+  { action: 'nextPhoto', group: 'Verification', defaultKey: 'ArrowRight' },
+  { action: 'openPhoto', group: 'Verification', defaultKey: 'o' },
+  { action: 'prevCard', group: 'Gender grid', defaultKey: 'ArrowLeft' },
+  { action: 'nextCard', group: 'Gender grid', defaultKey: 'ArrowRight' },
+  { action: 'cardUp', group: 'Gender grid', defaultKey: 'ArrowUp' },
+  { action: 'cardDown', group: 'Gender grid', defaultKey: 'ArrowDown' },
+  { action: 'toggleSelect', group: 'Gender grid', defaultKey: 'x' },
+  // Gender options are configurable, so these follow their display order
+  { action: 'setOption1', group: 'General', defaultKey: '1' },
+  { action: 'setOption2', group: 'General', defaultKey: '2' },
+  { action: 'setOption3', group: 'General', defaultKey: '3' },
+  { action: 'clearOption', group: 'General', defaultKey: '0' },
+  { action: 'back', group: 'General', defaultKey: 'Escape' },
+  { action: 'help', group: 'General', defaultKey: '?' },
+] as const;
+
+export type ShortcutAction = (typeof SHORTCUT_ACTIONS)[number]['action'];
+
+type ShortcutGroup = (typeof SHORTCUT_ACTIONS)[number]['group'];
+
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+const STORAGE_KEY = 'mistmatch.shortcuts';
+
+export const DEFAULT_SHORTCUTS = Object.fromEntries(
+  SHORTCUT_ACTIONS.map(s => [s.action, s.defaultKey])
+) as ShortcutBindings;
+
+// Saved bindings are merged over the defaults so newly added actions still get a key.
+export function loadShortcuts(): ShortcutBindings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return { ...DEFAULT_SHORTCUTS, ...saved };
+  } catch {
+    return DEFAULT_SHORTCUTS;
+  }
+}
+
+export function saveShortcuts(bindings: ShortcutBindings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+}
+
+// Letters are matched case-insensitively; everything else (arrows, Escape, "?") by exact key.
+function sameKey(a: string, b: string) {
+  return a.length === 1 && b.length === 1 ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+const GROUPS = Object.fromEntries(SHORTCUT_ACTIONS.map(s => [s.action, s.group])) as Record<ShortcutAction, ShortcutGroup>;
+
+// Each group has its own view; the general shortcuts work alongside all of them
+function shareView(a: ShortcutGroup, b: ShortcutGroup) {
+  return a === b || a === 'General' || b === 'General';
+}
+
+// The action that already answers to `key` wherever `action` does, if any. Two actions on one key in the
+// same view would leave one of them unreachable, so such a binding is refused.
+export function conflictingShortcut(bindings: ShortcutBindings, action: ShortcutAction, key: string) {
+  return SHORTCUT_ACTIONS.find(s =>
+    s.action !== action && shareView(GROUPS[action], s.group) && sameKey(bindings[s.action], key)
+  )?.action ?? null;
+}
+
+export function shortcutFor(bindings: ShortcutBindings, event: KeyboardEvent, actions: readonly ShortcutAction[]) {
+  if (event.ctrlKey || event.metaKey || event.altKey) return null;
+  return actions.find(action => sameKey(bindings[action], event.key)) ?? null;
+}
+
+// Typing in a form field should never trigger a shortcut.
+export function isTypingTarget(target: EventTarget | null) {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+export function keyLabel(key: string) {
+  const labels: Record<string, string> = {
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    Escape: 'Esc',
+    ' ': 'Space',
+  };
+  return labels[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+}
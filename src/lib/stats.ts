@@ -0,0 +1,17 @@
+export const STATS_BUCKETS = ['day', 'week'] as const;
+
+export type StatsBucket = (typeof STATS_BUCKETS)[number];
+
+export type ModerationStats = {
+  decisions: { bucket: string; approved: number; rejected: number; undone: number }[];
+  backlog: { bucket: string; pending: number }[];
+  rejectionReasons: { reason: string; count: number }[];
+  timeToDecision: { averageHours: number | null; medianHours: number | null };
+  moderators: { adminId: string; email: string | null; approved: number; rejected: number }[];
+  verifiedByGender: { gender: string; count: number }[];
+  verifiedByCountry: { country: string; count: number }[];
+};
+
+export function isStatsBucket(value: unknown): value is StatsBucket {
+  return STATS_BUCKETS.includes(value as StatsBucket);
+}
@@ -0,0 +1,8 @@
+import { createClient } from '@supabase/supabase-js';
+
+// Service-role client: bypasses RLS, so only use it after the caller has been checked with requireAdmin.
+export const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { persistSession: false, autoRefreshToken: false } }
+);
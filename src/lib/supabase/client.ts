@@ -0,0 +1,7 @@
+import { createBrowserClient } from '@supabase/ssr';
+
+// Keeps the session in cookies so the proxy and route handlers can see who is signed in.
+export const supabase = createBrowserClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
@@ -0,0 +1,70 @@
+// Account suspensions and bans (user_suspensions). A suspension without an end is a permanent ban.
+export type Suspension = {
+  id: string;
+  user_id: string;
+  reason: string;
+  starts_at: string;
+  ends_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  lifted_at: string | null;
+  lifted_by: string | null;
+  lift_reason: string | null;
+};
+
+export type SuspensionState = 'scheduled' | 'active' | 'expired' | 'lifted';
+
+// Lengths offered when suspending; null is a permanent ban
+export const SUSPENSION_DURATIONS = [
+  { days: 1, label: '1 day' },
+  { days: 3, label: '3 days' },
+  { days: 7, label: '1 week' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: null, label: 'Permanent ban' },
+] as const;
+
+export type SuspensionDays = (typeof SUSPENSION_DURATIONS)[number]['days'];
+
+export function suspensionState(suspension: Pick<Suspension, 'starts_at' | 'ends_at' | 'lifted_at'>, now = Date.now()): SuspensionState {
+  if (suspension.lifted_at) return 'lifted';
+  if (Date.parse(suspension.starts_at) > now) return 'scheduled';
+  if (suspension.ends_at && Date.parse(suspension.ends_at) <= now) return 'expired';
+  return 'active';
+}
+
+// Still to come or running: the suspensions that can be lifted
+export function isCurrentSuspension(suspension: Pick<Suspension, 'starts_at' | 'ends_at' | 'lifted_at'>) {
+  const state = suspensionState(suspension);
+  return state === 'active' || state === 'scheduled';
+}
+
+export function suspensionEnd(startsAt: Date, days: number | null) {
+  return days === null ? null : new Date(startsAt.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+// Validates a requested window ({ startsAt?, endsAt }) from a request body. startsAt defaults to now;
+// endsAt is an ISO date after the start, or null for a permanent ban.
+export function parseSuspensionWindow(startsAt: unknown, endsAt: unknown): { startsAt: string; endsAt: string | null } | { error: string } {
+  const start = startsAt === undefined || startsAt === null ? new Date() : new Date(String(startsAt));
+  if (Number.isNaN(start.getTime())) return { error: 'startsAt must be a date' };
+  if (endsAt === null) return { startsAt: start.toISOString(), endsAt: null };
+
+  const end = new Date(String(endsAt));
+  if (endsAt === undefined || Number.isNaN(end.getTime())) return { error: 'endsAt must be a date, or null for a permanent ban' };
+  if (end <= start || end.getTime() <= Date.now()) return { error: 'The suspension must end after it starts and in the future' };
+  return { startsAt: start.toISOString(), endsAt: end.toISOString() };
+}
+
+// What a user's suspension history amounts to, for the badges on verification and grid cards
+export type SuspensionSummary = {
+  current: Pick<Suspension, 'starts_at' | 'ends_at'> | null; // Running now
+  total: number; // Every suspension on record, including the current one
+};
+
+export function summarizeSuspensions(suspensions: Pick<Suspension, 'starts_at' | 'ends_at' | 'lifted_at'>[]): SuspensionSummary {
+  const running = suspensions.filter(s => suspensionState(s) === 'active');
+  // A ban outranks a timed suspension, and a later end outranks an earlier one
+  const current = running.sort((a, b) => (a.ends_at === null ? -1 : b.ends_at === null ? 1 : b.ends_at.localeCompare(a.ends_at)))[0];
+  return { current: current ?? null, total: suspensions.length };
+}
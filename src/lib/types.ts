@@ -0,0 +1,108 @@
+import type { AuditEntry } from './audit';
+import type { RejectionReasonCode } from './rejection-reasons';
+import type { ReportCategory, ReportResolution } from './report-categories';
+import type { Suspension } from './suspensions';
+
+export type VerificationStatus = 'verified' | 'unverified' | 'pending';
+
+export type User = {
+  id: string;
+  name: string | null;
+  age: number | null;
+  gender: string | null;
+  country: string | null;
+  image_urls: string[] | null;
+  verification_photo_url: string | null;
+  is_verified: VerificationStatus | null;
+  rejection_reason: RejectionReasonCode | null;
+  rejection_note: string | null;
+  resubmission_requested_at: string | null;
+  created_at: string;
+};
+
+export type QueueStats = {
+  totalPending: number; // Excludes escalated users
+  claimedByOthers: number; // Pending users held by other moderators' live claims
+  escalated: number;
+};
+
+export type Escalation = {
+  id: string;
+  note: string;
+  escalated_by: string;
+  created_at: string;
+};
+
+export type VerificationRejection = {
+  id: string;
+  reason: RejectionReasonCode;
+  note: string | null;
+  rejected_by: string | null;
+  created_at: string;
+};
+
+// Everything the user detail page shows, loaded in one request.
+export type UserDetail = {
+  user: User;
+  verificationPhotos: string[];
+  audit: AuditEntry[];
+  rejections: VerificationRejection[];
+  escalations: (Escalation & { resolved_at: string | null })[];
+  suspensions: Suspension[];
+};
+
+// An unreviewed profile photo in the photo moderation queue, with enough of its owner to judge it.
+export type PendingProfilePhoto = {
+  url: string;
+  addedAt: string;
+  user: Pick<User, 'id' | 'name' | 'age' | 'country'>;
+};
+
+// A report one member filed against another, and how it was resolved once it is closed.
+export type UserReport = {
+  id: string;
+  reporter: Pick<User, 'id' | 'name'> | null; // Null once the reporter's account is deleted
+  category: ReportCategory;
+  message: string | null;
+  created_at: string;
+  resolution: ReportResolution | null;
+  resolution_note: string | null;
+  resolved_at: string | null;
+};
+
+// A reported user in the reports queue, summarising their open reports.
+export type ReportGroup = {
+  user: Pick<User, 'id' | 'name' | 'age' | 'country' | 'is_verified'>;
+  reportCount: number;
+  categories: ReportCategory[];
+  firstReportedAt: string;
+  lastReportedAt: string;
+};
+
+// Everything the report review shows for one reported user; reports are newest first, open and resolved.
+export type ReportReview = {
+  user: User;
+  verificationPhotos: string[];
+  reports: UserReport[];
+  suspensions: Suspension[];
+};
+
+// A running or scheduled suspension in the suspensions list, with enough of the user to find them.
+export type SuspendedUser = Suspension & {
+  user: Pick<User, 'id' | 'name' | 'age' | 'country'>;
+};
+
+export type PhotoSource = 'profile' | 'verification';
+
+export type PhotoMatch = {
+  user: Pick<User, 'id' | 'name' | 'age' | 'country' | 'is_verified'>;
+  kind: 'identical' | 'similar';
+  distance: number; // Smallest dHash Hamming distance across the matching photos; 0 for identical files
+  sources: { theirs: PhotoSource; ours: PhotoSource }[];
+};
+
+// Other accounts that may belong to the same person, shown while verifying.
+export type DuplicateReport = {
+  photoMatches: PhotoMatch[];
+  profileMatches: Pick<User, 'id' | 'name' | 'age' | 'country' | 'is_verified'>[];
+};
@@ -0,0 +1,122 @@
+'use client';
+import { useEffect, useRef, useState } from 'react';
+import {
+  QueueOutcome,
+  QueuedAction,
+  QueuedActionKind,
+  createQueuedAction,
+  loadQueuedActions,
+  saveQueuedActions,
+  sendQueuedAction,
+} from './action-queue';
+
+// Wraps a state update so every change to the queue is also written to localStorage
+function saved(adminId: string | null, change: (prev: QueuedAction[]) => QueuedAction[]) {
+  return (prev: QueuedAction[]) => {
+    const next = change(prev);
+    if (adminId) saveQueuedActions(adminId, next);
+    return next;
+  };
+}
+
+// Sends queued moderation writes one at a time, in the order they were made, retrying transient failures.
+// The queue is saved to localStorage, so anything still pending when the page reloads is sent afterwards.
+export function useActionQueue(adminId: string | null) {
+  const [actions, setActions] = useState<QueuedAction[]>([]);
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const [wakeCount, setWakeCount] = useState(0); // Bumped when a retry delay runs out
+  const sendingId = useRef<string | null>(null);
+  const waiters = useRef(new Map<string, ((outcome: QueueOutcome) => void)[]>());
+
+  // The admin is only known after the first render; their saved queue is picked up as soon as it is
+  if (adminId !== loadedFor) {
+    setLoadedFor(adminId);
+    setActions(adminId ? loadQueuedActions(adminId) : []);
+  }
+
+  function settle(id: string, outcome: QueueOutcome) {
+    waiters.current.get(id)?.forEach(resolve => resolve(outcome));
+    waiters.current.delete(id);
+  }
+
+  function waitFor(id: string) {
+    return new Promise<QueueOutcome>(resolve => {
+      waiters.current.set(id, [...(waiters.current.get(id) ?? []), resolve]);
+    });
+  }
+
+  useEffect(() => {
+    if (sendingId.current) return;
+    const next = actions.find(a => a.state === 'pending');
+    if (!next) return;
+
+    const delay = next.nextAttemptAt - Date.now();
+    if (delay > 0) {
+      const timer = setTimeout(() => setWakeCount(prev => prev + 1), delay);
+      return () => clearTimeout(timer);
+    }
+
+    sendingId.current = next.id;
+    sendQueuedAction(next).then(result => {
+      sendingId.current = null;
+      if (!result) {
+        setActions(saved(adminId, prev => prev.filter(a => a.id !== next.id)));
+        settle(next.id, { state: 'done', error: null });
+        return;
+      }
+      setActions(saved(adminId, prev => prev.map(a => (a.id === next.id ? result : a))));
+      if (result.state !== 'pending') settle(next.id, { state: result.state, error: result.error });
+    });
+  }, [actions, adminId, wakeCount]);
+
+  // Coming back online retries straight away instead of waiting out the backoff
+  useEffect(() => {
+    function onOnline() {
+      setActions(saved(adminId, prev => prev.map(a => (a.state === 'pending' ? { ...a, nextAttemptAt: 0 } : a))));
+    }
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, [adminId]);
+
+  // Queues a write; `outcome` resolves with how it ended
+  function enqueue(kind: QueuedActionKind, user: { id: string; name: string | null }, body: Record<string, unknown>) {
+    const action = createQueuedAction(kind, user, body);
+    const outcome = waitFor(action.id);
+    setActions(saved(adminId, prev => [...prev, action]));
+    return { id: action.id, outcome };
+  }
+
+  // Drops an action that hasn't been sent yet (or never landed); false if it is on its way or already done
+  function cancel(id: string) {
+    if (id === sendingId.current || !actions.some(a => a.id === id)) return false;
+    setActions(saved(adminId, prev => prev.filter(a => a.id !== id)));
+    settle(id, { state: 'cancelled', error: null });
+    return true;
+  }
+
+  // Resolves with the outcome of an action, straight away if it has already finished
+  function outcomeOf(id: string): Promise<QueueOutcome> {
+    const action = actions.find(a => a.id === id);
+    if (!action) return Promise.resolve({ state: 'done', error: null });
+    if (action.state !== 'pending') return Promise.resolve({ state: action.state, error: action.error });
+    return waitFor(id);
+  }
+
+  function retry(id: string) {
+    setActions(saved(adminId, prev => prev.map(a => (a.id === id ? { ...a, state: 'pending', attempts: 0, nextAttemptAt: 0 } : a))));
+  }
+
+  function dismiss(id: string) {
+    setActions(saved(adminId, prev => prev.filter(a => a.id !== id)));
+  }
+
+  return {
+    pendingCount: actions.filter(a => a.state === 'pending').length,
+    problems: actions.filter(a => a.state !== 'pending'),
+    enqueue,
+    cancel,
+    outcomeOf,
+    retry,
+    dismiss,
+  };
+}
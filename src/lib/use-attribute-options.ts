@@ -0,0 +1,19 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { AttributeName, AttributeOption, fetchAttributeOptions } from './attribute-options';
+import { supabase } from './supabase/client';
+
+// Options for one attribute, archived ones included, sorted for display. Empty while loading.
+export function useAttributeOptions(attribute: AttributeName) {
+  const [options, setOptions] = useState<AttributeOption[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAttributeOptions(supabase, attribute).then(loaded => {
+      if (!cancelled) setOptions(loaded);
+    });
+    return () => { cancelled = true; };
+  }, [attribute]);
+
+  return options;
+}
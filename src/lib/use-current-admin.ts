@@ -0,0 +1,15 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { moderationRequest } from './moderation-api';
+import type { CurrentAdmin } from './roles';
+
+// The signed-in admin's role, or null while loading. Only for hiding controls; the API enforces permissions itself.
+export function useCurrentAdmin() {
+  const [admin, setAdmin] = useState<CurrentAdmin | null>(null);
+
+  useEffect(() => {
+    moderationRequest<CurrentAdmin>('me', undefined, 'GET').then(({ data }) => setAdmin(data));
+  }, []);
+
+  return admin;
+}
@@ -0,0 +1,59 @@
+'use client';
+import { createContext, useContext, useEffect, useState } from 'react';
+import {
+  DEFAULT_LOCALE,
+  Locale,
+  MessageKey,
+  MessageParams,
+  countryFlag,
+  countryName,
+  formatDateTime,
+  formatRelativeTime,
+  storeLocale,
+  translate,
+} from './i18n';
+
+const NOW_REFRESH_INTERVAL = 60000; // Relative times only show minutes, so once a minute is enough
+
+type I18nContextValue = {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  now: number;
+};
+
+const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+  now: 0,
+});
+
+export function I18nProvider({ initialLocale, children }: { initialLocale: Locale; children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState(initialLocale);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), NOW_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  function setLocale(next: Locale) {
+    storeLocale(next);
+    document.documentElement.lang = next;
+    setLocaleState(next);
+  }
+
+  return <I18nContext.Provider value={{ locale, setLocale, now }}>{children}</I18nContext.Provider>;
+}
+
+// Translation and locale-aware formatting for the admin's chosen language
+export function useI18n() {
+  const { locale, setLocale, now } = useContext(I18nContext);
+  return {
+    locale,
+    setLocale,
+    t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    formatDateTime: (iso: string) => formatDateTime(locale, iso),
+    formatRelative: (iso: string) => formatRelativeTime(locale, iso, now),
+    country: (code: string) => `${countryFlag(code)} ${countryName(locale, code)}`.trim(),
+  };
+}
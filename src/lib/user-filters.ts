@@ -0,0 +1,103 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { VerificationStatus } from './types';
+
+export type UserFilters = {
+  gender: string; // 'all', 'unknown' (no value set) or an attribute option value
+  status: 'all' | VerificationStatus;
+  sort: 'desc' | 'asc';
+  country: string;
+  minAge: string;
+  maxAge: string;
+  from: string; // Signup date range, yyyy-mm-dd
+  to: string;
+  q: string; // Name fragment or exact user id
+  page: number;
+};
+
+export const DEFAULT_USER_FILTERS: UserFilters = {
+  gender: 'all',
+  status: 'all',
+  sort: 'desc',
+  country: '',
+  minAge: '',
+  maxAge: '',
+  from: '',
+  to: '',
+  q: '',
+  page: 1,
+};
+
+const STATUS_FILTERS = ['all', 'pending', 'verified', 'unverified'] as const;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function oneOf<T extends string>(options: readonly T[], value: string | null, fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback;
+}
+
+export function parseUserFilters(params: URLSearchParams): UserFilters {
+  const page = Number(params.get('page'));
+  return {
+    gender: params.get('gender') || 'all',
+    status: oneOf(STATUS_FILTERS, params.get('status'), 'all'),
+    sort: oneOf(['desc', 'asc'] as const, params.get('sort'), 'desc'),
+    country: params.get('country') ?? '',
+    minAge: params.get('minAge') ?? '',
+    maxAge: params.get('maxAge') ?? '',
+    from: params.get('from') ?? '',
+    to: params.get('to') ?? '',
+    q: params.get('q') ?? '',
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
+}
+
+// Only non-default values go into the URL so shared links stay short.
+export function userFiltersToParams(filters: UserFilters, params = new URLSearchParams()) {
+  (Object.keys(DEFAULT_USER_FILTERS) as (keyof UserFilters)[]).forEach(key => {
+    const value = String(filters[key]).trim();
+    if (value && value !== String(DEFAULT_USER_FILTERS[key])) params.set(key, value);
+    else params.delete(key);
+  });
+  return params;
+}
+
+type UsersQuery = ReturnType<ReturnType<SupabaseClient['from']>['select']>;
+
+// Escapes a value for PostgREST's or() syntax, where commas and parentheses are separators.
+function quoteFilterValue(value: string) {
+  return `"${value.replace(/["\\]/g, '')}"`;
+}
+
+// Escapes LIKE wildcards so the value only matches itself.
+function escapeLikePattern(value: string) {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+export function applyUserFilters(query: UsersQuery, filters: UserFilters): UsersQuery {
+  if (filters.gender === 'unknown') query = query.is('gender', null);
+  else if (filters.gender !== 'all') query = query.eq('gender', filters.gender);
+
+  if (filters.status !== 'all') query = query.eq('is_verified', filters.status);
+  // Any case, but otherwise the exact country
+  if (filters.country.trim()) query = query.ilike('country', escapeLikePattern(filters.country.trim()));
+
+  const minAge = parseInt(filters.minAge, 10);
+  const maxAge = parseInt(filters.maxAge, 10);
+  if (!Number.isNaN(minAge)) query = query.gte('age', minAge);
+  if (!Number.isNaN(maxAge)) query = query.lte('age', maxAge);
+
+  if (filters.from) query = query.gte('created_at', new Date(filters.from).toISOString());
+  // The "to" date is inclusive, so compare against the start of the following day
+  if (filters.to) {
+    const end = new Date(filters.to);
+    end.setDate(end.getDate() + 1);
+    query = query.lt('created_at', end.toISOString());
+  }
+
+  const q = filters.q.trim();
+  if (q) {
+    const nameMatch = `name.ilike.${quoteFilterValue(`%${q}%`)}`;
+    query = UUID_PATTERN.test(q) ? query.or(`id.eq.${q},${nameMatch}`) : query.or(nameMatch);
+  }
+
+  return query;
+}
@@ -0,0 +1,5 @@
+// Verification photos sit in a private bucket, so the signed links to them only last a few minutes.
+export const SIGNED_URL_TTL_SECONDS = 5 * 60;
+
+// Screens that stay open re-sign their verification photos this often, a minute before the links lapse
+export const VERIFICATION_PHOTO_REFRESH_MS = (SIGNED_URL_TTL_SECONDS - 60) * 1000;
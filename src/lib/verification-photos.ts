@@ -0,0 +1,55 @@
+import { supabaseAdmin } from './supabase/admin';
+import { SIGNED_URL_TTL_SECONDS } from './verification-photo-links';
+
+const BUCKET = 'verificationphotos';
+const PHOTO_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp', 'heic', 'heif'];
+
+function isPhoto(name: string) {
+  const extension = name.split('.').pop()?.toLowerCase();
+  return !!extension && PHOTO_EXTENSIONS.includes(extension);
+}
+
+// Storage paths of one user's verification photos, oldest file name first.
+export async function listVerificationPhotoPaths(userId: string): Promise<string[]> {
+  const { data: files, error } = await supabaseAdmin.storage
+    .from(BUCKET)
+    .list(userId, { limit: 100, sortBy: { column: 'name', order: 'asc' } });
+  if (error) {
+    console.error(`Error listing verification photos for ${userId}:`, error);
+    return [];
+  }
+  return (files || []).filter(f => isPhoto(f.name)).map(f => `${userId}/${f.name}`);
+}
+
+export async function downloadVerificationPhoto(path: string): Promise<Buffer | null> {
+  const { data, error } = await supabaseAdmin.storage.from(BUCKET).download(path);
+  if (error || !data) {
+    console.error(`Error downloading verification photo ${path}:`, error);
+    return null;
+  }
+  return Buffer.from(await data.arrayBuffer());
+}
+
+// Lists one user's verification folder and returns short-lived signed URLs, oldest file name first.
+export async function signVerificationPhotos(userId: string): Promise<string[]> {
+  const paths = await listVerificationPhotoPaths(userId);
+  if (paths.length === 0) return [];
+
+  const { data: signed, error: signError } = await supabaseAdmin.storage
+    .from(BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+  if (signError) {
+    console.error(`Error signing verification photos for ${userId}:`, signError);
+    return [];
+  }
+  return (signed || []).flatMap(s => (s.signedUrl ? [s.signedUrl] : []));
+}
+
+export async function countVerificationPhotos(userIds: string[]): Promise<Record<string, number>> {
+  const { data, error } = await supabaseAdmin.rpc('verification_photo_counts', { p_user_ids: userIds });
+  if (error) {
+    console.error('Error counting verification photos:', error);
+    return {};
+  }
+  return Object.fromEntries(((data || []) as { user_id: string; photo_count: number }[]).map(r => [r.user_id, Number(r.photo_count)]));
+}
@@ -0,0 +1,51 @@
+import { createServerClient } from '@supabase/ssr';
+import { NextResponse, type NextRequest } from 'next/server';
+
+export async function proxy(request: NextRequest) {
+  let response = NextResponse.next({ request });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll();
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+          response = NextResponse.next({ request });
+          cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options));
+        },
+      },
+    }
+  );
+
+  const isApi = request.nextUrl.pathname.startsWith('/api/');
+
+  // Carry any refreshed session cookies over to the redirect/error response
+  const deny = (status: 401 | 403, path: string, error: string) => {
+    const denied = isApi
+      ? NextResponse.json({ error }, { status })
+      : NextResponse.redirect(new URL(path, request.url));
+    response.cookies.getAll().forEach(cookie => denied.cookies.set(cookie));
+    return denied;
+  };
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return deny(401, '/login', 'Not signed in');
+
+  const { data: admin } = await supabase
+    .from('admins')
+    .select('id')
+    .eq('id', user.id)
+    .is('deactivated_at', null)
+    .maybeSingle();
+  if (!admin) return deny(403, '/not-authorised', 'Not an admin');
+
+  return response;
+}
+
+export const config = {
+  matcher: ['/dashboard/:path*', '/api/moderation/:path*'],
+};
@@ -0,0 +1,39 @@
+-- Structured rejection reasons for verification decisions.
+-- The latest reason lives on the user row so the app can tell the user what to fix;
+-- every rejection is also kept in verification_rejections for reporting.
+
+alter table public.users
+  add column if not exists rejection_reason text,
+  add column if not exists rejection_note text,
+  add column if not exists rejected_at timestamptz;
+
+create table if not exists public.verification_rejections (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  reason text not null check (
+    reason in ('face_not_visible', 'profile_mismatch', 'wrong_pose', 'suspected_fake', 'underage', 'other')
+  ),
+  note text,
+  rejected_by uuid references auth.users (id),
+  created_at timestamptz not null default now(),
+  constraint verification_rejections_other_needs_note check (reason <> 'other' or coalesce(trim(note), '') <> '')
+);
+
+create index if not exists verification_rejections_user_id_idx
+  on public.verification_rejections (user_id, created_at desc);
+create index if not exists verification_rejections_reason_idx
+  on public.verification_rejections (reason, created_at desc);
+
+alter table public.verification_rejections enable row level security;
+
+create policy "Users read their own rejections"
+  on public.verification_rejections for select
+  using (auth.uid() = user_id);
+
+create policy "Admins read rejections"
+  on public.verification_rejections for select
+  using (exists (select 1 from public.admins a where a.id = auth.uid()));
+
+create policy "Admins record rejections"
+  on public.verification_rejections for insert
+  with check (exists (select 1 from public.admins a where a.id = auth.uid()));
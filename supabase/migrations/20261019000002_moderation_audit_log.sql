@@ -0,0 +1,38 @@
+-- Append-only record of every moderation action, used for dispute handling.
+
+create table if not exists public.moderation_audit_log (
+  id bigint generated always as identity primary key,
+  admin_id uuid not null references auth.users (id),
+  admin_email text,
+  target_user_id uuid not null,
+  action text not null,
+  old_value text,
+  new_value text,
+  reason text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists moderation_audit_log_created_at_idx on public.moderation_audit_log (created_at desc);
+create index if not exists moderation_audit_log_admin_idx on public.moderation_audit_log (admin_id, created_at desc);
+create index if not exists moderation_audit_log_target_idx on public.moderation_audit_log (target_user_id, created_at desc);
+create index if not exists moderation_audit_log_action_idx on public.moderation_audit_log (action, created_at desc);
+
+alter table public.moderation_audit_log enable row level security;
+
+create policy "Admins read the audit log"
+  on public.moderation_audit_log for select
+  using (exists (select 1 from public.admins a where a.id = auth.uid()));
+
+-- Entries are written by the moderation API with the service role and never changed afterwards.
+create or replace function public.prevent_audit_log_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'moderation_audit_log is append-only';
+end;
+$$;
+
+create trigger moderation_audit_log_append_only
+  before update or delete on public.moderation_audit_log
+  for each row execute function public.prevent_audit_log_changes();
@@ -0,0 +1,72 @@
+-- Leases on pending users so parallel moderators never review the same person.
+-- A claim expires on its own when a moderator walks away; the dashboard renews its claims while verifying.
+
+create table if not exists public.verification_claims (
+  user_id uuid primary key references public.users (id) on delete cascade,
+  admin_id uuid not null references auth.users (id),
+  claimed_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists verification_claims_admin_idx on public.verification_claims (admin_id);
+create index if not exists verification_claims_expires_idx on public.verification_claims (expires_at);
+
+alter table public.verification_claims enable row level security;
+
+create policy "Admins read claims"
+  on public.verification_claims for select
+  using (exists (select 1 from public.admins a where a.id = auth.uid()));
+
+-- Renews the admin's claims and tops them up to p_batch_size with unclaimed pending users.
+-- Returns every pending user the admin now holds.
+create or replace function public.claim_verification_batch(
+  p_admin_id uuid,
+  p_batch_size int,
+  p_lease_minutes int default 15
+)
+returns setof public.users
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_held int;
+begin
+  delete from verification_claims where expires_at <= now();
+
+  -- Users decided elsewhere no longer need to be held
+  delete from verification_claims c
+  using users u
+  where c.user_id = u.id
+    and c.admin_id = p_admin_id
+    and u.is_verified is distinct from 'pending';
+
+  update verification_claims
+  set expires_at = now() + make_interval(mins => p_lease_minutes)
+  where admin_id = p_admin_id;
+
+  select count(*) into v_held from verification_claims where admin_id = p_admin_id;
+
+  if v_held < p_batch_size then
+    insert into verification_claims (user_id, admin_id, expires_at)
+    select u.id, p_admin_id, now() + make_interval(mins => p_lease_minutes)
+    from users u
+    where u.is_verified = 'pending'
+      and not exists (select 1 from verification_claims c where c.user_id = u.id)
+    order by u.created_at desc
+    limit p_batch_size - v_held
+    on conflict (user_id) do nothing;
+  end if;
+
+  return query
+    select u.*
+    from users u
+    join verification_claims c on c.user_id = u.id
+    where c.admin_id = p_admin_id
+      and u.is_verified = 'pending'
+    order by u.created_at desc;
+end;
+$$;
+
+-- Only the moderation API (service role) may claim on behalf of an admin
+revoke execute on function public.claim_verification_batch(uuid, int, int) from public, anon, authenticated;
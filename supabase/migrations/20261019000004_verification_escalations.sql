@@ -0,0 +1,96 @@
+-- Pending users set aside for senior review. An open escalation (resolved_at is null)
+-- takes the user out of the normal claim queue until someone decides on them.
+
+create table if not exists public.verification_escalations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  note text not null check (trim(note) <> ''),
+  escalated_by uuid not null references auth.users (id),
+  created_at timestamptz not null default now(),
+  resolved_by uuid references auth.users (id),
+  resolved_at timestamptz
+);
+
+create unique index if not exists verification_escalations_open_idx
+  on public.verification_escalations (user_id)
+  where resolved_at is null;
+
+alter table public.verification_escalations enable row level security;
+
+create policy "Admins read escalations"
+  on public.verification_escalations for select
+  using (exists (select 1 from public.admins a where a.id = auth.uid()));
+
+create or replace function public.claim_verification_batch(
+  p_admin_id uuid,
+  p_batch_size int,
+  p_lease_minutes int default 15
+)
+returns setof public.users
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_held int;
+begin
+  delete from verification_claims where expires_at <= now();
+
+  -- Users decided or escalated elsewhere no longer need to be held
+  delete from verification_claims c
+  using users u
+  where c.user_id = u.id
+    and c.admin_id = p_admin_id
+    and (
+      u.is_verified is distinct from 'pending'
+      or exists (select 1 from verification_escalations e where e.user_id = u.id and e.resolved_at is null)
+    );
+
+  update verification_claims
+  set expires_at = now() + make_interval(mins => p_lease_minutes)
+  where admin_id = p_admin_id;
+
+  select count(*) into v_held from verification_claims where admin_id = p_admin_id;
+
+  if v_held < p_batch_size then
+    insert into verification_claims (user_id, admin_id, expires_at)
+    select u.id, p_admin_id, now() + make_interval(mins => p_lease_minutes)
+    from users u
+    where u.is_verified = 'pending'
+      and not exists (select 1 from verification_claims c where c.user_id = u.id)
+      and not exists (select 1 from verification_escalations e where e.user_id = u.id and e.resolved_at is null)
+    order by u.created_at desc
+    limit p_batch_size - v_held
+    on conflict (user_id) do nothing;
+  end if;
+
+  return query
+    select u.*
+    from users u
+    join verification_claims c on c.user_id = u.id
+    where c.admin_id = p_admin_id
+      and u.is_verified = 'pending'
+    order by u.created_at desc;
+end;
+$$;
+
+-- Dashboard counts: the normal pending queue excludes escalated users, which are counted separately.
+create or replace function public.verification_queue_stats(p_admin_id uuid)
+returns table (total_pending bigint, claimed_by_others bigint, escalated bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    (select count(*) from users u
+      where u.is_verified = 'pending'
+        and not exists (select 1 from verification_escalations e where e.user_id = u.id and e.resolved_at is null)),
+    (select count(*) from verification_claims c
+      where c.admin_id <> p_admin_id and c.expires_at > now()),
+    (select count(*) from verification_escalations e
+      join users u on u.id = e.user_id
+      where e.resolved_at is null and u.is_verified = 'pending');
+$$;
+
+revoke execute on function public.verification_queue_stats(uuid) from public, anon, authenticated;
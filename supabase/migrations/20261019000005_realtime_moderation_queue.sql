@@ -0,0 +1,6 @@
+-- Stream changes to the tables behind the dashboard queue and counts.
+-- Admins only receive rows their select policies allow.
+
+alter publication supabase_realtime add table public.users;
+alter publication supabase_realtime add table public.verification_claims;
+alter publication supabase_realtime add table public.verification_escalations;
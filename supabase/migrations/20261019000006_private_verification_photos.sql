@@ -0,0 +1,6 @@
+-- Verification selfies are only served through signed URLs issued by the moderation API,
+-- so the bucket no longer needs to be public.
+
+update storage.buckets
+set public = false
+where id = 'verificationphotos';
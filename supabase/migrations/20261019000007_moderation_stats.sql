@@ -0,0 +1,126 @@
+-- Aggregates for the statistics page, computed in one round trip from the audit log,
+-- rejection history and users table. Buckets are UTC days or ISO weeks.
+
+create index if not exists moderation_audit_log_decisions_idx
+  on public.moderation_audit_log (target_user_id, created_at desc)
+  where action in ('approve', 'reject', 'undo');
+
+create or replace function public.moderation_stats(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_bucket text default 'day'
+)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with buckets as (
+    select b as bucket_start, least(b + ('1 ' || p_bucket)::interval, p_to) as bucket_end
+    from generate_series(
+      date_trunc(p_bucket, p_from),
+      date_trunc(p_bucket, p_to - interval '1 microsecond'),
+      ('1 ' || p_bucket)::interval
+    ) b
+  ),
+  entries as (
+    select l.admin_id, l.admin_email, l.action, l.created_at, u.created_at as submitted_at
+    from moderation_audit_log l
+    left join users u on u.id = l.target_user_id
+    where l.action in ('approve', 'reject', 'undo')
+      and l.created_at >= p_from
+      and l.created_at < p_to
+  ),
+  decisions as (
+    select * from entries where action in ('approve', 'reject')
+  )
+  select jsonb_build_object(
+    'decisions', (
+      select coalesce(jsonb_agg(row_to_json(d) order by d.bucket), '[]'::jsonb)
+      from (
+        select b.bucket_start as bucket,
+          count(*) filter (where e.action = 'approve') as approved,
+          count(*) filter (where e.action = 'reject') as rejected,
+          count(*) filter (where e.action = 'undo') as undone
+        from buckets b
+        left join entries e on date_trunc(p_bucket, e.created_at) = b.bucket_start
+        group by b.bucket_start
+      ) d
+    ),
+    -- Pending users at the end of each bucket, replayed from each user's latest decision or undo
+    -- before that point. Users decided before the audit log existed have no history and are left out.
+    'backlog', (
+      select coalesce(jsonb_agg(jsonb_build_object('bucket', b.bucket_start, 'pending', (
+        select count(*)
+        from users u
+        where u.created_at < b.bucket_end
+          and coalesce(
+            (select l.action from moderation_audit_log l
+              where l.target_user_id = u.id
+                and l.action in ('approve', 'reject', 'undo')
+                and l.created_at < b.bucket_end
+              order by l.created_at desc
+              limit 1),
+            case
+              when u.is_verified = 'pending'
+                or exists (select 1 from moderation_audit_log l
+                  where l.target_user_id = u.id and l.action in ('approve', 'reject'))
+              then 'undo'
+            end
+          ) = 'undo'
+      )) order by b.bucket_start), '[]'::jsonb)
+      from buckets b
+    ),
+    'rejectionReasons', (
+      select coalesce(jsonb_agg(jsonb_build_object('reason', r.reason, 'count', r.count) order by r.count desc), '[]'::jsonb)
+      from (
+        select reason, count(*) as count
+        from verification_rejections
+        where created_at >= p_from and created_at < p_to
+        group by reason
+      ) r
+    ),
+    'timeToDecision', (
+      select jsonb_build_object(
+        'averageHours', extract(epoch from avg(created_at - submitted_at)) / 3600,
+        'medianHours', percentile_cont(0.5) within group (order by extract(epoch from created_at - submitted_at)) / 3600
+      )
+      from decisions
+      where submitted_at is not null
+    ),
+    'moderators', (
+      select coalesce(jsonb_agg(row_to_json(m) order by m.approved + m.rejected desc), '[]'::jsonb)
+      from (
+        select admin_id as "adminId",
+          max(admin_email) as email,
+          count(*) filter (where action = 'approve') as approved,
+          count(*) filter (where action = 'reject') as rejected
+        from decisions
+        group by admin_id
+      ) m
+    ),
+    'verifiedByGender', (
+      select coalesce(jsonb_agg(jsonb_build_object('gender', g.gender, 'count', g.count) order by g.count desc), '[]'::jsonb)
+      from (
+        select coalesce(gender, 'Unknown') as gender, count(*) as count
+        from users
+        where is_verified = 'verified' and created_at >= p_from and created_at < p_to
+        group by 1
+      ) g
+    ),
+    'verifiedByCountry', (
+      select coalesce(jsonb_agg(jsonb_build_object('country', c.country, 'count', c.count) order by c.count desc), '[]'::jsonb)
+      from (
+        select coalesce(nullif(trim(country), ''), 'Unknown') as country, count(*) as count
+        from users
+        where is_verified = 'verified' and created_at >= p_from and created_at < p_to
+        group by 1
+        order by count(*) desc
+        limit 20
+      ) c
+    )
+  );
+$$;
+
+revoke execute on function public.moderation_stats(timestamptz, timestamptz, text) from public, anon, authenticated;
@@ -0,0 +1,19 @@
+-- Verification photo counts per user for exports, counted straight from storage
+-- instead of listing every user's folder through the storage API.
+
+create or replace function public.verification_photo_counts(p_user_ids uuid[])
+returns table (user_id text, photo_count bigint)
+language sql
+stable
+security definer
+set search_path = public, storage
+as $$
+  select (storage.foldername(o.name))[1], count(*)
+  from storage.objects o
+  where o.bucket_id = 'verificationphotos'
+    and (storage.foldername(o.name))[1] = any (p_user_ids::text[])
+    and lower(o.name) ~ '\.(jpe?g|png|webp|heic|heif)$'
+  group by 1;
+$$;
+
+revoke execute on function public.verification_photo_counts(uuid[]) from public, anon, authenticated;
@@ -0,0 +1,5 @@
+-- Set when a moderator resets a user's verification and wants fresh selfies.
+-- The app prompts the user to resubmit while this is set and clears it on upload.
+
+alter table public.users
+  add column if not exists resubmission_requested_at timestamptz;
@@ -0,0 +1,52 @@
+-- Admin roles and deactivation. The role gates what an admin may do in the moderation API;
+-- a deactivated admin keeps their row (and audit history) but loses all access.
+-- Existing admins had full access before roles existed, so they start as owners.
+
+alter table public.admins
+  add column if not exists email text,
+  add column if not exists role text not null default 'moderator'
+    check (role in ('viewer', 'moderator', 'senior_moderator', 'owner')),
+  add column if not exists invited_by uuid references auth.users (id),
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists deactivated_at timestamptz;
+
+update public.admins a
+set role = 'owner', email = coalesce(a.email, u.email)
+from auth.users u
+where u.id = a.id;
+
+create or replace function public.is_active_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from admins a where a.id = auth.uid() and a.deactivated_at is null);
+$$;
+
+-- Deactivated admins should not keep read access through the client either
+drop policy if exists "Admins read rejections" on public.verification_rejections;
+create policy "Admins read rejections"
+  on public.verification_rejections for select
+  using (public.is_active_admin());
+
+drop policy if exists "Admins record rejections" on public.verification_rejections;
+create policy "Admins record rejections"
+  on public.verification_rejections for insert
+  with check (public.is_active_admin());
+
+drop policy if exists "Admins read the audit log" on public.moderation_audit_log;
+create policy "Admins read the audit log"
+  on public.moderation_audit_log for select
+  using (public.is_active_admin());
+
+drop policy if exists "Admins read claims" on public.verification_claims;
+create policy "Admins read claims"
+  on public.verification_claims for select
+  using (public.is_active_admin());
+
+drop policy if exists "Admins read escalations" on public.verification_escalations;
+create policy "Admins read escalations"
+  on public.verification_escalations for select
+  using (public.is_active_admin());
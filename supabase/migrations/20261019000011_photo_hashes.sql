@@ -0,0 +1,59 @@
+-- Fingerprints of every profile and verification photo, computed by the moderation API the first
+-- time a user's photos are reviewed. sha256 finds byte-identical copies; the 64-bit difference hash
+-- (dHash) finds resized or recompressed ones.
+--
+-- The dHash is split into four 16-bit bands. Two hashes within Hamming distance 3 must share at
+-- least one band exactly, so near-duplicate lookups only compare rows matching an indexed band.
+
+create table if not exists public.photo_hashes (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references public.users (id) on delete cascade,
+  source text not null check (source in ('profile', 'verification')),
+  photo_key text not null, -- Profile photo URL or verification storage path
+  sha256 text not null,
+  dhash bigint not null,
+  band_1 int generated always as (((dhash >> 48) & 65535)::int) stored,
+  band_2 int generated always as (((dhash >> 32) & 65535)::int) stored,
+  band_3 int generated always as (((dhash >> 16) & 65535)::int) stored,
+  band_4 int generated always as ((dhash & 65535)::int) stored,
+  created_at timestamptz not null default now(),
+  unique (user_id, photo_key)
+);
+
+create index if not exists photo_hashes_sha256_idx on public.photo_hashes (sha256);
+create index if not exists photo_hashes_band_1_idx on public.photo_hashes (band_1);
+create index if not exists photo_hashes_band_2_idx on public.photo_hashes (band_2);
+create index if not exists photo_hashes_band_3_idx on public.photo_hashes (band_3);
+create index if not exists photo_hashes_band_4_idx on public.photo_hashes (band_4);
+
+alter table public.photo_hashes enable row level security;
+
+create policy "Admins read photo hashes"
+  on public.photo_hashes for select
+  using (public.is_active_admin());
+
+-- Photos on other accounts that are identical or nearly identical to one of this user's photos.
+create or replace function public.find_photo_matches(p_user_id uuid, p_max_distance int default 3)
+returns table (user_id uuid, source text, matched_source text, identical boolean, distance int)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select distinct on (o.user_id, o.source, m.source)
+    o.user_id,
+    o.source,
+    m.source,
+    o.sha256 = m.sha256,
+    bit_count((m.dhash # o.dhash)::bit(64))::int
+  from photo_hashes m
+  join photo_hashes o
+    on o.user_id <> m.user_id
+    and (o.sha256 = m.sha256
+      or o.band_1 = m.band_1 or o.band_2 = m.band_2 or o.band_3 = m.band_3 or o.band_4 = m.band_4)
+  where m.user_id = p_user_id
+    and (o.sha256 = m.sha256 or bit_count((m.dhash # o.dhash)::bit(64)) <= least(p_max_distance, 3))
+  order by o.user_id, o.source, m.source, o.sha256 = m.sha256 desc, 5;
+$$;
+
+revoke execute on function public.find_photo_matches(uuid, int) from public, anon, authenticated;
@@ -0,0 +1,2 @@
+-- Each admin's UI language, copied into the locale cookie when they sign in. Null means "use the browser's".
+alter table public.admins add column if not exists locale text;
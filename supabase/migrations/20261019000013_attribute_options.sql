@@ -0,0 +1,32 @@
+-- Selectable values for reviewable profile attributes (currently users.gender), managed from the admin UI.
+-- `value` is what is stored on the user; `label` and `color` are presentation only. Archived options stay
+-- readable so users who still have them are labelled, but they can no longer be assigned.
+
+create table if not exists public.attribute_options (
+  attribute text not null,
+  value text not null check (value <> '' and value not in ('all', 'unknown')), -- Reserved by the grid filter
+  label text not null,
+  color text not null default 'gray',
+  sort_order int not null default 0,
+  archived_at timestamptz,
+  created_at timestamptz not null default now(),
+  primary key (attribute, value)
+);
+
+insert into public.attribute_options (attribute, value, label, color, sort_order) values
+  ('gender', 'Male', 'Male', 'blue', 1),
+  ('gender', 'Female', 'Female', 'pink', 2)
+on conflict do nothing;
+
+-- Whatever else is already stored becomes an option too, so no existing value is left unlabelled
+insert into public.attribute_options (attribute, value, label, sort_order)
+select distinct 'gender', gender, gender, 100
+from public.users
+where gender is not null and gender not in ('', 'all', 'unknown')
+on conflict do nothing;
+
+alter table public.attribute_options enable row level security;
+
+create policy "Admins read attribute options"
+  on public.attribute_options for select
+  using (public.is_active_admin());
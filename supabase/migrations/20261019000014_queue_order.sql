@@ -0,0 +1,130 @@
+-- How each admin's verification queue is ordered, plus shared priority rules that move matching users up
+-- (or, with a negative weight, down) whatever the strategy. Defaults to oldest first so nobody starves.
+
+alter table public.admins
+  add column if not exists queue_strategy text not null default 'oldest_first'
+    check (queue_strategy in ('oldest_first', 'newest_first', 'resubmissions_first', 'countries_first', 'most_photos')),
+  add column if not exists queue_countries text[] not null default '{}'; -- For countries_first
+
+create table if not exists public.queue_priority_rules (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('country', 'resubmission', 'min_photos', 'waiting_days')),
+  value text, -- Country code for country, a whole number for min_photos and waiting_days, null for resubmission
+  weight int not null check (weight between -100 and 100 and weight <> 0),
+  active boolean not null default true,
+  created_by uuid references auth.users (id),
+  created_at timestamptz not null default now()
+);
+
+alter table public.queue_priority_rules enable row level security;
+
+create policy "Admins read priority rules"
+  on public.queue_priority_rules for select
+  using (public.is_active_admin());
+
+-- Every claimable pending user with its rule priority and position in the given admin's queue.
+-- A resubmission is a pending user who has been rejected before.
+create or replace function public.ranked_pending_users(p_admin_id uuid)
+returns table (user_id uuid, priority bigint, queue_position bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with prefs as (
+    select coalesce(a.queue_strategy, 'oldest_first') as strategy, coalesce(a.queue_countries, '{}') as countries
+    from (select 1) as one
+    left join admins a on a.id = p_admin_id
+  ),
+  candidates as (
+    select
+      u.id,
+      u.created_at,
+      u.country,
+      coalesce(cardinality(u.image_urls), 0) as photo_count,
+      exists (select 1 from verification_rejections r where r.user_id = u.id) as is_resubmission
+    from users u
+    where u.is_verified = 'pending'
+      and not exists (select 1 from verification_escalations e where e.user_id = u.id and e.resolved_at is null)
+  ),
+  scored as (
+    select c.*, coalesce((
+      select sum(r.weight)
+      from queue_priority_rules r
+      where r.active
+        and case r.kind
+          when 'country' then c.country = r.value
+          when 'resubmission' then c.is_resubmission
+          when 'min_photos' then c.photo_count >= r.value::int
+          when 'waiting_days' then c.created_at <= now() - make_interval(days => r.value::int)
+        end
+    ), 0) as priority
+    from candidates c
+  )
+  select s.id, s.priority, row_number() over (
+    order by
+      s.priority desc,
+      case when p.strategy = 'resubmissions_first' then s.is_resubmission end desc nulls last,
+      case when p.strategy = 'countries_first' then coalesce(s.country = any (p.countries), false) end desc nulls last,
+      case when p.strategy = 'most_photos' then s.photo_count end desc nulls last,
+      case when p.strategy = 'newest_first' then s.created_at end desc nulls last,
+      s.created_at
+  )
+  from scored s
+  cross join prefs p;
+$$;
+
+revoke execute on function public.ranked_pending_users(uuid) from public, anon, authenticated;
+
+-- Same as before, except new claims are taken in the admin's queue order and the batch comes back in it.
+create or replace function public.claim_verification_batch(
+  p_admin_id uuid,
+  p_batch_size int,
+  p_lease_minutes int default 15
+)
+returns setof public.users
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_held int;
+begin
+  delete from verification_claims where expires_at <= now();
+
+  -- Users decided or escalated elsewhere no longer need to be held
+  delete from verification_claims c
+  using users u
+  where c.user_id = u.id
+    and c.admin_id = p_admin_id
+    and (
+      u.is_verified is distinct from 'pending'
+      or exists (select 1 from verification_escalations e where e.user_id = u.id and e.resolved_at is null)
+    );
+
+  update verification_claims
+  set expires_at = now() + make_interval(mins => p_lease_minutes)
+  where admin_id = p_admin_id;
+
+  select count(*) into v_held from verification_claims where admin_id = p_admin_id;
+
+  if v_held < p_batch_size then
+    insert into verification_claims (user_id, admin_id, expires_at)
+    select q.user_id, p_admin_id, now() + make_interval(mins => p_lease_minutes)
+    from ranked_pending_users(p_admin_id) q
+    where not exists (select 1 from verification_claims c where c.user_id = q.user_id)
+    order by q.queue_position
+    limit p_batch_size - v_held
+    on conflict (user_id) do nothing;
+  end if;
+
+  return query
+    select u.*
+    from users u
+    join verification_claims c on c.user_id = u.id
+    left join ranked_pending_users(p_admin_id) q on q.user_id = u.id
+    where c.admin_id = p_admin_id
+      and u.is_verified = 'pending'
+    order by q.queue_position nulls last, u.created_at;
+end;
+$$;
@@ -0,0 +1,78 @@
+-- Moderation state for every profile photo (users.image_urls), so each photo is reviewed once.
+-- A trigger adds a pending row whenever image_urls gains a URL, so new uploads reach the photo queue without
+-- the app having to report them. Photos already on profiles are backfilled as pending, dated by signup.
+
+create table if not exists public.profile_photos (
+  user_id uuid not null references public.users (id) on delete cascade,
+  url text not null,
+  added_at timestamptz not null default now(),
+  status text not null default 'pending' check (status in ('pending', 'approved', 'removed')),
+  reason text check (reason in ('nudity', 'not_a_person', 'contact_info', 'offensive', 'low_quality', 'other')),
+  note text,
+  reviewed_by uuid references auth.users (id),
+  reviewed_at timestamptz,
+  primary key (user_id, url),
+  constraint profile_photos_other_needs_note check (reason is distinct from 'other' or coalesce(trim(note), '') <> '')
+);
+
+create index if not exists profile_photos_pending_idx
+  on public.profile_photos (added_at desc)
+  where status = 'pending';
+
+alter table public.profile_photos enable row level security;
+
+create policy "Admins read profile photos"
+  on public.profile_photos for select
+  using (public.is_active_admin());
+
+create or replace function public.track_profile_photos()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into profile_photos (user_id, url)
+  select new.id, url
+  from unnest(coalesce(new.image_urls, '{}')) as url
+  on conflict do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists users_track_profile_photos on public.users;
+create trigger users_track_profile_photos
+  after insert or update of image_urls on public.users
+  for each row execute function public.track_profile_photos();
+
+insert into public.profile_photos (user_id, url, added_at)
+select u.id, url, u.created_at
+from public.users u, unnest(coalesce(u.image_urls, '{}')) as url
+on conflict do nothing;
+
+-- Unreviewed photos still on a profile, newest first. `total` is the full count, repeated on every row.
+create or replace function public.pending_profile_photos(p_limit int)
+returns table (
+  user_id uuid,
+  url text,
+  added_at timestamptz,
+  name text,
+  age int,
+  country text,
+  total bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.user_id, p.url, p.added_at, u.name, u.age::int, u.country, count(*) over ()
+  from profile_photos p
+  join users u on u.id = p.user_id
+  where p.status = 'pending'
+    and p.url = any (u.image_urls)
+  order by p.added_at desc, p.url
+  limit p_limit;
+$$;
+
+revoke execute on function public.pending_profile_photos(int) from public, anon, authenticated;
@@ -0,0 +1,71 @@
+-- Reports members file against each other (fake profiles, harassment, ...), and how moderators resolved them.
+-- Members insert their own reports from the app; everything else goes through the moderation API.
+-- A resolution is stored on every report it closes, so a user's report history shows what was done about it.
+
+alter table public.users
+  add column if not exists suspended_at timestamptz;
+
+create table if not exists public.user_reports (
+  id uuid primary key default gen_random_uuid(),
+  reporter_id uuid references public.users (id) on delete set null,
+  reported_user_id uuid not null references public.users (id) on delete cascade,
+  category text not null check (
+    category in ('fake_profile', 'harassment', 'spam', 'inappropriate_content', 'underage', 'scam', 'other')
+  ),
+  message text,
+  created_at timestamptz not null default now(),
+  resolution text check (resolution in ('dismissed', 'warned', 'verification_revoked', 'suspended')),
+  resolution_note text,
+  resolved_by uuid references auth.users (id),
+  resolved_at timestamptz,
+  constraint user_reports_not_self check (reporter_id is distinct from reported_user_id),
+  constraint user_reports_resolution_complete check ((resolution is null) = (resolved_at is null))
+);
+
+create index if not exists user_reports_open_idx
+  on public.user_reports (reported_user_id, created_at)
+  where resolved_at is null;
+create index if not exists user_reports_reported_user_idx
+  on public.user_reports (reported_user_id, created_at desc);
+
+alter table public.user_reports enable row level security;
+
+create policy "Users file reports"
+  on public.user_reports for insert
+  with check (auth.uid() = reporter_id and resolved_at is null and resolved_by is null and resolution_note is null);
+
+create policy "Admins read reports"
+  on public.user_reports for select
+  using (public.is_active_admin());
+
+-- Open reports grouped by reported user: most reported first, then longest waiting.
+-- `total` is the number of reported users with open reports, repeated on every row.
+create or replace function public.open_report_groups(p_limit int)
+returns table (
+  user_id uuid,
+  name text,
+  age int,
+  country text,
+  is_verified text,
+  report_count bigint,
+  categories text[],
+  first_reported_at timestamptz,
+  last_reported_at timestamptz,
+  total bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select u.id, u.name, u.age::int, u.country, u.is_verified::text,
+    count(*), array_agg(distinct r.category), min(r.created_at), max(r.created_at), count(*) over ()
+  from user_reports r
+  join users u on u.id = r.reported_user_id
+  where r.resolved_at is null
+  group by u.id
+  order by count(*) desc, min(r.created_at), u.id
+  limit p_limit;
+$$;
+
+revoke execute on function public.open_report_groups(int) from public, anon, authenticated;
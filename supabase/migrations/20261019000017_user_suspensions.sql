@@ -0,0 +1,94 @@
+-- Account suspensions and bans. Each row is one suspension with a reason and a window: it starts at starts_at
+-- (possibly in the future) and ends at ends_at, or never for a permanent ban. Lifting one early sets lifted_at.
+-- Nothing has to run when a timed suspension ends: the status below is worked out against now(), so an expired
+-- suspension simply stops counting.
+-- Replaces users.suspended_at from the reports migration; those suspensions had no end, so they become bans.
+
+create table if not exists public.user_suspensions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  reason text not null check (trim(reason) <> ''),
+  starts_at timestamptz not null default now(),
+  ends_at timestamptz, -- Null for a permanent ban
+  created_by uuid references auth.users (id),
+  created_at timestamptz not null default now(),
+  lifted_at timestamptz,
+  lifted_by uuid references auth.users (id),
+  lift_reason text,
+  constraint user_suspensions_window check (ends_at is null or ends_at > starts_at)
+);
+
+create index if not exists user_suspensions_user_id_idx
+  on public.user_suspensions (user_id, starts_at desc);
+create index if not exists user_suspensions_current_idx
+  on public.user_suspensions (ends_at)
+  where lifted_at is null;
+
+alter table public.user_suspensions enable row level security;
+
+create policy "Users read their own suspensions"
+  on public.user_suspensions for select
+  using (auth.uid() = user_id);
+
+create policy "Admins read suspensions"
+  on public.user_suspensions for select
+  using (public.is_active_admin());
+
+insert into public.user_suspensions (user_id, reason, starts_at, created_by)
+select u.id,
+  coalesce(
+    (select r.resolution_note from public.user_reports r
+     where r.reported_user_id = u.id and r.resolution = 'suspended'
+     order by r.resolved_at desc limit 1),
+    'Suspended after user reports'
+  ),
+  u.suspended_at,
+  (select r.resolved_by from public.user_reports r
+   where r.reported_user_id = u.id and r.resolution = 'suspended'
+   order by r.resolved_at desc limit 1)
+from public.users u
+where u.suspended_at is not null;
+
+alter table public.users drop column if exists suspended_at;
+
+-- 'active', 'suspended' (a timed suspension is running) or 'banned', with when it ends and why.
+-- A ban wins over a timed suspension; of several timed ones, the one that ends last is reported.
+create or replace function public.account_status(p_user_id uuid)
+returns table (status text, suspended_until timestamptz, reason text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    case when s.id is null then 'active' when s.ends_at is null then 'banned' else 'suspended' end,
+    s.ends_at,
+    s.reason
+  from (select 1) as one
+  left join lateral (
+    select id, ends_at, reason
+    from user_suspensions
+    where user_id = p_user_id
+      and lifted_at is null
+      and starts_at <= now()
+      and (ends_at is null or ends_at > now())
+    order by ends_at desc nulls first
+    limit 1
+  ) s on true;
+$$;
+
+revoke execute on function public.account_status(uuid) from public, anon, authenticated;
+
+-- The signed-in member's own status, for the app to check at sign-in and in policies on member-written tables.
+create or replace function public.my_account_status()
+returns table (status text, suspended_until timestamptz, reason text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select * from account_status(auth.uid());
+$$;
+
+revoke execute on function public.my_account_status() from public, anon;
+grant execute on function public.my_account_status() to authenticated;
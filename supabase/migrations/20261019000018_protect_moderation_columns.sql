@@ -0,0 +1,33 @@
+-- Moderation fields on users are written only by the moderation API, which uses the service role.
+-- Row-level security decides which rows a member may update, not which columns, so a signed-in member could
+-- otherwise approve themselves or change their gender from the browser. This trigger rejects such changes from
+-- the anon and authenticated roles. The one exception is putting yourself back to 'pending', which is how the
+-- app submits new verification photos.
+
+create or replace function public.protect_moderation_columns()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if new.gender is distinct from old.gender
+    or new.rejection_reason is distinct from old.rejection_reason
+    or new.rejection_note is distinct from old.rejection_note
+    or new.rejected_at is distinct from old.rejected_at
+    or (new.is_verified is distinct from old.is_verified and new.is_verified is distinct from 'pending')
+  then
+    raise exception 'Verification, gender and rejection fields can only be changed by moderators'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists users_protect_moderation_columns on public.users;
+create trigger users_protect_moderation_columns
+  before update on public.users
+  for each row execute function public.protect_moderation_columns();
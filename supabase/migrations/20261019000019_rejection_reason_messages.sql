@@ -0,0 +1,32 @@
+-- What a rejected member is told for each rejection reason. The member app looks up users.rejection_reason here
+-- instead of keeping its own copy of the texts, so a reason and its message can only change together.
+
+create table if not exists public.rejection_reasons (
+  code text primary key,
+  user_message text not null
+);
+
+insert into public.rejection_reasons (code, user_message) values
+  ('face_not_visible', 'We could not see your face clearly. Retake your selfie in good light, facing the camera, without sunglasses, masks or filters.'),
+  ('profile_mismatch', 'Your selfie does not match the people in your profile photos. Make sure your profile photos show you.'),
+  ('wrong_pose', 'Your selfie does not show the requested pose. Copy the example pose exactly and try again.'),
+  ('suspected_fake', 'We could not confirm that your photos are genuine. Submit a new, unedited selfie taken with your camera.'),
+  ('underage', 'You must be at least 18 years old to be verified.'),
+  ('other', 'Your verification could not be approved. See the note from our team below.')
+on conflict (code) do update set user_message = excluded.user_message;
+
+-- Every stored reason must have a message
+alter table public.users
+  drop constraint if exists users_rejection_reason_fkey,
+  add constraint users_rejection_reason_fkey foreign key (rejection_reason) references public.rejection_reasons (code);
+
+alter table public.verification_rejections
+  drop constraint if exists verification_rejections_reason_fkey,
+  add constraint verification_rejections_reason_fkey foreign key (reason) references public.rejection_reasons (code);
+
+alter table public.rejection_reasons enable row level security;
+
+-- Members read the message for their own rejection; the texts themselves are not private
+create policy "Anyone reads rejection reasons"
+  on public.rejection_reasons for select
+  using (true);
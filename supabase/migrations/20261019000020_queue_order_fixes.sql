@@ -0,0 +1,66 @@
+-- Queue order fixes:
+-- * Country matching ignores case. Rules and admin country lists are stored upper case, but users.country is
+--   written by the member app and isn't normalised.
+-- * A user whose verification was reset counts as a resubmission too, and resubmissions are taken in the order
+--   they were asked for (resubmission_requested_at, or the last rejection) rather than by signup time.
+
+create or replace function public.ranked_pending_users(p_admin_id uuid)
+returns table (user_id uuid, priority bigint, queue_position bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with prefs as (
+    select
+      coalesce(a.queue_strategy, 'oldest_first') as strategy,
+      array(select lower(code) from unnest(coalesce(a.queue_countries, '{}')) as code) as countries
+    from (select 1) as one
+    left join admins a on a.id = p_admin_id
+  ),
+  candidates as (
+    select
+      u.id,
+      u.created_at,
+      lower(u.country) as country,
+      coalesce(cardinality(u.image_urls), 0) as photo_count,
+      u.resubmission_requested_at is not null
+        or exists (select 1 from verification_rejections r where r.user_id = u.id) as is_resubmission,
+      coalesce(
+        u.resubmission_requested_at,
+        u.rejected_at,
+        (select max(r.created_at) from verification_rejections r where r.user_id = u.id)
+      ) as resubmission_requested_at
+    from users u
+    where u.is_verified = 'pending'
+      and not exists (select 1 from verification_escalations e where e.user_id = u.id and e.resolved_at is null)
+  ),
+  scored as (
+    select c.*, coalesce((
+      select sum(r.weight)
+      from queue_priority_rules r
+      where r.active
+        and case r.kind
+          when 'country' then c.country = lower(r.value)
+          when 'resubmission' then c.is_resubmission
+          when 'min_photos' then c.photo_count >= r.value::int
+          when 'waiting_days' then c.created_at <= now() - make_interval(days => r.value::int)
+        end
+    ), 0) as priority
+    from candidates c
+  )
+  select s.id, s.priority, row_number() over (
+    order by
+      s.priority desc,
+      case when p.strategy = 'resubmissions_first' then s.is_resubmission end desc nulls last,
+      case when p.strategy = 'resubmissions_first' and s.is_resubmission then s.resubmission_requested_at end nulls last,
+      case when p.strategy = 'countries_first' then coalesce(s.country = any (p.countries), false) end desc nulls last,
+      case when p.strategy = 'most_photos' then s.photo_count end desc nulls last,
+      case when p.strategy = 'newest_first' then s.created_at end desc nulls last,
+      s.created_at
+  )
+  from scored s
+  cross join prefs p;
+$$;
+
+revoke execute on function public.ranked_pending_users(uuid) from public, anon, authenticated;
@@ -0,0 +1,11 @@
+-- attribute_options.color picks a set of Tailwind classes in the dashboard (OPTION_COLORS in
+-- src/lib/attribute-options.ts), so only those colour names may be stored. Keep both lists in step.
+
+update public.attribute_options
+set color = 'gray'
+where color not in ('gray', 'blue', 'pink', 'purple', 'green', 'amber', 'red', 'cyan');
+
+alter table public.attribute_options
+  drop constraint if exists attribute_options_color_check,
+  add constraint attribute_options_color_check
+    check (color in ('gray', 'blue', 'pink', 'purple', 'green', 'amber', 'red', 'cyan'));
@@ -0,0 +1,16 @@
+-- Takes one URL off a profile in a single statement. Reading image_urls, filtering it in the app and writing the
+-- array back would drop a photo the member added in between.
+
+create or replace function public.remove_profile_photo(p_user_id uuid, p_url text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update users
+  set image_urls = array_remove(image_urls, p_url)
+  where id = p_user_id
+    and p_url = any (image_urls);
+$$;
+
+revoke execute on function public.remove_profile_photo(uuid, text) from public, anon, authenticated;
@@ -0,0 +1,41 @@
+-- Warnings given to members when a moderator resolves reports against them with 'warned'. The message is the
+-- moderator's note and is shown to the member in the app until they acknowledge it.
+
+create table if not exists public.user_warnings (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  message text not null check (trim(message) <> ''),
+  created_by uuid references auth.users (id),
+  created_at timestamptz not null default now(),
+  acknowledged_at timestamptz
+);
+
+create index if not exists user_warnings_user_id_idx
+  on public.user_warnings (user_id, created_at desc);
+
+alter table public.user_warnings enable row level security;
+
+create policy "Users read their own warnings"
+  on public.user_warnings for select
+  using (auth.uid() = user_id);
+
+create policy "Admins read warnings"
+  on public.user_warnings for select
+  using (public.is_active_admin());
+
+-- Members may only mark their own warnings as seen, so this goes through a function rather than an update policy
+create or replace function public.acknowledge_warning(p_warning_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update user_warnings
+  set acknowledged_at = now()
+  where id = p_warning_id
+    and user_id = auth.uid()
+    and acknowledged_at is null;
+$$;
+
+revoke execute on function public.acknowledge_warning(uuid) from public, anon;
+grant execute on function public.acknowledge_warning(uuid) to authenticated;
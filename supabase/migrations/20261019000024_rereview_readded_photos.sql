@@ -0,0 +1,27 @@
+-- A member who puts a removed photo back on their profile sends it to the photo queue again. Before, the existing
+-- 'removed' row made the insert a no-op, so the photo went live without review. Approved photos stay approved.
+
+create or replace function public.track_profile_photos()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into profile_photos (user_id, url)
+  select new.id, url
+  from unnest(coalesce(new.image_urls, '{}')) as url
+  on conflict (user_id, url) do update
+    set status = 'pending', added_at = now(), reason = null, note = null, reviewed_by = null, reviewed_at = null
+    where profile_photos.status = 'removed';
+  return new;
+end;
+$$;
+
+-- Removed photos that are back on a profile already
+update public.profile_photos p
+set status = 'pending', added_at = now(), reason = null, note = null, reviewed_by = null, reviewed_at = null
+from public.users u
+where u.id = p.user_id
+  and p.status = 'removed'
+  and p.url = any (u.image_urls);